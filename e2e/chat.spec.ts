@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test'
+import { test, expect, type Page } from '@playwright/test'
 
 // Mock WebGPU so the app doesn't show the unsupported screen
 test.beforeEach(async ({ page }) => {
@@ -18,6 +18,15 @@ test.beforeEach(async ({ page }) => {
   })
 })
 
+// Switch to the scripted backend and load a model, then close settings
+async function loadScriptedModel(page: Page) {
+  await page.getByTestId('settings-button').click()
+  await page.getByTestId('inference-mode-scripted').click()
+  await page.getByTestId('model-option-mobile').click()
+  await expect(page.getByTestId('model-status-badge')).not.toContainText('No model loaded')
+  await page.keyboard.press('Escape')
+}
+
 test.describe('App Shell', () => {
   test('renders the main layout', async ({ page }) => {
     await page.goto('/')
@@ -88,7 +97,7 @@ test.describe('Settings Modal', () => {
     await expect(page.getByTestId('model-option-mobile')).toBeVisible()
     await expect(page.getByTestId('model-option-light')).toBeVisible()
     await expect(page.getByTestId('model-option-medium')).toBeVisible()
-    await expect(page.getByTestId('model-option-heavy')).toBeVisible()
+    await expect(page.getByTestId('model-option-heavy').first()).toBeVisible()
     
     // Close via Escape
     await page.keyboard.press('Escape')
@@ -113,6 +122,320 @@ test.describe('Model Status', () => {
   })
 })
 
+test.describe('Offline Chat (scripted backend)', () => {
+  test('chats end-to-end without a GPU', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    // Start a conversation and send a message
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('Hello offline')
+    await page.getByTestId('send-button').click()
+
+    await expect(page.getByTestId('message-user')).toContainText('Hello offline')
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Hello offline')
+  })
+
+  test('renders JSON replies as a tree when a schema is attached', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('response-format-button').click()
+    await page.getByTestId('response-format-json_object').click()
+    await page
+      .getByTestId('response-format-schema')
+      .fill('{"type": "object", "required": ["echo"]}')
+    await page.getByTestId('response-format-save').click()
+
+    await page.getByTestId('chat-input').fill('structured please')
+    await page.getByTestId('send-button').click()
+
+    await expect(page.getByTestId('structured-reply-status')).toHaveText('Valid JSON')
+    await expect(page.getByTestId('json-tree')).toContainText('structured please')
+  })
+
+  test('applies a preset to the conversation', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('conversation-settings-button').click()
+    await page.getByTestId('conversation-preset-select').selectOption({ label: 'Code' })
+    await page.getByTestId('conversation-preset-apply').click()
+    await expect(page.getByTestId('conversation-system-prompt')).toHaveValue(/expert programmer/)
+    await expect(page.getByTestId('conversation-generation-temperature')).toHaveValue('0.2')
+    await page.getByTestId('conversation-settings-save').click()
+
+    // Settings survive reopening the panel
+    await page.getByTestId('conversation-settings-button').click()
+    await expect(page.getByTestId('conversation-system-prompt')).toHaveValue(/expert programmer/)
+  })
+
+  test('runs a tool call and shows it as a step', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+    await page.getByTestId('settings-button').click()
+    await page.getByTestId('tool-toggle-calculator').check()
+    await page.keyboard.press('Escape')
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('/calculator {"expression": "6 * 7"}')
+    await page.getByTestId('send-button').click()
+
+    await expect(page.getByTestId('message-assistant')).toContainText('Tool result: 42')
+    await page.getByTestId('tool-step').getByRole('button').click()
+    await expect(page.getByTestId('tool-step-details')).toContainText('6 * 7')
+  })
+
+  test('queues follow-up prompts while a reply is generating', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    // A long prompt keeps the echoed reply streaming while we queue
+    await page.getByTestId('chat-input').fill(`first ${'word '.repeat(100)}`)
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('stop-button')).toBeVisible()
+
+    await page.getByTestId('chat-input').fill('second')
+    await page.getByTestId('chat-input').press('Enter')
+    await page.getByTestId('chat-input').fill('third')
+    await page.getByTestId('chat-input').press('Enter')
+    await expect(page.getByTestId('queued-prompt')).toHaveCount(2)
+
+    // Send "third" before "second"
+    await page.getByTestId('queued-prompt-up').nth(1).click()
+    await expect(page.getByTestId('queued-prompt').first()).toContainText('third')
+
+    await expect(page.getByTestId('prompt-queue')).toBeHidden({ timeout: 15000 })
+    await expect(page.getByTestId('message-user')).toHaveCount(3)
+    await expect(page.getByTestId('message-user').nth(1)).toContainText('third')
+    await expect(page.getByTestId('message-assistant').nth(2)).toContainText('Echo: second')
+  })
+
+  test('edits a sent message into a new branch', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('Hello cats')
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Hello cats')
+
+    await page.getByTestId('message-edit').click()
+    await page.getByTestId('message-edit-input').fill('Hello dogs')
+    await page.getByTestId('message-edit-submit').click()
+
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Hello dogs')
+    await expect(page.getByTestId('message-user')).toHaveCount(1)
+    await expect(page.getByTestId('branch-position')).toHaveText('2/2')
+
+    // The original exchange is still there
+    await page.getByTestId('branch-prev').click()
+    await expect(page.getByTestId('branch-position')).toHaveText('1/2')
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Hello cats')
+
+    // ...and stays selected after a reload
+    await page.reload()
+    await expect(page.getByTestId('message-user')).toContainText('Hello cats')
+  })
+
+  test('regenerates a reply as another version', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('Tell me a joke')
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Tell me a joke')
+
+    await page.getByTestId('regenerate-button').click()
+    await expect(page.getByTestId('branch-position')).toHaveText('2/2')
+    await expect(page.getByTestId('message-assistant')).toHaveCount(1)
+
+    // A third version sampled with a preset's settings
+    await page.getByTestId('regenerate-options').click()
+    await page.getByTestId('regenerate-preset').first().click()
+    await expect(page.getByTestId('branch-position')).toHaveText('3/3')
+
+    // Continue from the first version
+    await page.getByTestId('branch-prev').click()
+    await page.getByTestId('branch-prev').click()
+    await expect(page.getByTestId('branch-position')).toHaveText('1/3')
+    await page.getByTestId('chat-input').fill('Another one')
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('message-assistant').nth(1)).toContainText('Echo: Another one')
+    await expect(page.getByTestId('branch-position')).toHaveText('1/3')
+  })
+
+  test('finds a message from the sidebar search', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('Remember the aubergine recipe')
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo:')
+
+    // Move away so opening the hit has to switch conversations
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('sidebar-search').fill('auberg')
+    await expect(page.getByTestId('search-result')).toHaveCount(2)
+    await expect(page.getByTestId('search-result').first().locator('mark')).toHaveText('aubergine')
+
+    await page.getByTestId('search-result').last().click()
+    await expect(page.locator('[data-highlighted]')).toContainText('aubergine')
+  })
+
+  test('exports a conversation and imports it back', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('Round trip')
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Round trip')
+
+    await page.getByTestId('conversation-item').first().hover()
+    await page.getByTestId('conversation-menu-button').first().click()
+    const [download] = await Promise.all([
+      page.waitForEvent('download'),
+      page.getByTestId('conversation-export-json').click(),
+    ])
+    expect(download.suggestedFilename()).toBe('round-trip.json')
+
+    await page.getByTestId('import-input').setInputFiles(await download.path())
+    await expect(page.getByTestId('import-status')).toContainText('Imported 1 conversation')
+    await expect(page.getByTestId('conversation-item')).toHaveCount(2)
+  })
+
+  test('restores deleted conversations and messages from the trash', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    await page.getByTestId('chat-input').fill('Keep me')
+    await page.getByTestId('send-button').click()
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Keep me')
+
+    // Deleting a message takes its reply with it; undo brings both back
+    await page.getByTestId('message-user').getByTestId('message-delete').click()
+    await expect(page.getByTestId('message-user')).toHaveCount(0)
+    await page.getByTestId('undo-button').click()
+    await expect(page.getByTestId('message-assistant')).toContainText('Echo: Keep me')
+
+    // A deleted conversation waits in the trash
+    await page.getByTestId('conversation-item').first().hover()
+    await page.getByTestId('conversation-menu-button').first().click()
+    await page.getByText('🗑️ Delete').click()
+    await expect(page.getByTestId('conversation-item')).toHaveCount(0)
+    await expect(page.getByTestId('undo-toast')).toBeVisible()
+
+    await page.getByTestId('trash-button').click()
+    await expect(page.getByTestId('trash-item')).toHaveCount(1)
+    await page.getByTestId('trash-restore').click()
+    await expect(page.getByTestId('trash-empty')).toBeVisible()
+
+    await page.getByTestId('trash-button').click()
+    await expect(page.getByTestId('conversation-item')).toHaveCount(1)
+  })
+
+  test('organizes conversations with pins, folders, tags and the archive', async ({ page }) => {
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    for (const prompt of ['Alpha', 'Beta']) {
+      await page.getByTestId('new-chat-button').click()
+      await page.getByTestId('chat-input').fill(prompt)
+      await page.getByTestId('send-button').click()
+      await expect(page.getByTestId('message-assistant')).toContainText(`Echo: ${prompt}`)
+    }
+    const items = page.getByTestId('conversation-item')
+    await expect(items).toHaveCount(2)
+
+    // Pinning moves the older conversation to the top
+    await items.nth(1).hover()
+    await items.nth(1).getByTestId('conversation-menu-button').click()
+    await page.getByTestId('conversation-pin').click()
+    await expect(items.first().getByTestId('conversation-pinned')).toBeVisible()
+
+    // Drag it into a new folder, then look inside
+    await page.getByTestId('folder-create').click()
+    await page.getByTestId('folder-name-input').fill('Work')
+    await page.getByTestId('folder-name-input').press('Enter')
+    await items.first().dragTo(page.getByTestId('folder-item'))
+    await page.getByTestId('folder-filter').click()
+    await expect(items).toHaveCount(1)
+
+    // Tag the other one and filter by the tag
+    await page.getByTestId('filter-all').click()
+    await page.getByTestId('tag-create').click()
+    await page.getByTestId('tag-name-input').fill('Ideas')
+    await page.getByTestId('tag-color-violet').click()
+    await page.getByTestId('tag-create-submit').click()
+    await items.nth(1).hover()
+    await items.nth(1).getByTestId('conversation-menu-button').click()
+    await page.getByTestId('conversation-tag-toggle').click()
+    await items.nth(1).getByTestId('conversation-menu-button').click()
+    await page.getByTestId('tag-filter').click()
+    await expect(items).toHaveCount(1)
+    await expect(items.first().getByTestId('conversation-tag')).toBeVisible()
+
+    // Archived conversations only show under Archived
+    await items.first().hover()
+    await items.first().getByTestId('conversation-menu-button').click()
+    await page.getByTestId('conversation-archive').click()
+    await expect(page.getByTestId('filter-empty')).toBeVisible()
+    await page.getByTestId('filter-all').click()
+    await expect(items).toHaveCount(1)
+    await page.getByTestId('filter-archived').click()
+    await expect(items).toHaveCount(1)
+  })
+
+  test('offers a jump to the latest message after scrolling up', async ({ page }) => {
+    await page.setViewportSize({ width: 1024, height: 600 })
+    await page.goto('/')
+
+    await loadScriptedModel(page)
+
+    await page.getByTestId('new-chat-button').click()
+    for (let i = 1; i <= 6; i++) {
+      await page.getByTestId('chat-input').fill(`Message ${i}\n\n${'More lines\n\n'.repeat(4)}`)
+      await page.getByTestId('send-button').click()
+      await expect(page.getByTestId('message-assistant').last()).toContainText(`Echo: Message ${i}`)
+    }
+    await expect(page.getByTestId('jump-to-latest')).toBeHidden()
+
+    await page.getByTestId('message-list').evaluate((list) => list.scrollTo(0, 0))
+    await page.getByTestId('jump-to-latest').click()
+    await expect(page.getByTestId('message-assistant').last()).toBeInViewport()
+    await expect(page.getByTestId('jump-to-latest')).toBeHidden()
+  })
+
+  test('offers the offline demo when WebGPU is unavailable', async ({ page }) => {
+    await page.addInitScript(() => {
+      Object.defineProperty(navigator, 'gpu', { value: undefined, configurable: true })
+    })
+    await page.goto('/')
+
+    await expect(page.getByTestId('webgpu-unsupported')).toBeVisible()
+    await page.getByTestId('use-scripted-mode').click()
+    await expect(page.getByTestId('new-chat-button')).toBeVisible()
+  })
+})
+
 test.describe('Multiple Conversations', () => {
   test('manages multiple conversations', async ({ page }) => {
     await page.goto('/')
@@ -4,6 +4,7 @@ import { ChatContainer } from './components/chat/ChatContainer'
 import { SettingsModal } from './components/settings/SettingsModal'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { WebGPUCheck } from './components/WebGPUCheck'
+import { UndoToast } from './components/UndoToast'
 import { useAppStore } from './store/app-store'
 
 function App() {
@@ -20,6 +21,7 @@ function App() {
           <Sidebar />
           <ChatContainer />
           <SettingsModal />
+          <UndoToast />
         </div>
       </WebGPUCheck>
     </ErrorBoundary>
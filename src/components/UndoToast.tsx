@@ -0,0 +1,48 @@
+// ============================================================
+// UndoToast — offers to bring back what was just deleted
+// ============================================================
+
+import { useEffect } from 'react'
+import { useAppStore } from '../store/app-store'
+import { trashItemTitle } from '../lib/trash'
+
+// How long the offer stays up; the item stays in the trash after
+const UNDO_MS = 8000
+
+export function UndoToast() {
+  const recentlyDeleted = useAppStore((s) => s.recentlyDeleted)
+  const restoreFromTrash = useAppStore((s) => s.restoreFromTrash)
+  const dismiss = useAppStore((s) => s.dismissRecentlyDeleted)
+
+  useEffect(() => {
+    if (!recentlyDeleted) return
+    const timer = setTimeout(dismiss, UNDO_MS)
+    return () => clearTimeout(timer)
+  }, [recentlyDeleted, dismiss])
+
+  if (!recentlyDeleted) return null
+
+  return (
+    <div
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 max-w-md px-4 py-3 rounded-xl bg-slate-700 border border-slate-600 shadow-2xl text-sm text-slate-200"
+      role="status"
+      data-testid="undo-toast"
+    >
+      <span className="flex-1 truncate">Moved {trashItemTitle(recentlyDeleted)} to the trash</span>
+      <button
+        onClick={() => restoreFromTrash(recentlyDeleted)}
+        className="font-medium text-blue-300 hover:text-white transition-colors"
+        data-testid="undo-button"
+      >
+        Undo
+      </button>
+      <button
+        onClick={dismiss}
+        className="text-slate-400 hover:text-white transition-colors"
+        title="Dismiss"
+      >
+        ✕
+      </button>
+    </div>
+  )
+}
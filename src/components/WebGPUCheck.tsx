@@ -3,6 +3,7 @@
 // ============================================================
 
 import { useState, useEffect, type ReactNode } from 'react'
+import { useAppStore } from '../store/app-store'
 
 interface WebGPUCheckProps {
   children: ReactNode
@@ -10,6 +11,8 @@ interface WebGPUCheckProps {
 
 export function WebGPUCheck({ children }: WebGPUCheckProps) {
   const [status, setStatus] = useState<'checking' | 'supported' | 'unsupported'>('checking')
+  const inferenceMode = useAppStore((s) => s.inferenceMode)
+  const setInferenceMode = useAppStore((s) => s.setInferenceMode)
 
   useEffect(() => {
     const check = async () => {
@@ -28,6 +31,11 @@ export function WebGPUCheck({ children }: WebGPUCheckProps) {
     check()
   }, [])
 
+  // Only local inference needs WebGPU
+  if (inferenceMode !== 'local') {
+    return <>{children}</>
+  }
+
   if (status === 'checking') {
     return (
       <div className="flex items-center justify-center min-h-screen bg-slate-900">
@@ -91,6 +99,13 @@ export function WebGPUCheck({ children }: WebGPUCheckProps) {
             >
               Check Again
             </button>
+            <button
+              onClick={() => setInferenceMode('scripted')}
+              className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-white text-sm font-medium transition-colors"
+              data-testid="use-scripted-mode"
+            >
+              Offline Demo
+            </button>
           </div>
         </div>
       </div>
@@ -2,9 +2,13 @@
 // ChatContainer — main chat layout
 // ============================================================
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { MessageList } from './MessageList'
 import { ChatInput } from './ChatInput'
+import { PromptQueue } from './PromptQueue'
+import { ResponseFormatPanel } from './ResponseFormatPanel'
+import { ConversationSettingsPanel } from './ConversationSettingsPanel'
+import { ContextMeter } from './ContextMeter'
 import { ErrorDisplay } from '../error/ErrorDisplay'
 import { useAppChat } from '../../hooks/useAppChat'
 import { useAppStore } from '../../store/app-store'
@@ -14,6 +18,19 @@ export function ChatContainer() {
   const modelStatus = useAppStore((s) => s.modelStatus)
   const sidebarOpen = useAppStore((s) => s.sidebarOpen)
   const toggleSidebar = useAppStore((s) => s.toggleSidebar)
+  const highlightedMessageId = useAppStore((s) => s.highlightedMessageId)
+  const clearHighlightedMessage = useAppStore((s) => s.clearHighlightedMessage)
+  const trashMessage = useAppStore((s) => s.trashMessage)
+  const messagesVersion = useAppStore((s) => s.messagesVersion)
+  const conversation = useAppStore((s) =>
+    s.conversations.find((c) => c.id === s.currentConversationId),
+  )
+  const [openPanel, setOpenPanel] = useState<'format' | 'settings' | null>(null)
+  const responseFormat = conversation?.responseFormat
+  const hasFormat = responseFormat != null && responseFormat.type !== 'text'
+  const hasSettings = !!(conversation?.systemPrompt || conversation?.generationConfig)
+  const togglePanel = (panel: 'format' | 'settings') =>
+    setOpenPanel((open) => (open === panel ? null : panel))
 
   const {
     messages,
@@ -24,14 +41,37 @@ export function ChatContainer() {
     handleSubmit,
     stopGeneration,
     loadMessages,
+    queuedPrompts,
+    cancelQueued,
+    moveQueuedPrompt,
+    clearQueue,
+    resumeQueue,
+    resendLastMessage,
+    trimAndRetry,
+    branches,
+    editMessage,
+    switchBranch,
+    regenerate,
+    hasOlderMessages,
+    historyTokens,
+    replyModelId,
+    loadOlderMessages,
+    revealMessage,
   } = useAppChat(currentConversationId)
 
-  // Load messages when conversation changes
+  // Load messages when conversation changes, or when they were
+  // deleted or restored
   useEffect(() => {
     if (currentConversationId) {
       loadMessages(currentConversationId)
     }
-  }, [currentConversationId, loadMessages])
+  }, [currentConversationId, loadMessages, messagesVersion])
+
+  // A search result further back than the loaded pages is read in
+  // page by page
+  useEffect(() => {
+    if (highlightedMessageId) revealMessage(highlightedMessageId)
+  }, [highlightedMessageId, revealMessage])
 
   return (
     <div className="flex-1 flex flex-col h-full bg-slate-900">
@@ -56,19 +96,102 @@ export function ChatContainer() {
           </h2>
         </div>
 
+        {conversation && (
+          <button
+            onClick={() => togglePanel('settings')}
+            className={`p-1.5 rounded-lg transition-colors ${
+              hasSettings
+                ? 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30'
+                : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700 hover:text-white'
+            }`}
+            title="Conversation settings (model, system prompt, sampling)"
+            data-testid="conversation-settings-button"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4"
+              />
+            </svg>
+          </button>
+        )}
+
+        {conversation && (
+          <button
+            onClick={() => togglePanel('format')}
+            className={`px-2.5 py-1.5 rounded-lg text-xs font-mono transition-colors ${
+              hasFormat
+                ? 'bg-blue-500/20 text-blue-300 hover:bg-blue-500/30'
+                : 'bg-slate-700/50 text-slate-400 hover:bg-slate-700 hover:text-white'
+            }`}
+            title="Reply format (JSON schema or grammar)"
+            data-testid="response-format-button"
+          >
+            {responseFormat?.type === 'grammar' ? 'EBNF' : '{ }'}
+          </button>
+        )}
+
+        {conversation && (
+          <ContextMeter
+            historyTokens={historyTokens}
+            modelId={replyModelId}
+            conversation={conversation}
+          />
+        )}
+
         {/* Model status badge */}
         <ModelStatusBadge />
       </header>
 
+      {/* Per-conversation output constraint */}
+      {openPanel === 'format' && conversation && (
+        <ResponseFormatPanel
+          key={conversation.id}
+          conversation={conversation}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+
+      {/* Per-conversation model, system prompt and sampling */}
+      {openPanel === 'settings' && conversation && (
+        <ConversationSettingsPanel
+          key={conversation.id}
+          conversation={conversation}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+
       {/* Messages */}
       <MessageList
         messages={messages}
         streamingContent={streamingContent}
         isLoading={isLoading}
+        highlightedMessageId={highlightedMessageId}
+        onHighlightEnd={clearHighlightedMessage}
+        branches={branches}
+        onSwitchBranch={switchBranch}
+        onEditMessage={modelStatus === 'ready' ? editMessage : undefined}
+        onRegenerate={modelStatus === 'ready' ? regenerate : undefined}
+        onDeleteMessage={trashMessage}
+        hasOlder={hasOlderMessages}
+        onLoadOlder={loadOlderMessages}
       />
 
       {/* Error display */}
-      <ErrorDisplay />
+      <ErrorDisplay onResend={resendLastMessage} onTrimAndRetry={trimAndRetry} />
+
+      {/* Follow-up prompts waiting for the current reply */}
+      <PromptQueue
+        prompts={queuedPrompts}
+        isLoading={isLoading}
+        onMove={moveQueuedPrompt}
+        onRemove={cancelQueued}
+        onClear={clearQueue}
+        onResume={resumeQueue}
+        canResume={modelStatus === 'ready'}
+      />
 
       {/* Input */}
       <ChatInput
@@ -91,16 +214,29 @@ function ModelStatusBadge() {
   const modelStatus = useAppStore((s) => s.modelStatus)
   const modelId = useAppStore((s) => s.modelId)
   const loadProgress = useAppStore((s) => s.loadProgress)
+  const inferenceMode = useAppStore((s) => s.inferenceMode)
+  const remoteConfig = useAppStore((s) => s.remoteConfig)
+  const connectionStatus = useAppStore((s) => s.connectionStatus)
   const setSettingsOpen = useAppStore((s) => s.setSettingsOpen)
 
+  const remoteStatusConfig = {
+    disconnected: { color: 'bg-slate-500', text: 'Not connected' },
+    connecting: { color: 'bg-yellow-500 animate-pulse', text: 'Connecting...' },
+    connected: { color: 'bg-emerald-500', text: remoteConfig.model || 'Remote' },
+  }
+
   const statusConfig = {
     idle: { color: 'bg-slate-500', text: 'No model loaded' },
     loading: { color: 'bg-yellow-500 animate-pulse', text: `Loading ${Math.round(loadProgress * 100)}%` },
     ready: { color: 'bg-emerald-500', text: modelId?.split('-').slice(0, 3).join(' ') ?? 'Ready' },
+    unloading: { color: 'bg-yellow-500 animate-pulse', text: 'Unloading...' },
     error: { color: 'bg-red-500', text: 'Error' },
   }
 
-  const config = statusConfig[modelStatus]
+  const config =
+    inferenceMode === 'remote' && modelStatus !== 'error'
+      ? remoteStatusConfig[connectionStatus]
+      : statusConfig[modelStatus]
 
   return (
     <button
@@ -1,5 +1,6 @@
 // ============================================================
-// ChatInput — message input with submit button
+// ChatInput — message input with submit button. While a reply is
+// generating, submitting queues the message instead.
 // ============================================================
 
 import { useRef, useEffect } from 'react'
@@ -40,7 +41,7 @@ export function ChatInput({
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
-      if (!isLoading && input.trim()) {
+      if (input.trim()) {
         onSubmit()
       }
     }
@@ -55,15 +56,21 @@ export function ChatInput({
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={disabled ? 'Load a model to start chatting...' : 'Type a message...'}
-            disabled={disabled || isLoading}
+            placeholder={
+              disabled
+                ? 'Load a model to start chatting...'
+                : isLoading
+                  ? 'Type a follow-up to queue...'
+                  : 'Type a message...'
+            }
+            disabled={disabled}
             rows={1}
             className="w-full resize-none rounded-xl bg-slate-700/50 border border-slate-600/50 px-4 py-3 text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             data-testid="chat-input"
           />
         </div>
 
-        {isLoading ? (
+        {isLoading && (
           <button
             type="button"
             onClick={onStop}
@@ -75,12 +82,14 @@ export function ChatInput({
               <rect x="5" y="5" width="10" height="10" rx="1" />
             </svg>
           </button>
-        ) : (
+        )}
+
+        {(!isLoading || input.trim()) && (
           <button
             type="submit"
             disabled={!input.trim() || disabled}
             className="flex-shrink-0 w-11 h-11 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white flex items-center justify-center transition-colors"
-            title="Send message"
+            title={isLoading ? 'Queue message' : 'Send message'}
             data-testid="send-button"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
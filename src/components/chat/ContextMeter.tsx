@@ -0,0 +1,60 @@
+// ============================================================
+// ContextMeter — how much of the model's context window the
+// conversation fills
+// ============================================================
+
+import { useAppStore } from '../../store/app-store'
+import {
+  DEFAULT_REPLY_RESERVE,
+  contextWindowFor,
+  estimateMessageTokens,
+} from '../../lib/context-window'
+import type { ContextStrategy, Conversation } from '../../types'
+
+const strategyLabels: Record<ContextStrategy, string> = {
+  'sliding-window': 'the oldest turns are dropped',
+  'keep-last-n': 'only the most recent messages are sent',
+  summarize: 'the oldest turns are summarized',
+}
+
+function formatTokenCount(tokens: number): string {
+  return tokens < 1000 ? String(tokens) : `${(tokens / 1000).toFixed(1)}k`
+}
+
+interface ContextMeterProps {
+  /** Estimated tokens of the whole branch, loaded or not */
+  historyTokens: number
+  /** The model replies come from */
+  modelId: string | null
+  conversation: Conversation
+}
+
+export function ContextMeter({ historyTokens, modelId, conversation }: ContextMeterProps) {
+  const strategy = useAppStore((s) => s.contextSettings.strategy)
+  const generationSettings = useAppStore((s) => s.generationSettings)
+
+  const contextWindow = contextWindowFor(modelId)
+  const maxTokens =
+    conversation.generationConfig?.max_tokens ?? generationSettings.max_tokens ?? DEFAULT_REPLY_RESERVE
+  const used =
+    historyTokens +
+    (conversation.systemPrompt ? estimateMessageTokens({ content: conversation.systemPrompt }) : 0)
+  const overflowing = used + maxTokens > contextWindow
+  const fraction = Math.min(used / contextWindow, 1)
+
+  const barColor = overflowing ? 'bg-amber-500' : fraction > 0.75 ? 'bg-yellow-500' : 'bg-emerald-500'
+  const title = overflowing
+    ? `The conversation is longer than the context window, so ${strategyLabels[strategy]}`
+    : `About ${used} of ${contextWindow} context tokens used (estimate)`
+
+  return (
+    <div className="hidden sm:flex items-center gap-2 text-xs text-slate-400" title={title} data-testid="context-meter">
+      <div className="w-16 h-1.5 rounded-full bg-slate-700 overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${fraction * 100}%` }} />
+      </div>
+      <span className={overflowing ? 'text-amber-400' : undefined}>
+        ~{formatTokenCount(used)} / {formatTokenCount(contextWindow)}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+// ============================================================
+// ConversationSettingsPanel — per-conversation model, system
+// prompt and sampling overrides, with named presets
+// ============================================================
+
+import { useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { conversationModelFor } from '../../hooks/useInferenceBackend'
+import { GenerationFields } from '../settings/GenerationFields'
+import {
+  parseGenerationSettings,
+  toGenerationSettingsForm,
+  type GenerationSettingsErrors,
+  type GenerationSettingsForm,
+} from '../../lib/generation-settings'
+import { AVAILABLE_MODELS, type Conversation } from '../../types'
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-slate-700/50 border border-slate-600/50 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500/50'
+
+interface ConversationSettingsPanelProps {
+  conversation: Conversation
+  onClose: () => void
+}
+
+export function ConversationSettingsPanel({ conversation, onClose }: ConversationSettingsPanelProps) {
+  const presets = useAppStore((s) => s.presets)
+  const inferenceMode = useAppStore((s) => s.inferenceMode)
+  // A model picked under another inference mode is kept, not shown
+  const savedModelId = conversationModelFor(conversation, inferenceMode)
+  const [modelId, setModelId] = useState(savedModelId ?? '')
+  const [systemPrompt, setSystemPrompt] = useState(conversation.systemPrompt ?? '')
+  const [form, setForm] = useState(() => toGenerationSettingsForm(conversation.generationConfig ?? {}))
+  const [errors, setErrors] = useState<GenerationSettingsErrors>({})
+  const [presetId, setPresetId] = useState(presets[0]?.id ?? '')
+  const [presetName, setPresetName] = useState('')
+
+  const selectedPreset = presets.find((p) => p.id === presetId)
+
+  const update = (field: keyof GenerationSettingsForm, value: string) =>
+    setForm((f) => ({ ...f, [field]: value }))
+
+  // Replace the prompt and sampling fields; the model is kept
+  const handleApplyPreset = () => {
+    if (!selectedPreset) return
+    setSystemPrompt(selectedPreset.systemPrompt ?? '')
+    setForm(toGenerationSettingsForm(selectedPreset.config))
+    setErrors({})
+  }
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset || selectedPreset.builtIn) return
+    await useAppStore.getState().deletePreset(selectedPreset.id)
+    setPresetId(presets[0]?.id ?? '')
+  }
+
+  /** Validate the sampling fields, returning null when any is invalid */
+  const parseForm = () => {
+    const parsed = parseGenerationSettings(form)
+    setErrors(parsed.errors)
+    return Object.keys(parsed.errors).length > 0 ? null : parsed.settings
+  }
+
+  const handleSaveAsPreset = async () => {
+    const config = parseForm()
+    if (!config || !presetName.trim()) return
+    const preset = await useAppStore.getState().savePreset(presetName.trim(), {
+      systemPrompt: systemPrompt.trim() || undefined,
+      config,
+    })
+    setPresetId(preset.id)
+    setPresetName('')
+  }
+
+  const handleSave = async () => {
+    const config = parseForm()
+    if (!config) return
+    const model = modelId.trim()
+    await useAppStore.getState().updateConversationSettings(conversation.id, {
+      ...(model
+        ? { modelId: model, modelMode: inferenceMode }
+        : savedModelId
+          ? { modelId: undefined, modelMode: undefined }
+          : {}),
+      systemPrompt: systemPrompt.trim() || undefined,
+      generationConfig: Object.keys(config).length > 0 ? config : undefined,
+    })
+    onClose()
+  }
+
+  return (
+    <div
+      className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/30 space-y-3 max-h-[60vh] overflow-y-auto"
+      data-testid="conversation-settings-panel"
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-400">Preset</span>
+        <select
+          value={presetId}
+          onChange={(e) => setPresetId(e.target.value)}
+          className="flex-1 px-2 py-1 rounded-lg bg-slate-700/50 border border-slate-600/50 text-xs text-white focus:outline-none"
+          data-testid="conversation-preset-select"
+        >
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleApplyPreset}
+          disabled={!selectedPreset}
+          className="px-2.5 py-1 rounded-lg text-xs font-medium bg-slate-700/50 hover:bg-slate-700 text-slate-300 transition-colors disabled:opacity-50"
+          data-testid="conversation-preset-apply"
+        >
+          Apply
+        </button>
+        {selectedPreset && !selectedPreset.builtIn && (
+          <button
+            onClick={handleDeletePreset}
+            className="px-2.5 py-1 rounded-lg text-xs font-medium bg-slate-700/50 hover:bg-red-500/20 text-slate-300 hover:text-red-300 transition-colors"
+            data-testid="conversation-preset-delete"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Model</span>
+        {inferenceMode === 'remote' ? (
+          <input
+            type="text"
+            value={modelId}
+            onChange={(e) => setModelId(e.target.value)}
+            placeholder="Server model, e.g. qwen2.5-7b-instruct"
+            className={inputClass}
+            data-testid="conversation-model"
+          />
+        ) : (
+          <select
+            value={modelId}
+            onChange={(e) => setModelId(e.target.value)}
+            className={inputClass}
+            data-testid="conversation-model"
+          >
+            <option value="">Whichever model is loaded</option>
+            {AVAILABLE_MODELS.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+            {modelId && !AVAILABLE_MODELS.some((m) => m.id === modelId) && (
+              <option value={modelId}>{modelId}</option>
+            )}
+          </select>
+        )}
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">System prompt</span>
+        <textarea
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          rows={3}
+          placeholder="e.g. You are a helpful assistant."
+          className={`${inputClass} resize-y`}
+          data-testid="conversation-system-prompt"
+        />
+      </label>
+
+      <p className="text-xs text-slate-500">
+        Sampling overrides for this conversation; empty fields use the global settings.
+      </p>
+      <GenerationFields
+        form={form}
+        errors={errors}
+        onChange={update}
+        testIdPrefix="conversation-generation"
+      />
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className="w-36 px-2 py-1.5 rounded-lg bg-slate-700/50 border border-slate-600/50 text-xs text-white placeholder-slate-500 focus:outline-none"
+          data-testid="preset-name"
+        />
+        <button
+          onClick={handleSaveAsPreset}
+          disabled={!presetName.trim()}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-700/50 hover:bg-slate-700 text-slate-300 transition-colors disabled:opacity-50"
+          data-testid="save-preset"
+        >
+          Save as preset
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-700/50 hover:bg-slate-700 text-slate-300 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+          data-testid="conversation-settings-save"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+// ============================================================
+// JsonTree — collapsible view of a structured (JSON) reply
+// ============================================================
+
+import { useState } from 'react'
+
+/** Nesting depth that starts expanded */
+const EXPANDED_DEPTH = 2
+
+export function JsonTree({ value }: { value: unknown }) {
+  return (
+    <div className="font-mono text-xs leading-relaxed" data-testid="json-tree">
+      <JsonNode value={value} depth={0} />
+    </div>
+  )
+}
+
+interface JsonNodeProps {
+  name?: string
+  value: unknown
+  depth: number
+}
+
+function JsonNode({ name, value, depth }: JsonNodeProps) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH)
+  const label = name != null && <span className="text-sky-300">{name}: </span>
+
+  if (value === null || typeof value !== 'object') {
+    return (
+      <div className="pl-4">
+        {label}
+        <JsonPrimitive value={value} />
+      </div>
+    )
+  }
+
+  const isArray = Array.isArray(value)
+  const entries = isArray
+    ? value.map((item, i) => [String(i), item] as const)
+    : Object.entries(value as Record<string, unknown>)
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}']
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : undefined}>
+      <button
+        onClick={() => setExpanded((e) => !e)}
+        className="text-left hover:text-white text-slate-300"
+        aria-expanded={expanded}
+        data-testid="json-tree-toggle"
+      >
+        <span className="inline-block w-3 text-slate-500">{expanded ? '▾' : '▸'}</span>
+        {label}
+        {expanded ? (
+          open
+        ) : (
+          <span className="text-slate-500">
+            {open} {entries.length} {isArray ? 'items' : 'keys'} {close}
+          </span>
+        )}
+      </button>
+      {expanded && (
+        <>
+          {entries.map(([key, item]) => (
+            <JsonNode key={key} name={isArray ? undefined : key} value={item} depth={depth + 1} />
+          ))}
+          <div className="pl-3 text-slate-300">{close}</div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function JsonPrimitive({ value }: { value: unknown }) {
+  if (typeof value === 'string') {
+    return <span className="text-emerald-300 break-words">{JSON.stringify(value)}</span>
+  }
+  if (typeof value === 'number') return <span className="text-amber-300">{value}</span>
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>
+  return <span className="text-slate-500">null</span>
+}
@@ -2,28 +2,108 @@
 // MessageBubble — renders a single chat message
 // ============================================================
 
+import { useState } from 'react'
 import { StreamingMarkdown } from './StreamingMarkdown'
-import type { Message } from '../../types'
+import { JsonTree } from './JsonTree'
+import { RegenerateMenu } from './RegenerateMenu'
+import { formatDuration } from '../../lib/utils'
+import type { BranchPosition } from '../../lib/message-tree'
+import type {
+  GenerationSettings,
+  Message,
+  MessageMetadata,
+  StructuredOutputCheck,
+} from '../../types'
 
 interface MessageBubbleProps {
   message: Message
   isStreaming?: boolean
+  /** Opened from a search result */
+  highlighted?: boolean
+  /** Set when the message has alternatives */
+  branch?: BranchPosition
+  onSwitchBranch?: (offset: -1 | 1) => void
+  /** Resubmit with new content; omitted when the message cannot be edited */
+  onEdit?: (content: string) => void
+  /** Answer the prompt again; only offered on the latest reply */
+  onRegenerate?: (overrides?: GenerationSettings) => void
+  /** Move the message and the replies below it to the trash */
+  onDelete?: () => void
 }
 
-export function MessageBubble({ message, isStreaming }: MessageBubbleProps) {
+export function MessageBubble({
+  message,
+  isStreaming,
+  highlighted,
+  branch,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate,
+  onDelete,
+}: MessageBubbleProps) {
   const isUser = message.role === 'user'
+  const [draft, setDraft] = useState<string | null>(null)
+
+  if (draft !== null) {
+    const submit = () => {
+      if (!draft.trim()) return
+      setDraft(null)
+      onEdit?.(draft)
+    }
+    return (
+      <div className="flex justify-end mb-4" data-message-id={message.id}>
+        <div className="w-full max-w-[85%] md:max-w-[75%] rounded-2xl bg-slate-800 border border-slate-600 p-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault()
+                submit()
+              } else if (e.key === 'Escape') {
+                setDraft(null)
+              }
+            }}
+            rows={Math.min(8, draft.split('\n').length + 1)}
+            autoFocus
+            className="w-full bg-transparent text-slate-100 resize-none focus:outline-none"
+            data-testid="message-edit-input"
+          />
+          <div className="flex justify-end gap-2 mt-2 text-xs">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              data-testid="message-edit-cancel"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submit}
+              disabled={!draft.trim()}
+              className="px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 transition-colors"
+              data-testid="message-edit-submit"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
 
   return (
     <div
       className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}
       data-testid={`message-${message.role}`}
+      data-message-id={message.id}
     >
       <div
-        className={`max-w-[85%] md:max-w-[75%] rounded-2xl px-4 py-3 ${
+        className={`max-w-[85%] md:max-w-[75%] rounded-2xl px-4 py-3 transition-shadow ${
           isUser
             ? 'bg-blue-600 text-white rounded-br-md'
             : 'bg-slate-700/60 text-slate-100 rounded-bl-md'
-        }`}
+        } ${highlighted ? 'ring-2 ring-yellow-400/80' : ''}`}
+        data-highlighted={highlighted || undefined}
       >
         {/* Role label */}
         <div
@@ -37,15 +117,187 @@ export function MessageBubble({ message, isStreaming }: MessageBubbleProps) {
         {/* Content */}
         {isUser ? (
           <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+        ) : !isStreaming && message.metadata?.structuredOutput ? (
+          <StructuredReply content={message.content} check={message.metadata.structuredOutput} />
         ) : (
-          <StreamingMarkdown content={message.content} />
+          <StreamingMarkdown content={message.content} streaming={isStreaming} />
         )}
 
         {/* Streaming indicator */}
         {isStreaming && (
           <span className="inline-block w-2 h-4 bg-emerald-400 rounded-sm ml-1 animate-pulse" />
         )}
+
+        {/* Generation stats */}
+        {!isUser && !isStreaming && message.metadata && (
+          <GenerationStats metadata={message.metadata} />
+        )}
+
+        {(branch || onEdit || onRegenerate || onDelete) && (
+          <div
+            className={`flex items-center gap-2 mt-1 text-[11px] ${
+              isUser ? 'justify-end text-blue-200' : 'text-slate-500'
+            }`}
+          >
+            {branch && onSwitchBranch && (
+              <BranchNav branch={branch} onSwitch={onSwitchBranch} />
+            )}
+            {onEdit && (
+              <button
+                onClick={() => setDraft(message.content)}
+                className="hover:text-white transition-colors"
+                title="Edit and resend"
+                data-testid="message-edit"
+              >
+                Edit
+              </button>
+            )}
+            {onRegenerate && <RegenerateMenu onRegenerate={onRegenerate} />}
+            {onDelete && (
+              <button
+                onClick={onDelete}
+                className="hover:text-white transition-colors"
+                title="Delete this message and the replies after it"
+                data-testid="message-delete"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
 }
+
+// ============================================================
+// "< 2/3 >" switcher between the alternatives at a fork
+// ============================================================
+
+function BranchNav({
+  branch,
+  onSwitch,
+}: {
+  branch: BranchPosition
+  onSwitch: (offset: -1 | 1) => void
+}) {
+  return (
+    <span className="flex items-center gap-1" data-testid="branch-nav">
+      <button
+        onClick={() => onSwitch(-1)}
+        disabled={branch.index === 0}
+        className="px-1 hover:text-white disabled:opacity-40 transition-colors"
+        title="Previous version"
+        data-testid="branch-prev"
+      >
+        &lt;
+      </button>
+      <span data-testid="branch-position">
+        {branch.index + 1}/{branch.count}
+      </span>
+      <button
+        onClick={() => onSwitch(1)}
+        disabled={branch.index === branch.count - 1}
+        className="px-1 hover:text-white disabled:opacity-40 transition-colors"
+        title="Next version"
+        data-testid="branch-next"
+      >
+        &gt;
+      </button>
+    </span>
+  )
+}
+
+// ============================================================
+// JSON reply generated under a response format
+// ============================================================
+
+function parseJson(content: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(content) }
+  } catch {
+    return null
+  }
+}
+
+function StructuredReply({ content, check }: { content: string; check: StructuredOutputCheck }) {
+  const [showRaw, setShowRaw] = useState(false)
+  const parsed = parseJson(content)
+
+  return (
+    <div className="space-y-2" data-testid="structured-reply">
+      <div className="flex items-center gap-2 text-[11px]">
+        <span
+          className={`px-2 py-0.5 rounded-full border ${
+            check.valid
+              ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
+              : 'bg-red-500/20 text-red-400 border-red-500/30'
+          }`}
+          data-testid="structured-reply-status"
+        >
+          {check.valid ? 'Valid JSON' : parsed ? 'Schema mismatch' : 'Invalid JSON'}
+        </span>
+        {parsed && (
+          <button
+            onClick={() => setShowRaw((r) => !r)}
+            className="text-slate-400 hover:text-white transition-colors"
+          >
+            {showRaw ? 'Show tree' : 'Show raw'}
+          </button>
+        )}
+      </div>
+
+      {parsed && !showRaw ? (
+        <JsonTree value={parsed.value} />
+      ) : (
+        <pre className="whitespace-pre-wrap break-words font-mono text-xs">{content}</pre>
+      )}
+
+      {check.errors.length > 0 && (
+        <ul className="text-[11px] text-red-300 list-disc pl-4">
+          {check.errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+// ============================================================
+// Token usage and timing line under assistant messages
+// ============================================================
+
+function GenerationStats({ metadata }: { metadata: MessageMetadata }) {
+  const parts: string[] = []
+
+  if (metadata.completionTokens != null) {
+    parts.push(`${metadata.completionTokens} tokens`)
+  }
+  if (metadata.durationMs != null) {
+    parts.push(formatDuration(metadata.durationMs))
+  }
+  if (metadata.decodeTokensPerSec != null) {
+    parts.push(`${metadata.decodeTokensPerSec.toFixed(1)} tok/s`)
+  }
+  if (metadata.timeToFirstTokenMs != null) {
+    parts.push(`TTFT ${formatDuration(metadata.timeToFirstTokenMs)}`)
+  }
+
+  if (parts.length === 0) return null
+
+  const title =
+    metadata.promptTokens != null && metadata.prefillTokensPerSec != null
+      ? `Prompt: ${metadata.promptTokens} tokens at ${metadata.prefillTokensPerSec.toFixed(1)} tok/s`
+      : undefined
+
+  return (
+    <div
+      className="mt-2 text-[11px] text-slate-500"
+      title={title}
+      data-testid="message-stats"
+    >
+      {parts.join(' · ')}
+    </div>
+  )
+}
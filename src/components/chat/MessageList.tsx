@@ -1,24 +1,251 @@
 // ============================================================
-// MessageList — scrollable message area
+// MessageList — scrollable message area. Only the messages near
+// the viewport are rendered; the rest are stood in for by space
+// of their measured (or estimated) height.
 // ============================================================
 
-import { useEffect, useRef } from 'react'
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import { MessageBubble } from './MessageBubble'
-import type { Message } from '../../types'
+import { ToolCallSteps } from './ToolCallSteps'
+import type { BranchPosition } from '../../lib/message-tree'
+import {
+  rememberedLayout,
+  rowOffsets,
+  visibleRange,
+  type ListLayout,
+  type ScrollAnchor,
+} from '../../lib/virtual-list'
+import type { GenerationSettings, Message } from '../../types'
+
+// How long a message opened from search stays highlighted
+const HIGHLIGHT_MS = 3000
+
+// Scrolling up this close to the top reads the previous page
+const LOAD_OLDER_THRESHOLD_PX = 200
+
+// Height assumed for a message until it has rendered once
+const ESTIMATED_ROW_HEIGHT_PX = 120
+
+// Rows rendered beyond each edge of the viewport
+const OVERSCAN_PX = 800
+
+// Closer than this to the bottom keeps following new messages
+const STICK_THRESHOLD_PX = 80
+
+// The first row in view
+function findAnchor(list: HTMLElement): ScrollAnchor | null {
+  const listTop = list.getBoundingClientRect().top
+  for (const row of list.querySelectorAll<HTMLElement>('[data-row-id]')) {
+    const { top, bottom } = row.getBoundingClientRect()
+    if (bottom > listTop) return { id: row.dataset.rowId!, offset: top - listTop }
+  }
+  return null
+}
+
+// Scroll the anchor row back to where it was after rows above it
+// changed height or were added
+function keepAnchor(list: HTMLElement, anchor: ScrollAnchor | null) {
+  if (!anchor) return
+  const row = list.querySelector(`[data-row-id="${CSS.escape(anchor.id)}"]`)
+  if (!row) return
+  const drift = row.getBoundingClientRect().top - list.getBoundingClientRect().top - anchor.offset
+  if (drift) list.scrollTop += drift
+}
 
 interface MessageListProps {
   messages: Message[]
   streamingContent: string
   isLoading: boolean
+  highlightedMessageId?: string | null
+  onHighlightEnd?: () => void
+  /** Fork positions of the messages that have alternatives */
+  branches?: Map<string, BranchPosition>
+  onSwitchBranch?: (messageId: string, offset: -1 | 1) => void
+  onEditMessage?: (messageId: string, content: string) => void
+  onRegenerate?: (overrides?: GenerationSettings) => void
+  onDeleteMessage?: (messageId: string) => void
+  /** Earlier messages are not loaded yet */
+  hasOlder?: boolean
+  onLoadOlder?: () => Promise<void>
 }
 
-export function MessageList({ messages, streamingContent, isLoading }: MessageListProps) {
-  const bottomRef = useRef<HTMLDivElement>(null)
+export function MessageList({
+  messages,
+  streamingContent,
+  isLoading,
+  highlightedMessageId,
+  onHighlightEnd,
+  branches,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerate,
+  onDeleteMessage,
+  hasOlder,
+  onLoadOlder,
+}: MessageListProps) {
+  const listRef = useRef<HTMLDivElement | null>(null)
+  const regionRef = useRef<HTMLDivElement>(null)
+  const anchorRef = useRef<ScrollAnchor | null>(null)
+  const lastScrollTopRef = useRef(0)
+  const observerRef = useRef<ResizeObserver | null>(null)
+  // Bumped when a row's measured height changes, to lay out again
+  const [, setMeasured] = useState(0)
+  const [atBottom, setAtBottom] = useState(true)
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight })
+  const [scrollRequest, setScrollRequest] = useState<{ top: number } | null>(null)
+  const [shownConversationId, setShownConversationId] = useState<string>()
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+  const conversationId = messages[0]?.conversationId
+
+  // Row heights and scroll position are remembered per conversation
+  const layout = useMemo<ListLayout>(
+    () => (conversationId ? rememberedLayout(conversationId) : { rowHeights: new Map() }),
+    [conversationId],
+  )
+  const layoutRef = useRef(layout)
+  useLayoutEffect(() => {
+    layoutRef.current = layout
+  }, [layout])
 
-  // Auto-scroll to bottom when new messages arrive or content streams
+  // One row per message; tool results render inside the step of the
+  // call they answer
+  const rows = useMemo(() => messages.filter((m) => m.role !== 'tool'), [messages])
+  const toolResults = useMemo(
+    () =>
+      new Map(
+        messages.flatMap((m) => (m.role === 'tool' && m.toolCallId ? [[m.toolCallId, m] as const] : [])),
+      ),
+    [messages],
+  )
+
+  // The reply to the last prompt, which can be regenerated
+  const lastRow = rows[rows.length - 1]
+  const latestReplyId = lastRow?.role === 'assistant' ? lastRow.id : undefined
+
+  const heights = rows.map((m) => layout.rowHeights.get(m.id) ?? ESTIMATED_ROW_HEIGHT_PX)
+  const offsets = rowOffsets(heights)
+  const total = rows.length ? offsets[rows.length - 1] + heights[rows.length - 1] : 0
+
+  const scrollTo = (top: number) => {
+    setAtBottom(false)
+    setViewport((v) => ({ ...v, top }))
+    setScrollRequest({ top })
+  }
+
+  // Opening a conversation goes back to where it was left, or else
+  // to the latest message
+  if (conversationId !== shownConversationId) {
+    setShownConversationId(conversationId)
+    const saved = layout.scroll
+    const anchor = saved && !saved.atBottom ? saved.anchor : null
+    const index = anchor ? rows.findIndex((m) => m.id === anchor.id) : -1
+    if (anchor && index >= 0) {
+      scrollTo(offsets[index] - anchor.offset)
+    } else {
+      setAtBottom(true)
+    }
+  }
+
+  // Centre a message opened from search once it is loaded
+  const highlightIndex = highlightedMessageId
+    ? rows.findIndex((m) => m.id === highlightedMessageId)
+    : -1
+  const highlightShown = highlightIndex >= 0
+  if (highlightedMessageId !== revealedId && (highlightShown || !highlightedMessageId)) {
+    setRevealedId(highlightedMessageId ?? null)
+    if (highlightShown) {
+      scrollTo(Math.max(0, offsets[highlightIndex] - (viewport.height - heights[highlightIndex]) / 2))
+    }
+  }
+
+  const range = visibleRange(
+    heights,
+    atBottom ? Math.max(0, total - viewport.height) : viewport.top,
+    viewport.height,
+    OVERSCAN_PX,
+  )
+
+  // Measure rows once laid out, markdown and all, and again whenever
+  // they resize; the list itself is measured for the viewport height.
+  // Every element is unobserved as it unmounts.
+  const observe = useCallback((element: HTMLElement | null) => {
+    if (!element) return
+    observerRef.current ??= new ResizeObserver((entries) => {
+      let changed = false
+      for (const { target } of entries) {
+        const measured = target as HTMLElement
+        if (measured === listRef.current) {
+          setViewport((v) => ({ ...v, height: measured.clientHeight }))
+          continue
+        }
+        const id = measured.dataset.rowId
+        const { rowHeights } = layoutRef.current
+        if (id && rowHeights.get(id) !== measured.offsetHeight) {
+          rowHeights.set(id, measured.offsetHeight)
+          changed = true
+        }
+      }
+      if (!changed) return
+      if (listRef.current) keepAnchor(listRef.current, anchorRef.current)
+      setMeasured((n) => n + 1)
+    })
+    const observer = observerRef.current
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [])
+
+  const attachList = useCallback(
+    (element: HTMLDivElement | null) => {
+      listRef.current = element
+      return observe(element)
+    },
+    [observe],
+  )
+
+  // Follow new messages and streamed content while at the bottom
+  useLayoutEffect(() => {
+    const list = listRef.current
+    if (atBottom && list) list.scrollTop = list.scrollHeight
+  })
+
+  // Keep what is being read still when older messages are prepended
+  useLayoutEffect(() => {
+    if (!atBottom && listRef.current) keepAnchor(listRef.current, anchorRef.current)
+  }, [messages, atBottom])
+
+  useLayoutEffect(() => {
+    const list = listRef.current
+    const region = regionRef.current
+    if (scrollRequest && list && region) list.scrollTop = region.offsetTop + scrollRequest.top
+  }, [scrollRequest])
+
+  // Let the highlight of a search result fade
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages, streamingContent])
+    if (!highlightShown) return
+    const timer = setTimeout(() => onHighlightEnd?.(), HIGHLIGHT_MS)
+    return () => clearTimeout(timer)
+  }, [highlightShown, onHighlightEnd])
+
+  const loadOlder = () => {
+    if (hasOlder) onLoadOlder?.()
+  }
+
+  const handleScroll = () => {
+    const list = listRef.current
+    const region = regionRef.current
+    if (!list || !region) return
+    const following = list.scrollHeight - list.scrollTop - list.clientHeight < STICK_THRESHOLD_PX
+    setAtBottom(following)
+    setViewport({ top: list.scrollTop - region.offsetTop, height: list.clientHeight })
+    anchorRef.current = findAnchor(list)
+    layoutRef.current.scroll = { atBottom: following, anchor: anchorRef.current }
+
+    // Only scrolling up loads; the scroll to the bottom on opening
+    // starts at the top too
+    const scrolledUp = list.scrollTop < lastScrollTopRef.current
+    lastScrollTopRef.current = list.scrollTop
+    if (scrolledUp && list.scrollTop < LOAD_OLDER_THRESHOLD_PX) loadOlder()
+  }
 
   if (messages.length === 0 && !isLoading) {
     return (
@@ -38,40 +265,95 @@ export function MessageList({ messages, streamingContent, isLoading }: MessageLi
   }
 
   return (
-    <div className="flex-1 overflow-y-auto p-4 space-y-2" data-testid="message-list">
-      {messages.map((msg) => (
-        <MessageBubble key={msg.id} message={msg} />
-      ))}
-
-      {/* Streaming message (not yet finalized) */}
-      {isLoading && streamingContent && (
-        <MessageBubble
-          message={{
-            id: 'streaming',
-            conversationId: '',
-            role: 'assistant',
-            content: streamingContent,
-            createdAt: new Date(),
-          }}
-          isStreaming
-        />
-      )}
+    <div className="relative flex-1 min-h-0 flex flex-col">
+      <div
+        ref={attachList}
+        onScroll={handleScroll}
+        className="relative flex-1 overflow-y-auto p-4 [overflow-anchor:none]"
+        data-testid="message-list"
+      >
+        {hasOlder && (
+          <div className="flex justify-center mb-2">
+            <button
+              onClick={loadOlder}
+              className="px-3 py-1 rounded-full text-xs text-slate-400 hover:text-white hover:bg-slate-700/50 transition-colors"
+              data-testid="load-older-messages"
+            >
+              Load earlier messages
+            </button>
+          </div>
+        )}
 
-      {/* Loading indicator when waiting for first token */}
-      {isLoading && !streamingContent && (
-        <div className="flex justify-start mb-4">
-          <div className="bg-slate-700/60 rounded-2xl rounded-bl-md px-4 py-3">
-            <div className="text-xs font-medium mb-1 text-slate-400">TerziLLM</div>
-            <div className="flex items-center gap-1.5">
-              <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce [animation-delay:0ms]" />
-              <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce [animation-delay:150ms]" />
-              <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce [animation-delay:300ms]" />
+        <div ref={regionRef}>
+          <div style={{ height: range.before }} />
+          {rows.slice(range.start, range.end).map((msg) => (
+            <div
+              key={msg.id}
+              ref={observe}
+              data-row-id={msg.id}
+              className="flow-root pb-2 space-y-2"
+            >
+              {/* A reply that only called tools still needs its version
+                  switcher and regenerate button */}
+              {(msg.content || !msg.toolCalls || branches?.has(msg.id) || msg.id === latestReplyId) && (
+                <MessageBubble
+                  message={msg}
+                  highlighted={msg.id === highlightedMessageId}
+                  branch={branches?.get(msg.id)}
+                  onSwitchBranch={onSwitchBranch && ((offset) => onSwitchBranch(msg.id, offset))}
+                  onEdit={
+                    onEditMessage && !isLoading && msg.role === 'user'
+                      ? (content) => onEditMessage(msg.id, content)
+                      : undefined
+                  }
+                  onRegenerate={msg.id === latestReplyId && !isLoading ? onRegenerate : undefined}
+                  onDelete={onDeleteMessage && !isLoading ? () => onDeleteMessage(msg.id) : undefined}
+                />
+              )}
+              {msg.toolCalls && <ToolCallSteps calls={msg.toolCalls} results={toolResults} />}
             </div>
-          </div>
+          ))}
+          <div style={{ height: range.after }} />
         </div>
-      )}
 
-      <div ref={bottomRef} />
+        {/* Streaming message (not yet finalized) */}
+        {isLoading && streamingContent && (
+          <MessageBubble
+            message={{
+              id: 'streaming',
+              conversationId: '',
+              role: 'assistant',
+              content: streamingContent,
+              createdAt: new Date(),
+            }}
+            isStreaming
+          />
+        )}
+
+        {/* Loading indicator when waiting for first token */}
+        {isLoading && !streamingContent && (
+          <div className="flex justify-start mb-4">
+            <div className="bg-slate-700/60 rounded-2xl rounded-bl-md px-4 py-3">
+              <div className="text-xs font-medium mb-1 text-slate-400">TerziLLM</div>
+              <div className="flex items-center gap-1.5">
+                <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce [animation-delay:0ms]" />
+                <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce [animation-delay:150ms]" />
+                <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce [animation-delay:300ms]" />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!atBottom && (
+        <button
+          onClick={() => setAtBottom(true)}
+          className="absolute bottom-4 right-6 flex items-center gap-1 px-3 py-1.5 rounded-full bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 shadow-lg transition-colors"
+          data-testid="jump-to-latest"
+        >
+          ↓ Jump to latest
+        </button>
+      )}
     </div>
   )
 }
@@ -0,0 +1,108 @@
+// ============================================================
+// PromptQueue — follow-up prompts waiting to be sent, shown
+// above the chat input
+// ============================================================
+
+import type { QueuedPrompt } from '../../lib/prompt-queue'
+
+interface PromptQueueProps {
+  prompts: QueuedPrompt[]
+  isLoading: boolean
+  onMove: (id: string, offset: -1 | 1) => void
+  onRemove: (id: string) => void
+  onClear: () => void
+  onResume: () => void
+  canResume: boolean
+}
+
+export function PromptQueue({
+  prompts,
+  isLoading,
+  onMove,
+  onRemove,
+  onClear,
+  onResume,
+  canResume,
+}: PromptQueueProps) {
+  if (prompts.length === 0) return null
+
+  // Prompts left over while idle were paused by a stop or an error
+  const paused = !isLoading
+
+  return (
+    <div className="border-t border-slate-700/50 bg-slate-800/30 px-4 py-2" data-testid="prompt-queue">
+      <div className="max-w-4xl mx-auto space-y-1.5">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="flex-1">
+            {paused ? 'Queue paused' : 'Queued'} · {prompts.length}{' '}
+            {prompts.length === 1 ? 'prompt' : 'prompts'}
+          </span>
+          {paused && (
+            <button
+              onClick={onResume}
+              disabled={!canResume}
+              className="px-2 py-0.5 rounded-md text-blue-300 hover:bg-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              data-testid="prompt-queue-resume"
+            >
+              Resume
+            </button>
+          )}
+          <button
+            onClick={onClear}
+            className="px-2 py-0.5 rounded-md hover:bg-slate-700 hover:text-white transition-colors"
+            data-testid="prompt-queue-clear"
+          >
+            Clear
+          </button>
+        </div>
+
+        <ol className="space-y-1">
+          {prompts.map((prompt, index) => (
+            <li
+              key={prompt.id}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-700/40 border border-slate-600/40 text-sm text-slate-200"
+              data-testid="queued-prompt"
+            >
+              <span className="text-xs text-slate-500">{index + 1}.</span>
+              <span className="flex-1 truncate" title={prompt.content}>
+                {prompt.content}
+              </span>
+              <button
+                onClick={() => onMove(prompt.id, -1)}
+                disabled={index === 0}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-600 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                title="Move up"
+                data-testid="queued-prompt-up"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                </svg>
+              </button>
+              <button
+                onClick={() => onMove(prompt.id, 1)}
+                disabled={index === prompts.length - 1}
+                className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-600 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                title="Move down"
+                data-testid="queued-prompt-down"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              <button
+                onClick={() => onRemove(prompt.id)}
+                className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-600 transition-colors"
+                title="Cancel"
+                data-testid="queued-prompt-remove"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+// ============================================================
+// RegenerateMenu — answer the last prompt again, optionally
+// sampling with a preset's settings instead
+// ============================================================
+
+import { useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import type { GenerationSettings } from '../../types'
+
+interface RegenerateMenuProps {
+  onRegenerate: (overrides?: GenerationSettings) => void
+}
+
+export function RegenerateMenu({ onRegenerate }: RegenerateMenuProps) {
+  const presets = useAppStore((s) => s.presets)
+  const [showMenu, setShowMenu] = useState(false)
+
+  return (
+    <span className="relative flex items-center gap-0.5">
+      <button
+        onClick={() => onRegenerate()}
+        className="hover:text-white transition-colors"
+        title="Generate another version"
+        data-testid="regenerate-button"
+      >
+        ↻ Regenerate
+      </button>
+      {presets.length > 0 && (
+        <button
+          onClick={() => setShowMenu(!showMenu)}
+          className="px-1 hover:text-white transition-colors"
+          title="Regenerate with a preset's settings"
+          data-testid="regenerate-options"
+        >
+          ▾
+        </button>
+      )}
+
+      {/* Opens upwards: the last reply sits at the bottom of the list */}
+      {showMenu && (
+        <div
+          className="absolute left-0 bottom-5 w-48 bg-slate-700 rounded-lg shadow-xl border border-slate-600 py-1 z-50"
+          data-testid="regenerate-menu"
+        >
+          <div className="px-3 py-1 text-[11px] text-slate-400">Regenerate with</div>
+          {presets.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => {
+                setShowMenu(false)
+                onRegenerate(preset.config)
+              }}
+              className="w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600 transition-colors"
+              data-testid="regenerate-preset"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,126 @@
+// ============================================================
+// ResponseFormatPanel — attach a JSON schema or EBNF grammar
+// to the current conversation
+// ============================================================
+
+import { useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { parseSchema } from '../../lib/structured-output'
+import type { Conversation, ResponseFormat } from '../../types'
+
+type FormatType = ResponseFormat['type']
+
+const formatOptions: { type: FormatType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'json_object', label: 'JSON' },
+  { type: 'grammar', label: 'Grammar' },
+]
+
+const textareaClass =
+  'w-full h-32 px-3 py-2 rounded-lg bg-slate-700/50 border border-slate-600/50 text-xs font-mono text-white placeholder-slate-500 focus:outline-none focus:border-blue-500/50'
+
+interface ResponseFormatPanelProps {
+  conversation: Conversation
+  onClose: () => void
+}
+
+export function ResponseFormatPanel({ conversation, onClose }: ResponseFormatPanelProps) {
+  const current = conversation.responseFormat
+  const [type, setType] = useState<FormatType>(current?.type ?? 'text')
+  const [schema, setSchema] = useState(current?.type === 'json_object' ? current.schema ?? '' : '')
+  const [grammar, setGrammar] = useState(current?.type === 'grammar' ? current.grammar : '')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    let format: ResponseFormat | null = null
+
+    if (type === 'json_object') {
+      if (schema.trim()) {
+        try {
+          parseSchema(schema)
+        } catch (err) {
+          setError(err instanceof Error ? err.message : String(err))
+          return
+        }
+      }
+      format = { type: 'json_object', schema: schema.trim() || undefined }
+    } else if (type === 'grammar') {
+      if (!grammar.trim()) {
+        setError('Enter an EBNF grammar with a `root` rule')
+        return
+      }
+      format = { type: 'grammar', grammar }
+    }
+
+    await useAppStore.getState().setConversationResponseFormat(conversation.id, format)
+    onClose()
+  }
+
+  return (
+    <div
+      className="px-4 py-3 border-b border-slate-700/50 bg-slate-800/30 space-y-3"
+      data-testid="response-format-panel"
+    >
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-400">Reply format</span>
+        {formatOptions.map((option) => (
+          <button
+            key={option.type}
+            onClick={() => {
+              setType(option.type)
+              setError(null)
+            }}
+            className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+              type === option.type
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-700/50 hover:bg-slate-700 text-slate-300'
+            }`}
+            data-testid={`response-format-${option.type}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {type === 'json_object' && (
+        <textarea
+          value={schema}
+          onChange={(e) => setSchema(e.target.value)}
+          placeholder='Optional JSON Schema, e.g. {"type": "object", "properties": {"answer": {"type": "string"}}}'
+          className={textareaClass}
+          spellCheck={false}
+          data-testid="response-format-schema"
+        />
+      )}
+
+      {type === 'grammar' && (
+        <textarea
+          value={grammar}
+          onChange={(e) => setGrammar(e.target.value)}
+          placeholder={'root ::= "yes" | "no"'}
+          className={textareaClass}
+          spellCheck={false}
+          data-testid="response-format-grammar"
+        />
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 rounded-lg text-xs text-slate-300 hover:bg-slate-700 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+          data-testid="response-format-save"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  )
+}
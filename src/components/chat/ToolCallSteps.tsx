@@ -0,0 +1,79 @@
+// ============================================================
+// ToolCallSteps — expandable tool calls made during a reply
+// ============================================================
+
+import { useState } from 'react'
+import type { Message, ToolCall } from '../../types'
+
+interface ToolCallStepsProps {
+  calls: ToolCall[]
+  /** Tool result messages, keyed by the call they answer */
+  results: Map<string, Message>
+}
+
+export function ToolCallSteps({ calls, results }: ToolCallStepsProps) {
+  return (
+    <div className="flex justify-start mb-4">
+      <div className="max-w-[85%] md:max-w-[75%] w-full space-y-1.5" data-testid="tool-steps">
+        {calls.map((call) => (
+          <ToolCallStep key={call.id} call={call} result={results.get(call.id)} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/** Pretty-print JSON arguments, falling back to the raw text */
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2)
+  } catch {
+    return args
+  }
+}
+
+function ToolCallStep({ call, result }: { call: ToolCall; result?: Message }) {
+  const [expanded, setExpanded] = useState(false)
+  const failed = result?.metadata?.toolError
+
+  const status = !result ? 'Running...' : failed ? 'Failed' : 'Done'
+  const statusColor = !result ? 'text-yellow-400' : failed ? 'text-red-400' : 'text-emerald-400'
+
+  return (
+    <div
+      className="rounded-xl border border-slate-600/50 bg-slate-800/60 text-xs"
+      data-testid="tool-step"
+    >
+      <button
+        onClick={() => setExpanded((e) => !e)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-slate-300 hover:text-white"
+        aria-expanded={expanded}
+      >
+        <span className="w-3 text-slate-500">{expanded ? '▾' : '▸'}</span>
+        <span className="font-mono">{call.function.name}</span>
+        <span className={`ml-auto ${statusColor}`}>{status}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2" data-testid="tool-step-details">
+          <div>
+            <div className="text-slate-500 mb-1">Arguments</div>
+            <pre className="whitespace-pre-wrap break-words font-mono text-slate-300">
+              {formatArguments(call.function.arguments)}
+            </pre>
+          </div>
+          {result && (
+            <div>
+              <div className="text-slate-500 mb-1">Result</div>
+              <pre
+                className={`whitespace-pre-wrap break-words font-mono ${failed ? 'text-red-300' : 'text-slate-300'}`}
+              >
+                {result.content}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,25 +3,33 @@
 // ============================================================
 
 import { useAppStore } from '../../store/app-store'
-import { useWorkerBridge } from '../../hooks/useWorkerBridge'
+import { useInferenceBackend } from '../../hooks/useInferenceBackend'
 import { clearAllCachedModels } from '../../lib/model-cache'
 import { AVAILABLE_MODELS } from '../../types'
 
-export function ErrorDisplay() {
+interface ErrorDisplayProps {
+  /** Resend the last user message after the engine recovers */
+  onResend?: () => void
+  /** Resend the last user message with a trimmed history */
+  onTrimAndRetry?: () => void
+}
+
+export function ErrorDisplay({ onResend, onTrimAndRetry }: ErrorDisplayProps) {
   const errorMessage = useAppStore((s) => s.errorMessage)
   const errorCode = useAppStore((s) => s.errorCode)
   const modelId = useAppStore((s) => s.modelId)
+  const modelStatus = useAppStore((s) => s.modelStatus)
   const clearError = useAppStore((s) => s.clearError)
   const setModelId = useAppStore((s) => s.setModelId)
   const setSettingsOpen = useAppStore((s) => s.setSettingsOpen)
-  const bridge = useWorkerBridge()
+  const backend = useInferenceBackend()
 
   if (!errorMessage) return null
 
   const handleRetry = async () => {
     clearError()
     if (modelId) {
-      await bridge.init(modelId)
+      await backend.init(modelId)
     }
   }
 
@@ -31,14 +39,14 @@ export function ErrorDisplay() {
     const currentIndex = AVAILABLE_MODELS.findIndex((m) => m.id === modelId)
     const smallerModel = currentIndex > 0 ? AVAILABLE_MODELS[currentIndex - 1] : AVAILABLE_MODELS[0]
     setModelId(smallerModel.id)
-    await bridge.init(smallerModel.id)
+    await backend.init(smallerModel.id)
   }
 
   const handleClearCacheAndRetry = async () => {
     clearError()
     await clearAllCachedModels()
     if (modelId) {
-      await bridge.init(modelId)
+      await backend.init(modelId)
     }
   }
 
@@ -51,7 +59,7 @@ export function ErrorDisplay() {
     icon: string
     title: string
     suggestion: string
-    actions: { label: string; onClick: () => void; primary?: boolean }[]
+    actions: { label: string; onClick: () => void; primary?: boolean; disabled?: boolean }[]
   }> = {
     WEBGPU_NOT_SUPPORTED: {
       icon: '🖥️',
@@ -99,6 +107,34 @@ export function ErrorDisplay() {
         { label: 'Dismiss', onClick: handleDismiss },
       ],
     },
+    WORKER_CRASHED: {
+      icon: '🔄',
+      title: 'Inference Engine Crashed',
+      suggestion:
+        modelStatus === 'loading'
+          ? 'The engine stopped unexpectedly and the model is reloading...'
+          : 'The engine stopped unexpectedly. Resend your last message once the model is ready.',
+      actions: [
+        ...(onResend
+          ? [{ label: 'Resend Message', onClick: onResend, primary: true, disabled: modelStatus !== 'ready' }]
+          : []),
+        { label: 'Reload Model', onClick: handleRetry, primary: !onResend, disabled: modelStatus === 'loading' },
+        { label: 'Dismiss', onClick: handleDismiss },
+      ],
+    },
+    CONTEXT_OVERFLOW: {
+      icon: '📏',
+      title: 'Conversation Too Long',
+      suggestion:
+        'The conversation no longer fits the model\'s context window. Trim older messages and retry, or start a new chat.',
+      actions: [
+        ...(onTrimAndRetry
+          ? [{ label: 'Trim and Retry', onClick: () => { clearError(); onTrimAndRetry() }, primary: true }]
+          : []),
+        { label: 'Context Settings', onClick: () => { clearError(); setSettingsOpen(true) } },
+        { label: 'Dismiss', onClick: handleDismiss },
+      ],
+    },
     UNKNOWN: {
       icon: '❓',
       title: 'Unknown Error',
@@ -129,7 +165,8 @@ export function ErrorDisplay() {
               <button
                 key={action.label}
                 onClick={action.onClick}
-                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                disabled={action.disabled}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                   action.primary
                     ? 'bg-red-500/20 hover:bg-red-500/30 text-red-300'
                     : 'bg-slate-700/50 hover:bg-slate-700 text-slate-300'
@@ -63,6 +63,16 @@ describe('Error handling state', () => {
     expect(state.errorCode).toBe('NETWORK_ERROR')
   })
 
+  it('sets error with WORKER_CRASHED code', () => {
+    const store = useAppStore.getState()
+    store.setModelStatus('ready')
+    store.setError('The inference worker crashed', 'WORKER_CRASHED')
+
+    const state = useAppStore.getState()
+    expect(state.errorCode).toBe('WORKER_CRASHED')
+    expect(state.modelStatus).toBe('error')
+  })
+
   it('clears error state', () => {
     const store = useAppStore.getState()
     store.setError('Something broke', 'UNKNOWN')
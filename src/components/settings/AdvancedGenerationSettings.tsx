@@ -0,0 +1,85 @@
+// ============================================================
+// AdvancedGenerationSettings — sampling parameters (seed, stop
+// sequences, penalties, logit bias) sent with every request
+// ============================================================
+
+import { useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import {
+  parseGenerationSettings,
+  toGenerationSettingsForm,
+  type GenerationSettingsErrors,
+  type GenerationSettingsForm,
+} from '../../lib/generation-settings'
+import { GenerationFields } from './GenerationFields'
+
+export function AdvancedGenerationSettings() {
+  const generationSettings = useAppStore((s) => s.generationSettings)
+  const setGenerationSettings = useAppStore((s) => s.setGenerationSettings)
+  const [expanded, setExpanded] = useState(false)
+  const [form, setForm] = useState(() => toGenerationSettingsForm(generationSettings))
+  const [errors, setErrors] = useState<GenerationSettingsErrors>({})
+  const [saved, setSaved] = useState(false)
+
+  const update = (field: keyof GenerationSettingsForm, value: string) => {
+    setForm((f) => ({ ...f, [field]: value }))
+    setSaved(false)
+  }
+
+  const handleSave = () => {
+    const parsed = parseGenerationSettings(form)
+    setErrors(parsed.errors)
+    if (Object.keys(parsed.errors).length > 0) return
+    setGenerationSettings(parsed.settings)
+    setSaved(true)
+  }
+
+  const handleReset = () => {
+    setForm(toGenerationSettingsForm({}))
+    setErrors({})
+    setGenerationSettings({})
+    setSaved(true)
+  }
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={() => setExpanded((e) => !e)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-slate-300 uppercase tracking-wider"
+        aria-expanded={expanded}
+        data-testid="advanced-generation-toggle"
+      >
+        Advanced generation
+        <span className="text-slate-500">{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <div className="space-y-3" data-testid="advanced-generation">
+          <p className="text-xs text-slate-400">
+            Leave a field empty to use the model's default. Set a seed to reproduce replies.
+          </p>
+
+          <GenerationFields form={form} errors={errors} onChange={update} testIdPrefix="generation" />
+
+          <div className="flex items-center justify-end gap-2">
+            {saved && <span className="text-xs text-emerald-400 mr-auto">Saved</span>}
+            <button
+              onClick={handleReset}
+              className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm transition-colors"
+              data-testid="generation-reset"
+            >
+              Reset
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors"
+              data-testid="generation-save"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
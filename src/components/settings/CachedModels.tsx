@@ -4,6 +4,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { getCachedModels, removeCachedModel, clearAllCachedModels } from '../../lib/model-cache'
+import { useAppStore } from '../../store/app-store'
 import type { CachedModelInfo } from '../../types'
 
 export function CachedModels() {
@@ -25,6 +26,7 @@ export function CachedModels() {
   const handleRemove = async (modelId: string) => {
     setRemoving(modelId)
     await removeCachedModel(modelId)
+    await useAppStore.getState().setPartialDownload(modelId, null)
     await loadCachedModels()
     setRemoving(null)
   }
@@ -32,6 +34,10 @@ export function CachedModels() {
   const handleClearAll = async () => {
     setRemoving('all')
     await clearAllCachedModels()
+    const { partialDownloads, setPartialDownload } = useAppStore.getState()
+    for (const modelId of Object.keys(partialDownloads)) {
+      await setPartialDownload(modelId, null)
+    }
     await loadCachedModels()
     setRemoving(null)
   }
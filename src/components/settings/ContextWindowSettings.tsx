@@ -0,0 +1,73 @@
+// ============================================================
+// ContextWindowSettings — how long conversations are trimmed to
+// fit the model's context window
+// ============================================================
+
+import { useAppStore } from '../../store/app-store'
+import type { ContextStrategy } from '../../types'
+
+const strategies: { id: ContextStrategy; label: string; description: string }[] = [
+  {
+    id: 'sliding-window',
+    label: 'Sliding window',
+    description: 'Drop the oldest turns until the conversation fits',
+  },
+  {
+    id: 'keep-last-n',
+    label: 'System + last N',
+    description: 'Send only the system prompt and the most recent messages',
+  },
+  {
+    id: 'summarize',
+    label: 'Summarize',
+    description: 'Replace the oldest turns with a summary written by the model',
+  },
+]
+
+export function ContextWindowSettings() {
+  const contextSettings = useAppStore((s) => s.contextSettings)
+  const setContextSettings = useAppStore((s) => s.setContextSettings)
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+        Long conversations
+      </h3>
+
+      <div className="space-y-2">
+        {strategies.map((strategy) => (
+          <label
+            key={strategy.id}
+            className="flex items-start gap-3 p-3 rounded-xl bg-slate-700/30 border border-slate-600/50 cursor-pointer"
+          >
+            <input
+              type="radio"
+              name="context-strategy"
+              checked={contextSettings.strategy === strategy.id}
+              onChange={() => setContextSettings({ strategy: strategy.id })}
+              className="mt-0.5 accent-blue-500"
+              data-testid={`context-strategy-${strategy.id}`}
+            />
+            <div className="flex-1">
+              <div className="text-sm text-white font-medium">{strategy.label}</div>
+              <p className="text-xs text-slate-400">{strategy.description}</p>
+              {strategy.id === 'keep-last-n' && contextSettings.strategy === 'keep-last-n' && (
+                <input
+                  type="number"
+                  min={1}
+                  value={contextSettings.keepLastN}
+                  onChange={(e) => {
+                    const keepLastN = Math.floor(Number(e.target.value))
+                    if (keepLastN >= 1) setContextSettings({ keepLastN })
+                  }}
+                  className="mt-2 w-20 px-2 py-1 rounded-lg bg-slate-700/50 border border-slate-600/50 text-sm text-white focus:outline-none focus:border-blue-500/50"
+                  data-testid="context-keep-last-n"
+                />
+              )}
+            </div>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+// ============================================================
+// GenerationFields — inputs for every sampling parameter, shared
+// by the global settings and the per-conversation panel
+// ============================================================
+
+import type {
+  GenerationSettingsErrors,
+  GenerationSettingsForm,
+} from '../../lib/generation-settings'
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-slate-700/50 border text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500/50'
+
+const numberFields: { field: keyof GenerationSettingsForm; label: string; placeholder: string }[] = [
+  { field: 'temperature', label: 'Temperature', placeholder: '0 – 2' },
+  { field: 'top_p', label: 'Top P', placeholder: '0 – 1' },
+  { field: 'max_tokens', label: 'Max tokens', placeholder: 'e.g. 1024' },
+  { field: 'seed', label: 'Seed', placeholder: 'random' },
+  { field: 'frequency_penalty', label: 'Frequency penalty', placeholder: '-2 – 2' },
+  { field: 'presence_penalty', label: 'Presence penalty', placeholder: '-2 – 2' },
+  { field: 'repetition_penalty', label: 'Repetition penalty', placeholder: '> 0, e.g. 1.1' },
+  { field: 'n', label: 'Choices (n)', placeholder: '1' },
+]
+
+interface GenerationFieldsProps {
+  form: GenerationSettingsForm
+  errors: GenerationSettingsErrors
+  onChange: (field: keyof GenerationSettingsForm, value: string) => void
+  /** Prefix for each input's data-testid, e.g. "generation" → "generation-seed" */
+  testIdPrefix: string
+}
+
+export function GenerationFields({ form, errors, onChange, testIdPrefix }: GenerationFieldsProps) {
+  const fieldClass = (field: keyof GenerationSettingsForm) =>
+    `${inputClass} ${errors[field] ? 'border-red-500/60' : 'border-slate-600/50'}`
+
+  const fieldError = (field: keyof GenerationSettingsForm) =>
+    errors[field] && (
+      <span className="text-xs text-red-400" data-testid={`${testIdPrefix}-error-${field}`}>
+        {errors[field]}
+      </span>
+    )
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        {numberFields.map(({ field, label, placeholder }) => (
+          <label key={field} className="block space-y-1">
+            <span className="text-xs text-slate-400">{label}</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={form[field]}
+              onChange={(e) => onChange(field, e.target.value)}
+              placeholder={placeholder}
+              className={fieldClass(field)}
+              data-testid={`${testIdPrefix}-${field}`}
+            />
+            {fieldError(field)}
+          </label>
+        ))}
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">
+          Stop sequences (one per line, {'\\n'} for a newline)
+        </span>
+        <textarea
+          value={form.stop}
+          onChange={(e) => onChange('stop', e.target.value)}
+          rows={2}
+          className={`${fieldClass('stop')} font-mono resize-y`}
+          data-testid={`${testIdPrefix}-stop`}
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Logit bias (tokenId: bias, -100 to 100)</span>
+        <textarea
+          value={form.logit_bias}
+          onChange={(e) => onChange('logit_bias', e.target.value)}
+          rows={2}
+          placeholder="50256: -100"
+          className={`${fieldClass('logit_bias')} font-mono resize-y`}
+          data-testid={`${testIdPrefix}-logit_bias`}
+        />
+        {fieldError('logit_bias')}
+      </label>
+    </>
+  )
+}
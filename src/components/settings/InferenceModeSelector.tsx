@@ -0,0 +1,55 @@
+// ============================================================
+// InferenceModeSelector — choose which inference backend to use
+// ============================================================
+
+import { useAppStore } from '../../store/app-store'
+import { getInferenceBackend } from '../../hooks/useInferenceBackend'
+import type { InferenceMode } from '../../types'
+
+const modeOptions: { mode: InferenceMode; label: string; description: string }[] = [
+  { mode: 'local', label: 'Local', description: 'WebGPU in your browser' },
+  { mode: 'remote', label: 'Remote', description: 'OpenAI-compatible server' },
+  { mode: 'scripted', label: 'Offline Demo', description: 'Scripted replies, no GPU' },
+]
+
+export function InferenceModeSelector() {
+  const inferenceMode = useAppStore((s) => s.inferenceMode)
+  const modelStatus = useAppStore((s) => s.modelStatus)
+
+  const handleSelect = (mode: InferenceMode) => {
+    if (mode === inferenceMode || modelStatus === 'loading') return
+
+    const store = useAppStore.getState()
+    getInferenceBackend(inferenceMode).abort()
+    store.setInferenceMode(mode)
+    store.clearError()
+    store.setModelStatus(getInferenceBackend(mode).status)
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+        Inference
+      </h3>
+
+      <div className="grid grid-cols-3 gap-2">
+        {modeOptions.map((option) => (
+          <button
+            key={option.mode}
+            onClick={() => handleSelect(option.mode)}
+            disabled={modelStatus === 'loading'}
+            className={`text-left p-3 rounded-xl border transition-all ${
+              inferenceMode === option.mode
+                ? 'border-blue-500/50 bg-blue-500/10'
+                : 'border-slate-600/50 bg-slate-700/30 hover:border-slate-500/50 hover:bg-slate-700/50'
+            } disabled:opacity-50 disabled:cursor-not-allowed`}
+            data-testid={`inference-mode-${option.mode}`}
+          >
+            <div className="font-medium text-white text-sm">{option.label}</div>
+            <p className="text-xs text-slate-400">{option.description}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
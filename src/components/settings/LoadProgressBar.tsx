@@ -3,28 +3,87 @@
 // ============================================================
 
 import { useAppStore } from '../../store/app-store'
+import { useInferenceBackend } from '../../hooks/useInferenceBackend'
+import { formatBytes, formatRemaining } from '../../lib/utils'
+import type { LoadPhase, LoadProgress } from '../../types'
+
+const phaseLabels: Record<LoadPhase, string> = {
+  preparing: 'Preparing...',
+  'fetching-params': 'Fetching model parameters...',
+  downloading: 'Downloading weights',
+  'loading-from-cache': 'Loading from cache',
+  'compiling-shaders': 'Compiling GPU shaders',
+  finished: 'Finishing up...',
+}
+
+/** Shard, size, speed and ETA line for the current phase */
+function progressDetails(report: LoadProgress): string[] {
+  const details: string[] = []
+
+  if (report.shardsDone != null && report.shardsTotal != null) {
+    const unit = report.phase === 'compiling-shaders' ? 'Module' : 'Shard'
+    details.push(`${unit} ${report.shardsDone} of ${report.shardsTotal}`)
+  }
+  if (report.loadedBytes != null && report.totalBytes != null) {
+    details.push(`${formatBytes(report.loadedBytes)} of ${formatBytes(report.totalBytes)}`)
+  }
+  if (report.bytesPerSec) {
+    details.push(`${formatBytes(report.bytesPerSec)}/s`)
+  }
+  if (report.etaMs != null) {
+    details.push(`~${formatRemaining(report.etaMs)} left`)
+  }
+
+  return details
+}
 
 export function LoadProgressBar() {
   const modelStatus = useAppStore((s) => s.modelStatus)
   const loadProgress = useAppStore((s) => s.loadProgress)
   const loadProgressText = useAppStore((s) => s.loadProgressText)
+  const loadReport = useAppStore((s) => s.loadReport)
+  const resumed = useAppStore((s) => (s.modelId ? s.partialDownloads[s.modelId] : undefined))
+  const backend = useInferenceBackend()
 
   if (modelStatus !== 'loading') return null
 
   const percentage = Math.round(loadProgress * 100)
+  const label = loadReport ? phaseLabels[loadReport.phase] : loadProgressText || 'Loading model...'
+  const details = loadReport ? progressDetails(loadReport) : []
+  const showResumeHint = loadReport?.phase === 'preparing' || loadReport?.phase === 'fetching-params'
 
   return (
     <div className="space-y-2" data-testid="load-progress">
       <div className="flex justify-between text-xs text-slate-400">
-        <span>{loadProgressText || 'Loading model...'}</span>
+        <span data-testid="load-progress-phase">{label}</span>
         <span>{percentage}%</span>
       </div>
-      <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
-        <div
-          className="h-full bg-gradient-to-r from-blue-500 to-emerald-500 rounded-full transition-all duration-300 ease-out"
-          style={{ width: `${percentage}%` }}
-        />
+      <div className="flex items-center gap-3">
+        <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-blue-500 to-emerald-500 rounded-full transition-all duration-300 ease-out"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+        <button
+          onClick={() => backend.cancelLoad()}
+          className="px-2.5 py-1 rounded-lg text-xs font-medium bg-slate-700/50 hover:bg-slate-700 text-slate-300 transition-colors"
+          title="Stop loading — downloaded shards stay cached"
+          data-testid="cancel-load-button"
+        >
+          Cancel
+        </button>
       </div>
+      {details.length > 0 && (
+        <p className="text-xs text-slate-500" data-testid="load-progress-details">
+          {details.join(' · ')}
+        </p>
+      )}
+      {showResumeHint && resumed && (
+        <p className="text-xs text-slate-500">
+          Resuming download — {resumed.shardsDone} of {resumed.shardsTotal} shards already cached
+        </p>
+      )}
     </div>
   )
 }
@@ -0,0 +1,30 @@
+// ============================================================
+// MigrationBackup — download the snapshot taken before the
+// database was upgraded this session
+// ============================================================
+
+import { getMigrationBackup } from '../../lib/database'
+import { downloadFile } from '../../lib/utils'
+
+export function MigrationBackup() {
+  const backup = getMigrationBackup()
+  if (!backup) return null
+
+  const download = () => downloadFile(`terzillm-backup-v${backup.fromVersion}.json`, backup.blob)
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl bg-slate-700/30 border border-slate-600/50 text-sm">
+      <p className="flex-1 text-slate-300">
+        Your chat history was upgraded from version {backup.fromVersion} to {backup.toVersion}.
+        A copy of the old data was kept in case anything is missing.
+      </p>
+      <button
+        onClick={download}
+        className="px-3 py-1.5 rounded-lg bg-slate-600 hover:bg-slate-500 text-white text-xs font-medium transition-colors"
+        data-testid="migration-backup-download"
+      >
+        Download backup
+      </button>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@
 
 import { AVAILABLE_MODELS, type ModelInfo, type ModelTier } from '../../types'
 import { useAppStore } from '../../store/app-store'
-import { useWorkerBridge } from '../../hooks/useWorkerBridge'
+import { useInferenceBackend } from '../../hooks/useInferenceBackend'
 
 const tierColors: Record<ModelTier, string> = {
   mobile: 'bg-green-500/20 text-green-400 border-green-500/30',
@@ -23,32 +23,60 @@ const tierLabels: Record<ModelTier, string> = {
 export function ModelSelector() {
   const modelId = useAppStore((s) => s.modelId)
   const modelStatus = useAppStore((s) => s.modelStatus)
-  const bridge = useWorkerBridge()
+  const partialDownloads = useAppStore((s) => s.partialDownloads)
+  const backend = useInferenceBackend()
+
+  const isBusy = modelStatus === 'loading' || modelStatus === 'unloading'
 
   const handleSelect = async (model: ModelInfo) => {
-    if (modelStatus === 'loading') return
+    if (isBusy) return
+    if (model.id === modelId && modelStatus === 'ready') return
 
     useAppStore.getState().setModelId(model.id)
     useAppStore.getState().clearError()
-    await bridge.init(model.id)
+    // Hot-switch when a model is loaded so the old one is released first
+    if (backend.status === 'ready') {
+      await backend.switchModel(model.id)
+    } else {
+      await backend.init(model.id)
+    }
+  }
+
+  const handleUnload = async () => {
+    if (isBusy) return
+    useAppStore.getState().clearError()
+    await backend.unload()
   }
 
   return (
     <div className="space-y-3">
-      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
-        Select Model
-      </h3>
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+          Select Model
+        </h3>
+        {(modelStatus === 'ready' || modelStatus === 'unloading') && (
+          <button
+            onClick={handleUnload}
+            disabled={isBusy}
+            className="px-2.5 py-1 rounded-lg text-xs font-medium bg-slate-700/50 hover:bg-slate-700 text-slate-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="unload-model-button"
+          >
+            {modelStatus === 'unloading' ? 'Unloading...' : 'Unload model'}
+          </button>
+        )}
+      </div>
 
       <div className="space-y-2">
         {AVAILABLE_MODELS.map((model) => {
           const isSelected = modelId === model.id
           const isLoading = isSelected && modelStatus === 'loading'
+          const partial = partialDownloads[model.id]
 
           return (
             <button
               key={model.id}
               onClick={() => handleSelect(model)}
-              disabled={modelStatus === 'loading'}
+              disabled={isBusy}
               className={`w-full text-left p-3 rounded-xl border transition-all ${
                 isSelected
                   ? 'border-blue-500/50 bg-blue-500/10'
@@ -79,6 +107,12 @@ export function ModelSelector() {
                 </div>
               )}
 
+              {partial && !isLoading && (
+                <div className="mt-2 text-xs text-slate-400" data-testid="partial-download">
+                  Partially downloaded ({partial.shardsDone} of {partial.shardsTotal} shards) — select to resume
+                </div>
+              )}
+
               {isSelected && modelStatus === 'ready' && (
                 <div className="mt-2 text-xs text-emerald-400 flex items-center gap-1.5">
                   <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -0,0 +1,85 @@
+// ============================================================
+// RemoteSettings — OpenAI-compatible server configuration
+// ============================================================
+
+import { useAppStore } from '../../store/app-store'
+import { useInferenceBackend } from '../../hooks/useInferenceBackend'
+
+const inputClass =
+  'w-full px-3 py-2 rounded-lg bg-slate-700/50 border border-slate-600/50 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-blue-500/50'
+
+export function RemoteSettings() {
+  const remoteConfig = useAppStore((s) => s.remoteConfig)
+  const setRemoteConfig = useAppStore((s) => s.setRemoteConfig)
+  const connectionStatus = useAppStore((s) => s.connectionStatus)
+  const modelStatus = useAppStore((s) => s.modelStatus)
+  const backend = useInferenceBackend()
+
+  const handleConnect = async () => {
+    if (modelStatus === 'loading') return
+    useAppStore.getState().clearError()
+    await backend.init(remoteConfig.model)
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+        Remote Server
+      </h3>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Base URL</span>
+        <input
+          type="url"
+          value={remoteConfig.baseUrl}
+          onChange={(e) => setRemoteConfig({ baseUrl: e.target.value })}
+          placeholder="http://192.168.1.10:8080/v1"
+          className={inputClass}
+          data-testid="remote-base-url"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">API Key (optional)</span>
+        <input
+          type="password"
+          value={remoteConfig.apiKey}
+          onChange={(e) => setRemoteConfig({ apiKey: e.target.value })}
+          autoComplete="off"
+          className={inputClass}
+          data-testid="remote-api-key"
+        />
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Model</span>
+        <input
+          type="text"
+          value={remoteConfig.model}
+          onChange={(e) => setRemoteConfig({ model: e.target.value })}
+          placeholder="e.g. qwen2.5-7b-instruct"
+          className={inputClass}
+          data-testid="remote-model"
+        />
+      </label>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400" data-testid="remote-connection-status">
+          {connectionStatus === 'connected'
+            ? 'Connected'
+            : connectionStatus === 'connecting'
+              ? 'Connecting...'
+              : 'Not connected'}
+        </span>
+        <button
+          onClick={handleConnect}
+          disabled={modelStatus === 'loading' || !remoteConfig.baseUrl.trim()}
+          className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          data-testid="remote-connect-button"
+        >
+          {connectionStatus === 'connected' ? 'Reconnect' : 'Connect'}
+        </button>
+      </div>
+    </div>
+  )
+}
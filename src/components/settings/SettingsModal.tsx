@@ -5,13 +5,21 @@
 
 import { useEffect } from 'react'
 import { useAppStore } from '../../store/app-store'
+import { InferenceModeSelector } from './InferenceModeSelector'
 import { ModelSelector } from './ModelSelector'
+import { RemoteSettings } from './RemoteSettings'
 import { LoadProgressBar } from './LoadProgressBar'
 import { CachedModels } from './CachedModels'
+import { ToolSettings } from './ToolSettings'
+import { AdvancedGenerationSettings } from './AdvancedGenerationSettings'
+import { ContextWindowSettings } from './ContextWindowSettings'
+import { TrashSettings } from './TrashSettings'
+import { MigrationBackup } from './MigrationBackup'
 
 export function SettingsModal() {
   const settingsOpen = useAppStore((s) => s.settingsOpen)
   const setSettingsOpen = useAppStore((s) => s.setSettingsOpen)
+  const inferenceMode = useAppStore((s) => s.inferenceMode)
 
   // Close on Escape key
   useEffect(() => {
@@ -70,17 +78,35 @@ export function SettingsModal() {
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {/* Inference Backend */}
+          <InferenceModeSelector />
+
           {/* Model Loading Progress */}
           <LoadProgressBar />
 
           {/* Model Selection */}
-          <ModelSelector />
+          {inferenceMode === 'remote' ? <RemoteSettings /> : <ModelSelector />}
+
+          {/* Tool calling */}
+          <ToolSettings />
+
+          {/* History trimming */}
+          <ContextWindowSettings />
+
+          {/* Sampling parameters */}
+          <AdvancedGenerationSettings />
+
+          {/* Retention of deleted items */}
+          <TrashSettings />
 
           {/* Divider */}
           <div className="border-t border-slate-700/50" />
 
           {/* Cached Models Management */}
           <CachedModels />
+
+          {/* Pre-upgrade copy of the chat history */}
+          <MigrationBackup />
         </div>
       </div>
     </div>
@@ -0,0 +1,55 @@
+// ============================================================
+// ToolSettings — choose which tools the assistant may call
+// ============================================================
+
+import { useAppStore } from '../../store/app-store'
+import { useInferenceBackend } from '../../hooks/useInferenceBackend'
+import { toolRegistry } from '../../lib/builtin-tools'
+
+export function ToolSettings() {
+  const enabledTools = useAppStore((s) => s.enabledTools)
+  const setToolEnabled = useAppStore((s) => s.setToolEnabled)
+  const modelId = useAppStore((s) =>
+    s.inferenceMode === 'remote' ? s.remoteConfig.model : s.modelId,
+  )
+  const backend = useInferenceBackend()
+  const unsupported = backend.toolSupport(modelId) === 'none'
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+        Tools
+      </h3>
+
+      {unsupported && (
+        <p className="text-xs text-yellow-400/80" data-testid="tools-unsupported">
+          The selected model can't call tools. Choose Hermes 3 8B or a remote server.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {toolRegistry.list().map((tool) => {
+          const name = tool.definition.function.name
+          return (
+            <label
+              key={name}
+              className="flex items-start gap-3 p-3 rounded-xl bg-slate-700/30 border border-slate-600/50 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={enabledTools.includes(name)}
+                onChange={(e) => setToolEnabled(name, e.target.checked)}
+                className="mt-0.5 accent-blue-500"
+                data-testid={`tool-toggle-${name}`}
+              />
+              <div>
+                <div className="text-sm text-white font-medium">{tool.label}</div>
+                <p className="text-xs text-slate-400">{tool.definition.function.description}</p>
+              </div>
+            </label>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
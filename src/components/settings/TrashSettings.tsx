@@ -0,0 +1,35 @@
+// ============================================================
+// TrashSettings — how long deleted conversations and messages
+// are kept before they are purged
+// ============================================================
+
+import { useAppStore } from '../../store/app-store'
+
+const retentionOptions = [1, 7, 30, 90, 365]
+
+export function TrashSettings() {
+  const trashRetentionDays = useAppStore((s) => s.trashRetentionDays)
+  const setTrashRetentionDays = useAppStore((s) => s.setTrashRetentionDays)
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Trash</h3>
+
+      <label className="flex items-center gap-3 p-3 rounded-xl bg-slate-700/30 border border-slate-600/50 text-sm">
+        <span className="flex-1 text-slate-300">Delete items in the trash for good after</span>
+        <select
+          value={trashRetentionDays}
+          onChange={(e) => setTrashRetentionDays(Number(e.target.value))}
+          className="px-2 py-1 rounded-lg bg-slate-700/50 border border-slate-600/50 text-white focus:outline-none focus:border-blue-500/50"
+          data-testid="trash-retention"
+        >
+          {retentionOptions.map((days) => (
+            <option key={days} value={days}>
+              {days === 1 ? '1 day' : `${days} days`}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,326 @@
+// ============================================================
+// ConversationFilters — narrow the conversation list to a folder,
+// a tag or the archive; each of them also takes dropped
+// conversations, and folders take dropped folders
+// ============================================================
+
+import { Fragment, useState, type DragEvent } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { flattenFolders } from '../../lib/organization'
+import type { ConversationFilter, TagColor } from '../../types'
+import {
+  TAG_COLORS,
+  TAG_COLOR_CLASSES,
+  draggedKind,
+  droppedItem,
+  startDrag,
+  type DragItem,
+} from './organize'
+
+const rowClass = 'w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors'
+const iconButtonClass = 'px-1 rounded text-xs text-slate-400 hover:text-white hover:bg-slate-600'
+const headingClass =
+  'flex items-center justify-between px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-slate-500'
+
+type FolderDraft = { mode: 'create'; parentId: string | null } | { mode: 'rename'; id: string }
+
+function sameFilter(a: ConversationFilter, b: ConversationFilter): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+export function ConversationFilters() {
+  const conversations = useAppStore((s) => s.conversations)
+  const folders = useAppStore((s) => s.folders)
+  const tags = useAppStore((s) => s.tags)
+  const filter = useAppStore((s) => s.conversationFilter)
+  const setConversationFilter = useAppStore((s) => s.setConversationFilter)
+  const organizeConversation = useAppStore((s) => s.organizeConversation)
+  const createFolder = useAppStore((s) => s.createFolder)
+  const renameFolder = useAppStore((s) => s.renameFolder)
+  const moveFolder = useAppStore((s) => s.moveFolder)
+  const deleteFolder = useAppStore((s) => s.deleteFolder)
+  const createTag = useAppStore((s) => s.createTag)
+  const deleteTag = useAppStore((s) => s.deleteTag)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [folderDraft, setFolderDraft] = useState<FolderDraft | null>(null)
+  const [newTag, setNewTag] = useState<{ name: string; color: TagColor } | null>(null)
+
+  // Handlers that make a row a drop target for the given kinds
+  const dropProps = (
+    key: string,
+    accepts: DragItem['kind'][],
+    onDrop: (item: DragItem) => void,
+  ) => ({
+    onDragOver: (e: DragEvent) => {
+      const kind = draggedKind(e.dataTransfer)
+      if (!kind || !accepts.includes(kind)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault()
+      setDropTarget(null)
+      const item = droppedItem(e.dataTransfer)
+      if (item && accepts.includes(item.kind)) onDrop(item)
+    },
+  })
+
+  const rowState = (key: string, target: ConversationFilter) =>
+    dropTarget === key
+      ? 'bg-blue-500/20 text-white'
+      : sameFilter(filter, target)
+        ? 'bg-slate-700/70 text-white'
+        : 'text-slate-300 hover:bg-slate-700/40 hover:text-white'
+
+  const fileInto = (folderId: string | null) => (item: DragItem) =>
+    item.kind === 'conversation'
+      ? organizeConversation(item.id, { folderId: folderId ?? undefined })
+      : moveFolder(item.id, folderId)
+
+  const submitFolder = (name: string) => {
+    if (folderDraft?.mode === 'create') createFolder(name, folderDraft.parentId)
+    if (folderDraft?.mode === 'rename') renameFolder(folderDraft.id, name)
+    setFolderDraft(null)
+  }
+
+  const folderInput = (depth: number, initial = '') => (
+    <NameInput
+      initial={initial}
+      placeholder="Folder name"
+      depth={depth}
+      onSubmit={submitFolder}
+      onCancel={() => setFolderDraft(null)}
+    />
+  )
+
+  return (
+    <nav className="space-y-3 pb-3 mb-2 border-b border-slate-700/50" data-testid="conversation-filters">
+      <div className="space-y-0.5">
+        <button
+          onClick={() => setConversationFilter({ kind: 'all' })}
+          {...dropProps('all', ['conversation', 'folder'], fileInto(null))}
+          className={`${rowClass} ${rowState('all', { kind: 'all' })}`}
+          data-testid="filter-all"
+        >
+          💬 All conversations
+        </button>
+        <button
+          onClick={() => setConversationFilter({ kind: 'archived' })}
+          {...dropProps('archived', ['conversation'], (item) =>
+            organizeConversation(item.id, { archivedAt: new Date() }),
+          )}
+          className={`${rowClass} ${rowState('archived', { kind: 'archived' })}`}
+          data-testid="filter-archived"
+        >
+          🗄️ Archived
+        </button>
+      </div>
+
+      {/* Folders */}
+      <section>
+        <header className={headingClass}>
+          Folders
+          <button
+            onClick={() => setFolderDraft({ mode: 'create', parentId: null })}
+            className={iconButtonClass}
+            title="New folder"
+            data-testid="folder-create"
+          >
+            ＋
+          </button>
+        </header>
+        {flattenFolders(folders).map(({ folder, depth }) => {
+          const target: ConversationFilter = { kind: 'folder', folderId: folder.id }
+          const renaming = folderDraft?.mode === 'rename' && folderDraft.id === folder.id
+          return (
+            <Fragment key={folder.id}>
+              {renaming ? (
+                folderInput(depth, folder.name)
+              ) : (
+                <div
+                  draggable
+                  onDragStart={(e) => startDrag(e.dataTransfer, { kind: 'folder', id: folder.id })}
+                  {...dropProps(`folder-${folder.id}`, ['conversation', 'folder'], fileInto(folder.id))}
+                  className={`group ${rowClass} ${rowState(`folder-${folder.id}`, target)}`}
+                  style={{ paddingLeft: `${0.75 + depth}rem` }}
+                  data-testid="folder-item"
+                >
+                  <button
+                    onClick={() => setConversationFilter(target)}
+                    className="flex-1 text-left truncate"
+                    data-testid="folder-filter"
+                  >
+                    📁 {folder.name}
+                  </button>
+                  <span className="hidden group-hover:flex gap-0.5">
+                    <button
+                      onClick={() => setFolderDraft({ mode: 'create', parentId: folder.id })}
+                      className={iconButtonClass}
+                      title="New subfolder"
+                      data-testid="folder-add-subfolder"
+                    >
+                      ＋
+                    </button>
+                    <button
+                      onClick={() => setFolderDraft({ mode: 'rename', id: folder.id })}
+                      className={iconButtonClass}
+                      title="Rename folder"
+                      data-testid="folder-rename"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() => deleteFolder(folder.id)}
+                      className={iconButtonClass}
+                      title="Delete folder — its conversations move up a level"
+                      data-testid="folder-delete"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                </div>
+              )}
+              {folderDraft?.mode === 'create' &&
+                folderDraft.parentId === folder.id &&
+                folderInput(depth + 1)}
+            </Fragment>
+          )
+        })}
+        {folderDraft?.mode === 'create' && folderDraft.parentId === null && folderInput(0)}
+        {folders.length === 0 && folderDraft === null && (
+          <p className="px-3 text-xs text-slate-500">Drag conversations onto a folder to file them</p>
+        )}
+      </section>
+
+      {/* Tags */}
+      <section>
+        <header className={headingClass}>
+          Tags
+          <button
+            onClick={() => setNewTag({ name: '', color: TAG_COLORS[0] })}
+            className={iconButtonClass}
+            title="New tag"
+            data-testid="tag-create"
+          >
+            ＋
+          </button>
+        </header>
+        <div className="flex flex-wrap gap-1 px-3">
+          {tags.map((tag) => {
+            const key = `tag-${tag.id}`
+            const active = sameFilter(filter, { kind: 'tag', tagId: tag.id })
+            return (
+              <span
+                key={tag.id}
+                {...dropProps(key, ['conversation'], (item) => {
+                  const tagIds = conversations.find((c) => c.id === item.id)?.tagIds ?? []
+                  if (!tagIds.includes(tag.id)) {
+                    organizeConversation(item.id, { tagIds: [...tagIds, tag.id] })
+                  }
+                })}
+                className={`group inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs transition-colors ${
+                  active ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:text-white'
+                } ${dropTarget === key ? 'ring-1 ring-blue-500' : ''}`}
+                data-testid="tag-chip"
+              >
+                <button
+                  onClick={() => setConversationFilter({ kind: 'tag', tagId: tag.id })}
+                  className="inline-flex items-center gap-1"
+                  data-testid="tag-filter"
+                >
+                  <span className={`w-2 h-2 rounded-full ${TAG_COLOR_CLASSES[tag.color]}`} />
+                  {tag.name}
+                </button>
+                <button
+                  onClick={() => deleteTag(tag.id)}
+                  className="hidden group-hover:inline text-slate-400 hover:text-red-400"
+                  title="Delete tag"
+                  data-testid="tag-delete"
+                >
+                  ×
+                </button>
+              </span>
+            )
+          })}
+        </div>
+        {newTag && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (newTag.name.trim()) createTag(newTag.name.trim(), newTag.color)
+              setNewTag(null)
+            }}
+            className="px-3 pt-1.5 space-y-1.5"
+            data-testid="tag-form"
+          >
+            <input
+              type="text"
+              value={newTag.name}
+              onChange={(e) => setNewTag({ ...newTag, name: e.target.value })}
+              onKeyDown={(e) => e.key === 'Escape' && setNewTag(null)}
+              placeholder="Tag name"
+              className="w-full bg-slate-600 text-white text-sm px-2 py-0.5 rounded outline-none"
+              autoFocus
+              data-testid="tag-name-input"
+            />
+            <div className="flex items-center gap-1.5">
+              {TAG_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setNewTag({ ...newTag, color })}
+                  className={`w-4 h-4 rounded-full ${TAG_COLOR_CLASSES[color]} ${
+                    newTag.color === color ? 'ring-2 ring-white' : ''
+                  }`}
+                  aria-label={color}
+                  data-testid={`tag-color-${color}`}
+                />
+              ))}
+              <button
+                type="submit"
+                className="ml-auto px-2 py-0.5 rounded text-xs text-slate-200 bg-slate-600 hover:bg-slate-500"
+                data-testid="tag-create-submit"
+              >
+                Add
+              </button>
+            </div>
+          </form>
+        )}
+      </section>
+    </nav>
+  )
+}
+
+interface NameInputProps {
+  initial: string
+  placeholder: string
+  depth: number
+  onSubmit: (name: string) => void
+  onCancel: () => void
+}
+
+function NameInput({ initial, placeholder, depth, onSubmit, onCancel }: NameInputProps) {
+  const [value, setValue] = useState(initial)
+  const submit = () => (value.trim() ? onSubmit(value.trim()) : onCancel())
+
+  return (
+    <div className="py-1 pr-3" style={{ paddingLeft: `${0.75 + depth}rem` }}>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={submit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') submit()
+          if (e.key === 'Escape') onCancel()
+        }}
+        placeholder={placeholder}
+        className="w-full bg-slate-600 text-white text-sm px-2 py-0.5 rounded outline-none"
+        autoFocus
+        data-testid="folder-name-input"
+      />
+    </div>
+  )
+}
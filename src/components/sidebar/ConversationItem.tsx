@@ -3,23 +3,43 @@
 // ============================================================
 
 import { useState } from 'react'
-import type { Conversation } from '../../types'
+import type { Conversation, ConversationOrganization, Folder, Tag } from '../../types'
+import type { ExportFormat } from '../../lib/conversation-export'
+import { flattenFolders } from '../../lib/organization'
 import { truncate } from '../../lib/utils'
+import { TAG_COLOR_CLASSES, startDrag } from './organize'
+
+const menuItemClass =
+  'w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600 transition-colors'
+
+const exportOptions: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'Export JSON' },
+  { format: 'markdown', label: 'Export Markdown' },
+  { format: 'html', label: 'Export HTML' },
+]
 
 interface ConversationItemProps {
   conversation: Conversation
   isActive: boolean
+  folders: Folder[]
+  tags: Tag[]
   onSelect: () => void
   onDelete: () => void
   onRename: (newTitle: string) => void
+  onExport: (format: ExportFormat) => void
+  onOrganize: (changes: ConversationOrganization) => void
 }
 
 export function ConversationItem({
   conversation,
   isActive,
+  folders,
+  tags,
   onSelect,
   onDelete,
   onRename,
+  onExport,
+  onOrganize,
 }: ConversationItemProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editTitle, setEditTitle] = useState(conversation.title)
@@ -32,6 +52,12 @@ export function ConversationItem({
     setIsEditing(false)
   }
 
+  const tagIds = conversation.tagIds ?? []
+  const toggleTag = (id: string) =>
+    onOrganize({
+      tagIds: tagIds.includes(id) ? tagIds.filter((t) => t !== id) : [...tagIds, id],
+    })
+
   return (
     <div
       className={`group relative flex items-center gap-2 px-3 py-2.5 rounded-lg cursor-pointer transition-colors ${
@@ -40,6 +66,8 @@ export function ConversationItem({
           : 'text-slate-300 hover:bg-slate-700/40 hover:text-white'
       }`}
       onClick={!isEditing ? onSelect : undefined}
+      draggable={!isEditing}
+      onDragStart={(e) => startDrag(e.dataTransfer, { kind: 'conversation', id: conversation.id })}
       data-testid="conversation-item"
     >
       {/* Chat icon */}
@@ -78,6 +106,27 @@ export function ConversationItem({
         </span>
       )}
 
+      {/* Pin & tag markers */}
+      {!isEditing && (
+        <span className="flex items-center gap-1 flex-shrink-0">
+          {tags
+            .filter((t) => tagIds.includes(t.id))
+            .map((t) => (
+              <span
+                key={t.id}
+                className={`w-2 h-2 rounded-full ${TAG_COLOR_CLASSES[t.color]}`}
+                title={t.name}
+                data-testid="conversation-tag"
+              />
+            ))}
+          {conversation.pinnedAt && (
+            <span className="text-xs" title="Pinned" data-testid="conversation-pinned">
+              📌
+            </span>
+          )}
+        </span>
+      )}
+
       {/* Action menu */}
       {!isEditing && (
         <div className="relative">
@@ -87,6 +136,7 @@ export function ConversationItem({
               setShowMenu(!showMenu)
             }}
             className="opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-slate-600 transition-opacity"
+            data-testid="conversation-menu-button"
           >
             <svg
               className="w-4 h-4 text-slate-400"
@@ -99,7 +149,7 @@ export function ConversationItem({
 
           {showMenu && (
             <div
-              className="absolute right-0 top-8 w-36 bg-slate-700 rounded-lg shadow-xl border border-slate-600 py-1 z-50"
+              className="absolute right-0 top-8 w-52 bg-slate-700 rounded-lg shadow-xl border border-slate-600 py-1 z-50"
               onClick={(e) => e.stopPropagation()}
             >
               <button
@@ -107,10 +157,72 @@ export function ConversationItem({
                   setIsEditing(true)
                   setShowMenu(false)
                 }}
-                className="w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600 transition-colors"
+                className={menuItemClass}
               >
                 ✏️ Rename
               </button>
+              <button
+                onClick={() => {
+                  onOrganize({ pinnedAt: conversation.pinnedAt ? undefined : new Date() })
+                  setShowMenu(false)
+                }}
+                className={menuItemClass}
+                data-testid="conversation-pin"
+              >
+                📌 {conversation.pinnedAt ? 'Unpin' : 'Pin to top'}
+              </button>
+              <button
+                onClick={() => {
+                  onOrganize({ archivedAt: conversation.archivedAt ? undefined : new Date() })
+                  setShowMenu(false)
+                }}
+                className={menuItemClass}
+                data-testid="conversation-archive"
+              >
+                🗄️ {conversation.archivedAt ? 'Unarchive' : 'Archive'}
+              </button>
+              <label className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-200">
+                📁
+                <select
+                  value={conversation.folderId ?? ''}
+                  onChange={(e) => onOrganize({ folderId: e.target.value || undefined })}
+                  className="flex-1 min-w-0 bg-slate-600 text-sm rounded px-1 py-0.5 outline-none"
+                  data-testid="conversation-folder-select"
+                >
+                  <option value="">No folder</option>
+                  {flattenFolders(folders).map(({ folder, depth }) => (
+                    <option key={folder.id} value={folder.id}>
+                      {'\u00a0\u00a0'.repeat(depth)}
+                      {folder.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {tags.map((tag) => (
+                <button
+                  key={tag.id}
+                  onClick={() => toggleTag(tag.id)}
+                  className={`${menuItemClass} flex items-center gap-2`}
+                  data-testid="conversation-tag-toggle"
+                >
+                  <span className={`w-2 h-2 rounded-full ${TAG_COLOR_CLASSES[tag.color]}`} />
+                  <span className="flex-1 truncate">{tag.name}</span>
+                  {tagIds.includes(tag.id) && <span>✓</span>}
+                </button>
+              ))}
+              {exportOptions.map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => {
+                    onExport(format)
+                    setShowMenu(false)
+                  }}
+                  className={menuItemClass}
+                  data-testid={`conversation-export-${format}`}
+                >
+                  ⬇️ {label}
+                </button>
+              ))}
               <button
                 onClick={() => {
                   onDelete()
@@ -0,0 +1,134 @@
+// ============================================================
+// ConversationTransfer — export every conversation or import
+// an export from TerziLLM, ChatGPT, Open WebUI or Ollama, from
+// the sidebar footer
+// ============================================================
+
+import { useRef, useState } from 'react'
+import { useConversationTransfer } from '../../hooks/useConversationTransfer'
+import { ImportError, type ExportFormat } from '../../lib/conversation-export'
+import { SOURCE_LABELS } from '../../lib/chat-archives'
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON (re-importable)' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML page' },
+]
+
+type Status = { kind: 'success' | 'error' | 'pending'; message: string; details?: string[] }
+
+const statusColors: Record<Status['kind'], string> = {
+  pending: 'bg-slate-700/40 text-slate-300',
+  success: 'bg-emerald-500/10 text-emerald-300',
+  error: 'bg-red-500/10 text-red-300',
+}
+
+export function ConversationTransfer() {
+  const { exportConversations, importFile } = useConversationTransfer()
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [showFormats, setShowFormats] = useState(false)
+  const [status, setStatus] = useState<Status | null>(null)
+  const [allBranches, setAllBranches] = useState(false)
+
+  const handleImport = async (file: File) => {
+    setStatus({ kind: 'pending', message: `Reading ${file.name}…` })
+    try {
+      const { source, imported, skipped } = await importFile(file, { allBranches })
+      setStatus({
+        kind: 'success',
+        message: `Imported ${imported.length} ${imported.length === 1 ? 'conversation' : 'conversations'} from ${SOURCE_LABELS[source]}`,
+        details: skipped.map(({ reason, count }) => `Skipped ${count} × ${reason}`),
+      })
+    } catch (err) {
+      setStatus({
+        kind: 'error',
+        message: err instanceof Error ? err.message : 'Import failed',
+        details: err instanceof ImportError ? err.problems.slice(0, 5) : undefined,
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative flex gap-2">
+        <button
+          onClick={() => setShowFormats(!showFormats)}
+          className="flex-1 px-3 py-1.5 rounded-lg text-xs text-slate-300 bg-slate-700/40 hover:bg-slate-700 hover:text-white transition-colors"
+          data-testid="export-all-button"
+        >
+          Export all
+        </button>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="flex-1 px-3 py-1.5 rounded-lg text-xs text-slate-300 bg-slate-700/40 hover:bg-slate-700 hover:text-white transition-colors"
+          data-testid="import-button"
+        >
+          Import
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) handleImport(file)
+          }}
+          data-testid="import-input"
+        />
+
+        {showFormats && (
+          <div className="absolute left-0 bottom-9 w-48 bg-slate-700 rounded-lg shadow-xl border border-slate-600 py-1 z-50">
+            {formats.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => {
+                  exportConversations(format)
+                  setShowFormats(false)
+                }}
+                className="w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-600 transition-colors"
+                data-testid={`export-all-${format}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <label
+        className="flex items-center gap-2 px-1 text-xs text-slate-400 cursor-pointer"
+        title="ChatGPT and Open WebUI keep edited prompts and regenerated replies as branches"
+      >
+        <input
+          type="checkbox"
+          checked={allBranches}
+          onChange={(e) => setAllBranches(e.target.checked)}
+          className="accent-blue-500"
+          data-testid="import-all-branches"
+        />
+        Import every branch as its own chat
+      </label>
+
+      {status && (
+        <div
+          className={`text-xs rounded-lg px-2 py-1.5 ${statusColors[status.kind]}`}
+          data-testid="import-status"
+        >
+          <div className="flex gap-2">
+            <span className="flex-1">{status.message}</span>
+            <button onClick={() => setStatus(null)} className="opacity-70 hover:opacity-100" title="Dismiss">
+              ×
+            </button>
+          </div>
+          {status.details?.map((detail) => (
+            <div key={detail} className="font-mono truncate" title={detail}>
+              {detail}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+// ============================================================
+// SearchResults — ranked full-text matches across every
+// conversation, with the matching words highlighted
+// ============================================================
+
+import { useEffect, useState } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { searchIndex } from '../../lib/database'
+import { queryTerms, snippetSegments } from '../../lib/search'
+import type { SearchHit } from '../../types'
+
+// Wait for a pause in typing before querying the index
+const SEARCH_DEBOUNCE_MS = 200
+
+interface SearchResultsProps {
+  query: string
+}
+
+export function SearchResults({ query }: SearchResultsProps) {
+  const conversations = useAppStore((s) => s.conversations)
+  const openSearchResult = useAppStore((s) => s.openSearchResult)
+  const [results, setResults] = useState<{ query: string; hits: SearchHit[] } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const hits = await searchIndex(query)
+      if (!cancelled) setResults({ query, hits })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  if (!results) {
+    return <div className="text-center text-slate-500 text-sm pt-8">Searching…</div>
+  }
+
+  if (results.hits.length === 0) {
+    return (
+      <div className="text-center text-slate-500 text-sm pt-8" data-testid="search-empty">
+        No messages match “{results.query}”
+      </div>
+    )
+  }
+
+  const terms = queryTerms(results.query)
+  const titles = new Map(conversations.map((c) => [c.id, c.title]))
+
+  return (
+    <ul className="space-y-1" data-testid="search-results">
+      {results.hits.map(({ message }) => (
+        <li key={message.id}>
+          <button
+            onClick={() => openSearchResult(message.conversationId, message.id)}
+            className="w-full text-left px-3 py-2 rounded-lg text-slate-300 hover:bg-slate-700/40 hover:text-white transition-colors"
+            data-testid="search-result"
+          >
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <span className="flex-1 truncate font-medium">
+                {titles.get(message.conversationId) ?? 'Untitled'}
+              </span>
+              <span>{message.role === 'user' ? 'You' : 'TerziLLM'}</span>
+            </div>
+            <p className="text-sm line-clamp-3 break-words">
+              {snippetSegments(message.content, terms).map((segment, i) =>
+                segment.match ? (
+                  <mark key={i} className="bg-yellow-400/30 text-yellow-100 rounded px-0.5">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={i}>{segment.text}</span>
+                ),
+              )}
+            </p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -2,26 +2,52 @@
 // Sidebar — conversation list & navigation
 // ============================================================
 
+import { useState } from 'react'
 import { useAppStore } from '../../store/app-store'
 import { ConversationItem } from './ConversationItem'
+import { SearchResults } from './SearchResults'
+import { ConversationTransfer } from './ConversationTransfer'
+import { TrashList } from './TrashList'
+import { ConversationFilters } from './ConversationFilters'
+import { useConversationTransfer } from '../../hooks/useConversationTransfer'
 import { generateId } from '../../lib/utils'
+import { filterConversations, sortConversations } from '../../lib/organization'
 
 export function Sidebar() {
   const conversations = useAppStore((s) => s.conversations)
+  const folders = useAppStore((s) => s.folders)
+  const tags = useAppStore((s) => s.tags)
+  const conversationFilter = useAppStore((s) => s.conversationFilter)
   const currentConversationId = useAppStore((s) => s.currentConversationId)
   const sidebarOpen = useAppStore((s) => s.sidebarOpen)
   const createConversation = useAppStore((s) => s.createConversation)
   const setCurrentConversation = useAppStore((s) => s.setCurrentConversation)
-  const deleteConversation = useAppStore((s) => s.deleteConversation)
+  const trashConversation = useAppStore((s) => s.trashConversation)
   const updateConversationTitle = useAppStore((s) => s.updateConversationTitle)
+  const organizeConversation = useAppStore((s) => s.organizeConversation)
+  const setConversationFilter = useAppStore((s) => s.setConversationFilter)
   const toggleSidebar = useAppStore((s) => s.toggleSidebar)
   const setSettingsOpen = useAppStore((s) => s.setSettingsOpen)
+  const trashCount = useAppStore((s) => s.trash.length)
+  const [query, setQuery] = useState('')
+  const [showTrash, setShowTrash] = useState(false)
+  const { exportConversations } = useConversationTransfer()
 
   const handleNewChat = async () => {
     const id = generateId()
     await createConversation(id)
+    // File the new chat where the list is looking, so it shows up there
+    if (conversationFilter.kind === 'folder') {
+      await organizeConversation(id, { folderId: conversationFilter.folderId })
+    } else if (conversationFilter.kind === 'tag') {
+      await organizeConversation(id, { tagIds: [conversationFilter.tagId] })
+    } else if (conversationFilter.kind === 'archived') {
+      setConversationFilter({ kind: 'all' })
+    }
   }
 
+  const listed = sortConversations(filterConversations(conversations, conversationFilter, folders))
+
   if (!sidebarOpen) return null
 
   return (
@@ -59,28 +85,77 @@ export function Sidebar() {
         </button>
       </div>
 
-      {/* Conversation List */}
+      {/* Search */}
+      <div className="px-3 pb-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+          placeholder="Search messages..."
+          className="w-full px-3 py-2 rounded-lg bg-slate-700/50 border border-slate-600/50 text-sm text-white placeholder-slate-400 focus:outline-none focus:border-blue-500/50"
+          data-testid="sidebar-search"
+        />
+      </div>
+
+      {/* Conversation List, or search results while searching */}
       <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-1">
-        {conversations.length === 0 ? (
+        {query.trim() ? (
+          <SearchResults query={query.trim()} />
+        ) : showTrash ? (
+          <TrashList />
+        ) : conversations.length === 0 ? (
           <div className="text-center text-slate-500 text-sm pt-8">
             No conversations yet
           </div>
         ) : (
-          conversations.map((conv) => (
-            <ConversationItem
-              key={conv.id}
-              conversation={conv}
-              isActive={conv.id === currentConversationId}
-              onSelect={() => setCurrentConversation(conv.id)}
-              onDelete={() => deleteConversation(conv.id)}
-              onRename={(title) => updateConversationTitle(conv.id, title)}
-            />
-          ))
+          <>
+            <ConversationFilters />
+            {listed.length === 0 ? (
+              <div className="text-center text-slate-500 text-sm pt-4" data-testid="filter-empty">
+                No conversations here
+              </div>
+            ) : (
+              listed.map((conv) => (
+                <ConversationItem
+                  key={conv.id}
+                  conversation={conv}
+                  isActive={conv.id === currentConversationId}
+                  folders={folders}
+                  tags={tags}
+                  onSelect={() => setCurrentConversation(conv.id)}
+                  onDelete={() => trashConversation(conv.id)}
+                  onRename={(title) => updateConversationTitle(conv.id, title)}
+                  onExport={(format) => exportConversations(format, [conv.id])}
+                  onOrganize={(changes) => organizeConversation(conv.id, changes)}
+                />
+              ))
+            )}
+          </>
         )}
       </div>
 
-      {/* Footer — Settings */}
-      <div className="border-t border-slate-700/50 p-3">
+      {/* Footer — Export/import & Settings */}
+      <div className="border-t border-slate-700/50 p-3 space-y-2">
+        <ConversationTransfer />
+        <button
+          onClick={() => setShowTrash(!showTrash)}
+          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-300 hover:bg-slate-700/50 hover:text-white text-sm transition-colors"
+          data-testid="trash-button"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={1.5}
+              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+            />
+          </svg>
+          <span className="flex-1 text-left">{showTrash ? 'Back to conversations' : 'Trash'}</span>
+          {!showTrash && trashCount > 0 && (
+            <span className="text-xs text-slate-500">{trashCount}</span>
+          )}
+        </button>
         <button
           onClick={() => setSettingsOpen(true)}
           className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-slate-300 hover:bg-slate-700/50 hover:text-white text-sm transition-colors"
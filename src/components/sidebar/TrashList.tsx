@@ -0,0 +1,77 @@
+// ============================================================
+// TrashList — deleted conversations and messages, restorable
+// until they are purged
+// ============================================================
+
+import { useEffect } from 'react'
+import { useAppStore } from '../../store/app-store'
+import { trashItemId, trashItemTitle, trashedAt } from '../../lib/trash'
+
+const actionClass = 'px-2 py-1 rounded text-xs transition-colors'
+
+export function TrashList() {
+  const trash = useAppStore((s) => s.trash)
+  const trashRetentionDays = useAppStore((s) => s.trashRetentionDays)
+  const loadTrash = useAppStore((s) => s.loadTrash)
+  const restoreFromTrash = useAppStore((s) => s.restoreFromTrash)
+  const purgeFromTrash = useAppStore((s) => s.purgeFromTrash)
+  const emptyTrash = useAppStore((s) => s.emptyTrash)
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  if (trash.length === 0) {
+    return (
+      <div className="text-center text-slate-500 text-sm pt-8" data-testid="trash-empty">
+        The trash is empty
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2" data-testid="trash-view">
+      <p className="px-1 text-xs text-slate-500">
+        Items are deleted for good after {trashRetentionDays === 1 ? '1 day' : `${trashRetentionDays} days`}.
+      </p>
+      <ul className="space-y-1">
+        {trash.map((item) => (
+          <li
+            key={`${item.kind}-${trashItemId(item)}`}
+            className="px-3 py-2 rounded-lg bg-slate-700/30 text-slate-300"
+            data-testid="trash-item"
+          >
+            <div className="text-sm truncate">{trashItemTitle(item)}</div>
+            <div className="text-xs text-slate-500 truncate">
+              {item.kind === 'message' ? `Message in ${item.conversationTitle} · ` : ''}
+              Deleted {trashedAt(item).toLocaleDateString()}
+            </div>
+            <div className="flex justify-end gap-1 mt-1">
+              <button
+                onClick={() => restoreFromTrash(item)}
+                className={`${actionClass} text-slate-200 hover:bg-slate-600`}
+                data-testid="trash-restore"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => purgeFromTrash(item)}
+                className={`${actionClass} text-red-400 hover:bg-slate-600`}
+                data-testid="trash-purge"
+              >
+                Delete forever
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={emptyTrash}
+        className="w-full px-3 py-2 rounded-lg text-sm text-red-400 hover:bg-slate-700/50 transition-colors"
+        data-testid="trash-empty-button"
+      >
+        Empty trash
+      </button>
+    </div>
+  )
+}
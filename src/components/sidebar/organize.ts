@@ -0,0 +1,48 @@
+// ============================================================
+// Sidebar organization helpers — tag swatches and the payload
+// of conversations and folders being dragged onto folders
+// ============================================================
+
+import type { TagColor } from '../../types'
+
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  slate: 'bg-slate-400',
+  red: 'bg-red-400',
+  amber: 'bg-amber-400',
+  emerald: 'bg-emerald-400',
+  sky: 'bg-sky-400',
+  violet: 'bg-violet-400',
+  pink: 'bg-pink-400',
+}
+
+export const TAG_COLORS = Object.keys(TAG_COLOR_CLASSES) as TagColor[]
+
+export interface DragItem {
+  kind: 'conversation' | 'folder'
+  id: string
+}
+
+// The id travels under a type per kind, so a drop target can tell
+// what is over it before the drop — data is unreadable until then
+const DRAG_TYPES: Record<DragItem['kind'], string> = {
+  conversation: 'application/x-terzillm-conversation',
+  folder: 'application/x-terzillm-folder',
+}
+
+export function startDrag(data: DataTransfer, item: DragItem): void {
+  data.setData(DRAG_TYPES[item.kind], item.id)
+  data.effectAllowed = 'move'
+}
+
+/** The kind of item being dragged, or null for anything else */
+export function draggedKind(data: DataTransfer): DragItem['kind'] | null {
+  if (data.types.includes(DRAG_TYPES.conversation)) return 'conversation'
+  if (data.types.includes(DRAG_TYPES.folder)) return 'folder'
+  return null
+}
+
+export function droppedItem(data: DataTransfer): DragItem | null {
+  const kind = draggedKind(data)
+  const id = kind && data.getData(DRAG_TYPES[kind])
+  return kind && id ? { kind, id } : null
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useAppChat } from '../useAppChat'
+import { getInferenceBackend } from '../useInferenceBackend'
+import { useAppStore } from '../../store/app-store'
+import {
+  MESSAGE_PAGE_SIZE,
+  addMessage,
+  deleteConversation,
+  getAllMessages,
+  resetDB,
+} from '../../lib/database'
+import { estimateHistoryTokens } from '../../lib/context-window'
+import { AVAILABLE_MODELS, type Message } from '../../types'
+
+const CONVERSATION_ID = 'hook-c1'
+const OTHER_CONVERSATION_ID = 'hook-c2'
+
+beforeEach(async () => {
+  resetDB()
+  useAppStore.setState({
+    inferenceMode: 'scripted',
+    errorMessage: null,
+    errorCode: null,
+    enabledTools: [],
+    conversations: [],
+    currentConversationId: CONVERSATION_ID,
+  })
+  await getInferenceBackend('scripted').init('scripted-model')
+  await useAppStore.getState().createConversation(CONVERSATION_ID, 'Long')
+})
+
+afterEach(async () => {
+  await deleteConversation(CONVERSATION_ID)
+})
+
+// One page and a half of history
+async function seedHistory(): Promise<Message[]> {
+  const start = new Date('2024-03-01T12:00:00Z').getTime()
+  const history: Message[] = []
+  let parentId: string | null = null
+  for (let i = 0; i < MESSAGE_PAGE_SIZE * 1.5; i++) {
+    const message: Message = {
+      id: `hook-m${i}`,
+      conversationId: CONVERSATION_ID,
+      role: i % 2 ? 'assistant' : 'user',
+      content: `Message ${i}`,
+      createdAt: new Date(start + i),
+      parentId,
+    }
+    await addMessage(message)
+    history.push(message)
+    parentId = message.id
+  }
+  return history
+}
+
+describe('useAppChat', () => {
+  it('keeps paging back after a message is sent', async () => {
+    const history = await seedHistory()
+
+    const { result } = renderHook(() => useAppChat(CONVERSATION_ID))
+    await act(() => result.current.loadMessages(CONVERSATION_ID))
+    expect(result.current.messages).toHaveLength(MESSAGE_PAGE_SIZE)
+    expect(result.current.hasOlderMessages).toBe(true)
+    // The context estimate covers the messages not loaded yet
+    await waitFor(() =>
+      expect(result.current.historyTokens).toBe(estimateHistoryTokens(history)),
+    )
+
+    await act(() => result.current.sendMessage('Hello again'))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+    expect(result.current.messages).toHaveLength(MESSAGE_PAGE_SIZE + 2)
+    expect(result.current.hasOlderMessages).toBe(true)
+
+    await act(() => result.current.loadOlderMessages())
+    expect(result.current.messages).toHaveLength(MESSAGE_PAGE_SIZE * 1.5 + 2)
+    expect(result.current.messages[0].id).toBe('hook-m0')
+    expect(result.current.hasOlderMessages).toBe(false)
+  })
+
+  it('edits the first loaded message on top of its unloaded parent', async () => {
+    const history = await seedHistory()
+    const { result } = renderHook(() => useAppChat(CONVERSATION_ID))
+    await act(() => result.current.loadMessages(CONVERSATION_ID))
+    const first = result.current.messages[0]
+    expect(first.role).toBe('user')
+
+    await act(() => result.current.editMessage(first.id, 'Edited question'))
+    await waitFor(() => expect(result.current.isLoading).toBe(false))
+
+    const edited = (await getAllMessages(CONVERSATION_ID)).find(
+      (m) => m.content === 'Edited question',
+    )
+    expect(edited?.parentId).toBe(first.parentId)
+    expect(history.some((m) => m.id === first.parentId)).toBe(true)
+  })
+
+  it('keeps a reply out of a conversation opened while it streamed', async () => {
+    await useAppStore.getState().createConversation(OTHER_CONVERSATION_ID, 'Other')
+    const { result, rerender } = renderHook(({ id }) => useAppChat(id), {
+      initialProps: { id: CONVERSATION_ID },
+    })
+    await act(() => result.current.loadMessages(CONVERSATION_ID))
+
+    let sent!: Promise<void>
+    act(() => {
+      sent = result.current.sendMessage('A long question that takes a while to echo back')
+    })
+    useAppStore.setState({ currentConversationId: OTHER_CONVERSATION_ID })
+    rerender({ id: OTHER_CONVERSATION_ID })
+    await act(() => result.current.loadMessages(OTHER_CONVERSATION_ID))
+    await act(() => sent)
+
+    expect(result.current.messages).toEqual([])
+    await deleteConversation(OTHER_CONVERSATION_ID)
+  })
+
+  it('leaves the server model alone when opening a conversation saved with a local one', async () => {
+    const remoteConfig = { baseUrl: 'http://localhost:8080/v1', apiKey: '', model: 'server-model' }
+    useAppStore.setState({ inferenceMode: 'remote', remoteConfig })
+    await useAppStore.getState().updateConversationSettings(CONVERSATION_ID, {
+      modelId: AVAILABLE_MODELS[0].id,
+      modelMode: 'local',
+    })
+
+    const { result } = renderHook(() => useAppChat(CONVERSATION_ID))
+    await act(() => result.current.loadMessages(CONVERSATION_ID))
+
+    expect(useAppStore.getState().remoteConfig).toEqual(remoteConfig)
+    expect(result.current.replyModelId).toBe('server-model')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { conversationModelFor } from '../useInferenceBackend'
+import { AVAILABLE_MODELS } from '../../types'
+
+const LOCAL_MODEL = AVAILABLE_MODELS[0].id
+
+describe('conversationModelFor', () => {
+  it('only applies a model picked under the same inference mode', () => {
+    const conversation = { modelId: LOCAL_MODEL, modelMode: 'local' as const }
+    expect(conversationModelFor(conversation, 'local')).toBe(LOCAL_MODEL)
+    expect(conversationModelFor(conversation, 'remote')).toBeUndefined()
+    expect(conversationModelFor(conversation, 'scripted')).toBeUndefined()
+  })
+
+  it('matches models saved without a mode against the local catalogue', () => {
+    expect(conversationModelFor({ modelId: LOCAL_MODEL }, 'local')).toBe(LOCAL_MODEL)
+    expect(conversationModelFor({ modelId: LOCAL_MODEL }, 'remote')).toBeUndefined()
+    expect(conversationModelFor({ modelId: 'gpt-4o' }, 'remote')).toBe('gpt-4o')
+    expect(conversationModelFor({ modelId: 'gpt-4o' }, 'local')).toBeUndefined()
+  })
+
+  it('has no model for a conversation without one', () => {
+    expect(conversationModelFor(undefined, 'local')).toBeUndefined()
+    expect(conversationModelFor({}, 'remote')).toBeUndefined()
+  })
+})
@@ -1,18 +1,138 @@
 // ============================================================
-// useAppChat — custom chat hook integrating WorkerBridge
+// useAppChat — custom chat hook integrating the inference backend
 //
 // Instead of using Vercel AI SDK's useChat (which expects a
 // server endpoint), we build our own streaming chat hook that
-// works directly with the WorkerBridge's ReadableStream API
+// works directly with the backend's ReadableStream API
 // and persists messages to IndexedDB.
 // ============================================================
 
-import { useState, useCallback, useRef } from 'react'
-import { getWorkerBridge } from './useWorkerBridge'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { conversationModelFor, getInferenceBackend } from './useInferenceBackend'
 import { useDatabase } from './useDatabase'
 import { useAppStore } from '../store/app-store'
-import type { Message, ChatMessage } from '../types'
+import {
+  AVAILABLE_MODELS,
+  type Conversation,
+  type Message,
+  type ChatMessage,
+  type GenerateConfig,
+  type GenerationSettings,
+  type TokenUsage,
+  type ToolCall,
+} from '../types'
 import { generateId } from '../lib/utils'
+import { WorkerCrashedError } from '../lib/worker-bridge'
+import { checkStructuredOutput } from '../lib/structured-output'
+import { toolRegistry } from '../lib/builtin-tools'
+import { createFrameThrottle } from '../lib/frame-throttle'
+import { activePath, branchPositions, buildTree, siblingLeaf } from '../lib/message-tree'
+import {
+  dequeue,
+  moveQueued,
+  queuedFor,
+  removeQueued,
+  type QueuedPrompt,
+} from '../lib/prompt-queue'
+import {
+  ContextOverflowError,
+  DEFAULT_REPLY_RESERVE,
+  SUMMARY_MAX_TOKENS,
+  contextWindowFor,
+  estimateHistoryTokens,
+  estimateMessageTokens,
+  estimateTokens,
+  fitToContext,
+  summaryPrompt,
+} from '../lib/context-window'
+import type { InferenceBackend } from '../lib/inference-backend'
+
+/** Upper bound on model → tool → model round trips per reply */
+const MAX_TOOL_ROUNDS = 5
+
+/** "Trim and retry" after an overflow halves the context budget */
+const TRIM_RETRY_BUDGET_SCALE = 0.5
+
+function toChatMessage(m: Message): ChatMessage {
+  return {
+    role: m.role,
+    content: m.content,
+    ...(m.toolCalls ? { tool_calls: m.toolCalls } : {}),
+    ...(m.toolCallId ? { tool_call_id: m.toolCallId } : {}),
+  }
+}
+
+/**
+ * Load a conversation's model when it differs from the active one.
+ * Remote requests pick the conversation's model up per request, so the
+ * configured server model is never changed by opening a conversation.
+ */
+async function loadConversationModel(modelId: string): Promise<void> {
+  const store = useAppStore.getState()
+  if (store.inferenceMode === 'remote') return
+  if (store.modelStatus === 'loading' || store.modelStatus === 'unloading') return
+  if (store.modelId === modelId && store.modelStatus === 'ready') return
+  if (store.inferenceMode === 'local' && !AVAILABLE_MODELS.some((m) => m.id === modelId)) return
+
+  const backend = getInferenceBackend()
+  store.setModelId(modelId)
+  store.clearError()
+  if (backend.status === 'ready') {
+    await backend.switchModel(modelId)
+  } else {
+    await backend.init(modelId)
+  }
+}
+
+async function readAll(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader()
+  let text = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return text
+    text += value
+  }
+}
+
+/**
+ * Summary of the trimmed turns, extending the saved one when more
+ * turns were trimmed since. Falls back to the saved summary (or none)
+ * when the model cannot produce one.
+ */
+async function summarizeDropped(
+  backend: InferenceBackend,
+  conversation: Conversation,
+  dropped: Message[],
+  budget: number,
+): Promise<string | undefined> {
+  const saved = conversation.contextSummary
+  const lastDropped = dropped[dropped.length - 1]
+  if (saved?.throughMessageId === lastDropped.id) return saved.content
+
+  const savedIndex = saved ? dropped.findIndex((m) => m.id === saved.throughMessageId) : -1
+  const previous = savedIndex >= 0 ? saved?.content : undefined
+  try {
+    const { kept: unsummarized } = fitToContext(dropped.slice(savedIndex + 1), budget, {
+      strategy: 'sliding-window',
+      keepLastN: 0,
+    })
+    const content = (
+      await readAll(
+        backend.chat([{ role: 'user', content: summaryPrompt(unsummarized, previous) }], {
+          max_tokens: SUMMARY_MAX_TOKENS,
+          temperature: 0.3,
+        }),
+      )
+    ).trim()
+    if (!content) return previous
+    await useAppStore
+      .getState()
+      .setContextSummary(conversation.id, { throughMessageId: lastDropped.id, content })
+    return content
+  } catch {
+    return previous
+  }
+}
 
 export interface ChatState {
   messages: Message[]
@@ -20,118 +140,556 @@ export interface ChatState {
   isLoading: boolean
 }
 
+/** Every message of the open conversation and the branch being shown */
+interface Thread {
+  conversationId?: string
+  /** The messages loaded so far from every branch, oldest first */
+  all: Message[]
+  leafId?: string
+  /** Older messages are still only in the database */
+  hasOlder?: boolean
+}
+
 export function useAppChat(conversationId: string | null) {
-  const [messages, setMessages] = useState<Message[]>([])
+  const [thread, setThread] = useState<Thread>({ all: [] })
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [streamingContent, setStreamingContent] = useState('')
+  const [queue, setQueue] = useState<QueuedPrompt[]>([])
   const abortRef = useRef(false)
-  const { addMessage, getMessages } = useDatabase()
-  const modelId = useAppStore((s) => s.modelId)
+  // Set synchronously so a prompt sent mid-generation is always queued
+  const busyRef = useRef(false)
+  // Source of truth for the send loop; `queue` mirrors it for rendering
+  const queueRef = useRef<QueuedPrompt[]>([])
 
-  // Load messages for a conversation from IndexedDB
+  const updateQueue = useCallback((update: (queue: QueuedPrompt[]) => QueuedPrompt[]) => {
+    queueRef.current = update(queueRef.current)
+    setQueue(queueRef.current)
+  }, [])
+  const { addMessage, getLatestMessages, getMessagePage, getEarlierMessages, setActiveLeaf } =
+    useDatabase()
+  const tree = useMemo(() => buildTree(thread.all), [thread.all])
+  const messages = useMemo(() => activePath(tree, thread.leafId), [tree, thread.leafId])
+  const branches = useMemo(() => {
+    const positions = branchPositions(tree, messages)
+    // Until its parent is loaded, the first message's alternatives are unknown
+    const first = messages[0]
+    if (thread.hasOlder && first && first.parentId !== null) positions.delete(first.id)
+    return positions
+  }, [tree, messages, thread.hasOlder])
+  const loadingOlderRef = useRef(false)
+
+  // New messages continue the branch being shown. A reply that
+  // finishes after another conversation was opened is only saved.
+  const appendMessage = useCallback((message: Message) => {
+    setThread((t) =>
+      message.conversationId === t.conversationId
+        ? { ...t, all: [...t.all, message], leafId: message.id }
+        : t,
+    )
+  }, [])
+  const conversationModelId = useAppStore((s) =>
+    conversationModelFor(
+      s.conversations.find((c) => c.id === conversationId),
+      s.inferenceMode,
+    ),
+  )
+  // The model requests run on; remote ones name the conversation's model
+  const modelId = useAppStore((s) =>
+    s.inferenceMode === 'remote' ? (conversationModelId ?? s.remoteConfig.model) : s.modelId,
+  )
+
+  // The model that answers: the conversation's own once it is loaded
+  const replyModelId = conversationModelId ?? modelId
+
+  // Switch to the conversation's model when opening it
+  useEffect(() => {
+    if (conversationModelId) loadConversationModel(conversationModelId)
+  }, [conversationId, conversationModelId])
+
+  // Messages not loaded yet still count towards the context, so
+  // estimate them too; keyed by the first loaded message. Reading
+  // back one context window is enough to tell that it overflows.
+  const firstLoadedId = thread.hasOlder ? messages[0]?.id : undefined
+  const contextWindow = contextWindowFor(replyModelId)
+  const [earlierTokens, setEarlierTokens] = useState<{ beforeId: string; tokens: number }>()
+  useEffect(() => {
+    if (!conversationId || !firstLoadedId) return
+    let cancelled = false
+    const limit = { maxTokens: contextWindow }
+    getEarlierMessages(conversationId, firstLoadedId, limit).then((earlier) => {
+      if (cancelled) return
+      setEarlierTokens({ beforeId: firstLoadedId, tokens: estimateHistoryTokens(earlier) })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [conversationId, firstLoadedId, contextWindow, getEarlierMessages])
+  const historyTokens = useMemo(
+    () =>
+      estimateHistoryTokens(messages) +
+      (firstLoadedId && earlierTokens?.beforeId === firstLoadedId ? earlierTokens.tokens : 0),
+    [messages, firstLoadedId, earlierTokens],
+  )
+
+  // Load the latest messages of a conversation from IndexedDB; older
+  // ones are read a page at a time as they are scrolled to
   const loadMessages = useCallback(
     async (convId: string) => {
-      const msgs = await getMessages(convId)
-      setMessages(msgs)
+      const { messages: all, hasMore, activeLeafId } = await getLatestMessages(convId)
+      setThread({ conversationId: convId, all, leafId: activeLeafId, hasOlder: hasMore })
     },
-    [getMessages],
+    [getLatestMessages],
   )
 
-  // Send a message and stream the response
-  const sendMessage = useCallback(
-    async (content: string) => {
-      if (!content.trim() || !conversationId || isLoading) return
+  // Read the page before the oldest loaded message
+  const loadOlderMessages = useCallback(async () => {
+    const oldest = thread.all[0]
+    if (!thread.hasOlder || !oldest || thread.conversationId !== conversationId) return
+    if (loadingOlderRef.current) return
+    loadingOlderRef.current = true
+    try {
+      const page = await getMessagePage(oldest.conversationId, oldest)
+      // Skip the page if the conversation was reloaded meanwhile
+      setThread((t) =>
+        t.all[0]?.id === oldest.id
+          ? { ...t, all: [...page.messages, ...t.all], hasOlder: page.hasMore }
+          : t,
+      )
+    } finally {
+      loadingOlderRef.current = false
+    }
+  }, [conversationId, thread.all, thread.hasOlder, thread.conversationId, getMessagePage])
 
-      const bridge = getWorkerBridge()
-      const modelStatus = useAppStore.getState().modelStatus
+  // Bring a message further back than the loaded pages into the
+  // thread. Reads one page per call; call again once the thread
+  // updates until it is there.
+  const revealMessage = useCallback(
+    async (messageId: string) => {
+      if (thread.all.some((m) => m.id === messageId)) return
+      await loadOlderMessages()
+    },
+    [thread.all, loadOlderMessages],
+  )
 
-      if (modelStatus !== 'ready') {
-        return
+  // Stream a reply to `history` and persist it as an assistant message.
+  // When the model calls tools, each call's result is persisted as a
+  // 'tool' message and the model is asked again, up to MAX_TOOL_ROUNDS.
+  // Resolves to the history including everything that was added.
+  // `overrides` replace sampling settings for this reply only.
+  const generateReply = useCallback(
+    async (
+      history: Message[],
+      budgetScale = 1,
+      overrides?: GenerationSettings,
+    ): Promise<Message[]> => {
+      if (!conversationId) return history
+
+      const backend = getInferenceBackend()
+      const store = useAppStore.getState()
+      const conversation = store.conversations.find((c) => c.id === conversationId)
+      const responseFormat = conversation?.responseFormat
+      const tools = toolRegistry.definitions(store.enabledTools)
+      const toolSupport = tools.length ? backend.toolSupport(modelId) : 'none'
+      let transcript = history
+      // Re-render at most once per frame however fast chunks arrive
+      const streamUpdates = createFrameThrottle(setStreamingContent)
+
+      try {
+        // Messages not loaded yet are still part of the context, as far
+        // back as it can hold, or as the summary of older turns reaches
+        const earlier =
+          thread.hasOlder && history.length > 0
+            ? await getEarlierMessages(conversationId, history[0].id, {
+                maxTokens: contextWindowFor(replyModelId),
+                throughId:
+                  store.contextSettings.strategy === 'summarize'
+                    ? conversation?.contextSummary?.throughMessageId
+                    : undefined,
+              })
+            : []
+
+        for (let round = 0; ; round++) {
+          const lastRole = transcript[transcript.length - 1]?.role
+          // 'forced' models answer every request that offers tools with
+          // tool calls and cannot combine them with a response format
+          const offerTools =
+            toolSupport === 'auto'
+              ? round < MAX_TOOL_ROUNDS
+              : toolSupport === 'forced' && lastRole !== 'tool' && !responseFormat
+
+          const config: GenerateConfig = {
+            ...store.generationSettings,
+            ...conversation?.generationConfig,
+            ...overrides,
+            ...(responseFormat ? { response_format: responseFormat } : {}),
+            ...(offerTools ? { tools } : {}),
+          }
+
+          // Stream the response
+          let fullContent = ''
+          let usage: TokenUsage | undefined
+          let toolCalls: ToolCall[] | undefined
+          const startedAt = performance.now()
+          setStreamingContent('')
+
+          // Function-calling models use their own system prompt
+          let systemPrompt =
+            offerTools && toolSupport === 'forced' ? undefined : conversation?.systemPrompt?.trim()
+
+          // Trim the oldest turns so the prompt and reply fit the context window
+          const { strategy } = store.contextSettings
+          const reserved =
+            (config.max_tokens ?? DEFAULT_REPLY_RESERVE) +
+            (systemPrompt ? estimateMessageTokens({ content: systemPrompt }) : 0) +
+            (config.tools ? estimateTokens(JSON.stringify(config.tools)) : 0) +
+            (strategy === 'summarize' ? SUMMARY_MAX_TOKENS : 0)
+          const budget = Math.floor((contextWindowFor(replyModelId) - reserved) * budgetScale)
+          const { kept, dropped } = fitToContext(
+            [...earlier, ...transcript],
+            budget,
+            store.contextSettings,
+          )
+          if (strategy === 'summarize' && dropped.length > 0 && conversation) {
+            const summary = await summarizeDropped(backend, conversation, dropped, budget)
+            if (summary) {
+              systemPrompt = [systemPrompt, `Summary of the earlier conversation: ${summary}`]
+                .filter(Boolean)
+                .join('\n\n')
+            }
+          }
+
+          const chatMessages = kept.map(toChatMessage)
+          if (systemPrompt) chatMessages.unshift({ role: 'system', content: systemPrompt })
+
+          const stream = backend.chat(
+            chatMessages,
+            config,
+            (u) => {
+              usage = u
+            },
+            (calls) => {
+              toolCalls = calls
+            },
+          )
+          const reader = stream.getReader()
+
+          while (true) {
+            if (abortRef.current) {
+              reader.cancel()
+              break
+            }
+
+            const { done, value } = await reader.read()
+            if (done) break
+
+            fullContent += value
+            streamUpdates.push(fullContent)
+          }
+          streamUpdates.cancel()
+
+          if (!fullContent && !toolCalls) break
+
+          // Create assistant message
+          const assistantMessage: Message = {
+            id: generateId(),
+            conversationId,
+            role: 'assistant',
+            content: fullContent,
+            createdAt: new Date(),
+            parentId: transcript[transcript.length - 1]?.id ?? null,
+            toolCalls,
+            metadata: {
+              model: modelId ?? undefined,
+              tokensUsed: usage?.total_tokens,
+              promptTokens: usage?.prompt_tokens,
+              completionTokens: usage?.completion_tokens,
+              durationMs: usage?.duration_ms ?? performance.now() - startedAt,
+              timeToFirstTokenMs: usage?.time_to_first_token_ms,
+              prefillTokensPerSec: usage?.prefill_tokens_per_s,
+              decodeTokensPerSec: usage?.decode_tokens_per_s,
+              structuredOutput: toolCalls
+                ? undefined
+                : checkStructuredOutput(fullContent, responseFormat),
+            },
+          }
+          setStreamingContent('')
+          appendMessage(assistantMessage)
+          await addMessage(assistantMessage)
+          transcript = [...transcript, assistantMessage]
+
+          if (!toolCalls || abortRef.current) break
+
+          for (const call of toolCalls) {
+            const result = await toolRegistry.execute(call)
+            const toolMessage: Message = {
+              id: generateId(),
+              conversationId,
+              role: 'tool',
+              content: result.content,
+              createdAt: new Date(),
+              parentId: transcript[transcript.length - 1].id,
+              toolCallId: call.id,
+              metadata: result.isError ? { toolError: true } : undefined,
+            }
+            appendMessage(toolMessage)
+            await addMessage(toolMessage)
+            transcript = [...transcript, toolMessage]
+          }
+        }
+      } catch (err) {
+        streamUpdates.cancel()
+        // A crash was already reported by the backend as WORKER_CRASHED
+        if (!(err instanceof WorkerCrashedError)) {
+          const errorMessage = err instanceof Error ? err.message : 'Generation failed'
+          useAppStore
+            .getState()
+            .setError(
+              errorMessage,
+              err instanceof ContextOverflowError ? 'CONTEXT_OVERFLOW' : 'GENERATION_ERROR',
+            )
+        }
       }
+      return transcript
+    },
+    [
+      conversationId,
+      addMessage,
+      appendMessage,
+      getEarlierMessages,
+      modelId,
+      replyModelId,
+      thread.hasOlder,
+    ],
+  )
 
-      abortRef.current = false
-      setIsLoading(true)
-      setInput('')
+  // Persist a user prompt and stream the reply to it
+  const runPrompt = useCallback(
+    async (content: string, history: Message[]): Promise<Message[]> => {
+      if (!conversationId) return history
 
       // Create user message
       const userMessage: Message = {
         id: generateId(),
         conversationId,
         role: 'user',
-        content: content.trim(),
+        content,
         createdAt: new Date(),
+        parentId: history[history.length - 1]?.id ?? null,
       }
 
-      setMessages((prev) => [...prev, userMessage])
+      appendMessage(userMessage)
       await addMessage(userMessage)
 
       // Update conversation title if it's the first message
       const store = useAppStore.getState()
       const conv = store.conversations.find((c) => c.id === conversationId)
       if (conv && conv.title === 'New conversation') {
-        const title = content.trim().slice(0, 50) || 'New conversation'
+        const title = content.slice(0, 50) || 'New conversation'
         store.updateConversationTitle(conversationId, title)
       }
+      // Remember the model so reopening the conversation loads it again
+      const modelMode = store.inferenceMode
+      if (conv && modelId && (conv.modelId !== modelId || conv.modelMode !== modelMode)) {
+        store.updateConversationSettings(conversationId, { modelId, modelMode })
+      }
 
-      // Build chat messages for the worker
-      const allMessages = [...messages, userMessage]
-      const chatMessages: ChatMessage[] = allMessages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      }))
+      return generateReply([...history, userMessage])
+    },
+    [conversationId, addMessage, appendMessage, generateReply, modelId],
+  )
 
-      // Stream the response
-      let fullContent = ''
-      setStreamingContent('')
+  /** Whether the queue may send its next prompt into this conversation */
+  const canContinueQueue = useCallback(() => {
+    const { modelStatus, errorMessage, currentConversationId } = useAppStore.getState()
+    return modelStatus === 'ready' && !errorMessage && currentConversationId === conversationId
+  }, [conversationId])
+
+  // Send `first` after `history`, then each prompt queued meanwhile,
+  // one at a time
+  const processPrompts = useCallback(
+    async (first: string, history: Message[] = messages) => {
+      if (!conversationId) return
+      busyRef.current = true
+      setIsLoading(true)
 
       try {
-        const stream = bridge.chat(chatMessages)
-        const reader = stream.getReader()
+        let next: string | undefined = first
+        while (next !== undefined) {
+          abortRef.current = false
+          history = await runPrompt(next, history)
+          setStreamingContent('')
 
-        while (true) {
-          if (abortRef.current) {
-            reader.cancel()
-            break
-          }
+          // Stopping or an error pauses the queue until the user resumes it
+          if (abortRef.current || !canContinueQueue()) break
+          const { next: queued, rest } = dequeue(queueRef.current, conversationId)
+          updateQueue(() => rest)
+          next = queued?.content
+        }
+      } finally {
+        busyRef.current = false
+        setIsLoading(false)
+        setStreamingContent('')
+      }
+    },
+    [conversationId, messages, runPrompt, canContinueQueue, updateQueue],
+  )
 
-          const { done, value } = await reader.read()
-          if (done) break
+  // Send a message and stream the response. While a reply is still
+  // generating the message is queued instead.
+  const sendMessage = useCallback(
+    async (content: string) => {
+      const prompt = content.trim()
+      if (!prompt || !conversationId) return
 
-          fullContent += value
-          setStreamingContent(fullContent)
-        }
+      if (busyRef.current) {
+        updateQueue((queue) => [...queue, { id: generateId(), conversationId, content: prompt }])
+        setInput('')
+        return
+      }
 
-        // Create assistant message
-        if (fullContent) {
-          const assistantMessage: Message = {
-            id: generateId(),
-            conversationId,
-            role: 'assistant',
-            content: fullContent,
-            createdAt: new Date(),
-            metadata: {
-              model: modelId ?? undefined,
-            },
-          }
-          setMessages((prev) => [...prev, assistantMessage])
-          await addMessage(assistantMessage)
-        }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Generation failed'
-        useAppStore.getState().setError(errorMessage, 'GENERATION_ERROR')
+      if (useAppStore.getState().modelStatus !== 'ready') {
+        return
+      }
+
+      setInput('')
+      await processPrompts(prompt)
+    },
+    [conversationId, processPrompts, updateQueue],
+  )
+
+  // Resubmit an earlier user message with new content. The reply
+  // goes on a new branch; the original stays one arrow away.
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      const prompt = content.trim()
+      const index = messages.findIndex((m) => m.id === messageId)
+      if (!prompt || index < 0 || busyRef.current) return
+      if (useAppStore.getState().modelStatus !== 'ready') return
+
+      // The first loaded message may answer one not loaded yet; read
+      // its branch back so the edit keeps its parent and context
+      const history =
+        index === 0 && thread.hasOlder && conversationId
+          ? await getEarlierMessages(conversationId, messageId, {
+              maxTokens: contextWindowFor(replyModelId),
+            })
+          : messages.slice(0, index)
+      await processPrompts(prompt, history)
+    },
+    [
+      conversationId,
+      messages,
+      thread.hasOlder,
+      getEarlierMessages,
+      replyModelId,
+      processPrompts,
+    ],
+  )
+
+  // Show the previous or next alternative at a fork
+  const switchBranch = useCallback(
+    async (messageId: string, offset: -1 | 1) => {
+      if (!conversationId || busyRef.current) return
+      const leafId = siblingLeaf(tree, messageId, offset)
+      if (!leafId) return
+      setThread((t) => ({ ...t, leafId }))
+      await setActiveLeaf(conversationId, leafId)
+    },
+    [conversationId, tree, setActiveLeaf],
+  )
+
+  // Restart a queue that paused after an error
+  const resumeQueue = useCallback(async () => {
+    if (!conversationId || busyRef.current) return
+    useAppStore.getState().clearError()
+    if (!canContinueQueue()) return
+    const { next, rest } = dequeue(queueRef.current, conversationId)
+    if (!next) return
+    updateQueue(() => rest)
+    await processPrompts(next.content)
+  }, [conversationId, canContinueQueue, processPrompts, updateQueue])
+
+  const cancelQueued = useCallback(
+    (id: string) => updateQueue((queue) => removeQueued(queue, id)),
+    [updateQueue],
+  )
+
+  const moveQueuedPrompt = useCallback(
+    (id: string, offset: -1 | 1) => updateQueue((queue) => moveQueued(queue, id, offset)),
+    [updateQueue],
+  )
+
+  const clearQueue = useCallback(
+    () => updateQueue((queue) => queue.filter((p) => p.conversationId !== conversationId)),
+    [conversationId, updateQueue],
+  )
+
+  // Generate one reply to `history`, outside the prompt queue
+  const replyOnce = useCallback(
+    async (history: Message[], budgetScale = 1, overrides?: GenerationSettings) => {
+      abortRef.current = false
+      busyRef.current = true
+      setIsLoading(true)
+      useAppStore.getState().clearError()
+
+      try {
+        return await generateReply(history, budgetScale, overrides)
       } finally {
+        busyRef.current = false
         setIsLoading(false)
         setStreamingContent('')
       }
     },
-    [conversationId, isLoading, messages, addMessage, modelId],
+    [generateReply],
+  )
+
+  // Re-run generation for a trailing user message (or tool result)
+  // that never got a reply (e.g. the worker crashed mid-generation)
+  const retryLastMessage = useCallback(async (budgetScale: number) => {
+    if (!conversationId || busyRef.current) return
+    const lastRole = messages[messages.length - 1]?.role
+    if (lastRole !== 'user' && lastRole !== 'tool') return
+    if (useAppStore.getState().modelStatus !== 'ready') return
+
+    await replyOnce(messages, budgetScale)
+  }, [conversationId, messages, replyOnce])
+
+  // Answer the last prompt again. The new reply is another version
+  // of the same turn; the earlier ones stay reachable at the fork.
+  const regenerate = useCallback(
+    async (overrides?: GenerationSettings) => {
+      if (!conversationId || busyRef.current) return
+      if (useAppStore.getState().modelStatus !== 'ready') return
+
+      let lastPrompt = messages.length - 1
+      while (lastPrompt >= 0 && messages[lastPrompt].role !== 'user') lastPrompt--
+      if (lastPrompt < 0) return
+
+      // Hide the current version while the new one streams in
+      const previousLeafId = messages[messages.length - 1].id
+      const history = messages.slice(0, lastPrompt + 1)
+      setThread((t) => ({ ...t, leafId: history[lastPrompt].id }))
+
+      const transcript = await replyOnce(history, 1, overrides)
+      if (transcript.length === history.length) {
+        setThread((t) => ({ ...t, leafId: previousLeafId }))
+      }
+    },
+    [conversationId, messages, replyOnce],
+  )
+
+  const resendLastMessage = useCallback(() => retryLastMessage(1), [retryLastMessage])
+
+  // After a context overflow, resend with a smaller share of the window
+  const trimAndRetry = useCallback(
+    () => retryLastMessage(TRIM_RETRY_BUDGET_SCALE),
+    [retryLastMessage],
   )
 
   const stopGeneration = useCallback(() => {
     abortRef.current = true
-    const bridge = getWorkerBridge()
-    bridge.abort()
+    getInferenceBackend().abort()
   }, [])
 
   const handleSubmit = useCallback(
@@ -149,8 +707,24 @@ export function useAppChat(conversationId: string | null) {
     isLoading,
     streamingContent,
     sendMessage,
+    branches,
+    editMessage,
+    switchBranch,
+    queuedPrompts: queuedFor(queue, conversationId),
+    cancelQueued,
+    moveQueuedPrompt,
+    clearQueue,
+    resumeQueue,
+    resendLastMessage,
+    trimAndRetry,
+    regenerate,
     handleSubmit,
     stopGeneration,
     loadMessages,
+    hasOlderMessages: !!thread.hasOlder,
+    historyTokens,
+    replyModelId,
+    loadOlderMessages,
+    revealMessage,
   }
 }
@@ -0,0 +1,34 @@
+// ============================================================
+// useConversationTransfer — export conversations to files and
+// import them back
+// ============================================================
+
+import { useCallback } from 'react'
+import { getConversationBundles } from '../lib/database'
+import { renderExport, type ExportFormat } from '../lib/conversation-export'
+import { parseArchiveFile } from '../lib/archive-import'
+import type { ArchiveImportOptions } from '../lib/chat-archives'
+import { downloadFile } from '../lib/utils'
+import { useAppStore } from '../store/app-store'
+
+export function useConversationTransfer() {
+  /** Download the given conversations, or all of them */
+  const exportConversations = useCallback(async (format: ExportFormat, ids?: string[]) => {
+    const bundles = await getConversationBundles(ids)
+    if (bundles.length === 0) return
+    const { filename, content, type } = renderExport(bundles, format)
+    downloadFile(filename, content, type)
+  }, [])
+
+  /**
+   * Import an export from TerziLLM or another chat tool; throws
+   * ImportError when the file is unusable
+   */
+  const importFile = useCallback(async (file: File, options: ArchiveImportOptions = {}) => {
+    const { source, bundles, skipped } = await parseArchiveFile(file, options)
+    const imported = await useAppStore.getState().importConversations(bundles)
+    return { source, imported, skipped }
+  }, [])
+
+  return { exportConversations, importFile }
+}
@@ -15,5 +15,32 @@ export function useDatabase() {
     return db.getMessages(conversationId)
   }, [])
 
-  return { addMessage, getMessages }
+  // The newest messages on every branch, with the branch being shown
+  const getLatestMessages = useCallback(async (conversationId: string) => {
+    return db.getLatestMessages(conversationId)
+  }, [])
+
+  const getMessagePage = useCallback(async (conversationId: string, before: Message) => {
+    return db.getMessagePage(conversationId, before)
+  }, [])
+
+  const getEarlierMessages = useCallback(
+    async (conversationId: string, messageId: string, limit?: db.EarlierLimit) => {
+      return db.getEarlierMessages(conversationId, messageId, limit)
+    },
+    [],
+  )
+
+  const setActiveLeaf = useCallback(async (conversationId: string, leafId: string) => {
+    await db.setActiveLeaf(conversationId, leafId)
+  }, [])
+
+  return {
+    addMessage,
+    getMessages,
+    getLatestMessages,
+    getMessagePage,
+    getEarlierMessages,
+    setActiveLeaf,
+  }
 }
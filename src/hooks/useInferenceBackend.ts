@@ -0,0 +1,105 @@
+// ============================================================
+// useInferenceBackend — per-mode singleton inference backends
+// ============================================================
+
+import { useMemo } from 'react'
+import type { InferenceBackend } from '../lib/inference-backend'
+import { WorkerBridge } from '../lib/worker-bridge'
+import { RemoteBackend } from '../lib/remote-backend'
+import { ScriptedBackend } from '../lib/scripted-backend'
+import { useAppStore } from '../store/app-store'
+import { AVAILABLE_MODELS } from '../types'
+import type { Conversation, InferenceMode, LoadProgress } from '../types'
+
+const backends = new Map<InferenceMode, InferenceBackend>()
+
+/**
+ * Remember how far a model download got so an interrupted one can
+ * be shown as resumable; WebLLM skips shards already in the cache.
+ */
+function trackPartialDownload(report: LoadProgress) {
+  const { modelId, partialDownloads, setPartialDownload } = useAppStore.getState()
+  if (!modelId) return
+
+  if (report.phase === 'downloading' && report.shardsDone != null && report.shardsTotal != null) {
+    // Persist once per finished shard
+    if (partialDownloads[modelId]?.shardsDone === report.shardsDone) return
+    void setPartialDownload(modelId, {
+      shardsDone: report.shardsDone,
+      shardsTotal: report.shardsTotal,
+      loadedBytes: report.loadedBytes,
+      totalBytes: report.totalBytes,
+      updatedAt: new Date(),
+    })
+  } else if (report.phase === 'loading-from-cache' && partialDownloads[modelId]) {
+    // Every shard is cached once weights load from the cache
+    void setPartialDownload(modelId, null)
+  }
+}
+
+/**
+ * The model a conversation asks for under `mode`, if any. An id picked
+ * under another mode means nothing here; conversations saved before
+ * the mode was recorded are matched against the local catalogue.
+ */
+export function conversationModelFor(
+  conversation: Pick<Conversation, 'modelId' | 'modelMode'> | undefined,
+  mode: InferenceMode,
+): string | undefined {
+  const modelId = conversation?.modelId
+  if (!modelId) return undefined
+  if (conversation.modelMode) return conversation.modelMode === mode ? modelId : undefined
+  const inCatalogue = AVAILABLE_MODELS.some((m) => m.id === modelId)
+  return inCatalogue === (mode !== 'remote') ? modelId : undefined
+}
+
+function createBackend(mode: InferenceMode): InferenceBackend {
+  switch (mode) {
+    case 'remote':
+      // Requests use the open conversation's model over the configured one
+      return new RemoteBackend(() => {
+        const { remoteConfig, conversations, currentConversationId } = useAppStore.getState()
+        const conversation = conversations.find((c) => c.id === currentConversationId)
+        const model = conversationModelFor(conversation, 'remote')
+        return model ? { ...remoteConfig, model } : remoteConfig
+      })
+    case 'scripted':
+      return new ScriptedBackend({ chunkDelayMs: 20 })
+    case 'local':
+      return new WorkerBridge()
+  }
+}
+
+/**
+ * Get the backend for an inference mode (defaults to the current one).
+ * Backends are created lazily and report status into the app store.
+ */
+export function getInferenceBackend(
+  mode: InferenceMode = useAppStore.getState().inferenceMode,
+): InferenceBackend {
+  let backend = backends.get(mode)
+  if (!backend) {
+    backend = createBackend(mode)
+    backend.setCallbacks({
+      onStatusChange: (status) => {
+        // Ignore status from a backend that is no longer selected
+        if (useAppStore.getState().inferenceMode === mode) {
+          useAppStore.getState().setModelStatus(status)
+        }
+      },
+      onProgress: (progress, text, report) => {
+        useAppStore.getState().setLoadProgress(progress, text, report)
+        if (report) trackPartialDownload(report)
+      },
+      onError: (msg, code) => useAppStore.getState().setError(msg, code),
+      onConnectionChange: (status) => useAppStore.getState().setConnectionStatus(status),
+    })
+    backends.set(mode, backend)
+  }
+  return backend
+}
+
+export function useInferenceBackend(): InferenceBackend {
+  const inferenceMode = useAppStore((s) => s.inferenceMode)
+  return useMemo(() => getInferenceBackend(inferenceMode), [inferenceMode])
+}
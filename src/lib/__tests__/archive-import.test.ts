@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest'
+import { parseArchiveFile, type ImportWorkerRequest, type ImportWorkerResponse } from '../archive-import'
+import { parseArchive } from '../chat-archives'
+import { ImportError } from '../conversation-export'
+
+// Runs the import worker's logic in-process. The archive text is
+// passed alongside the Blob because jsdom's Blob cannot be read
+// synchronously.
+function createMockWorker(text: string) {
+  const listeners: Record<string, ((event: unknown) => void)[]> = {}
+  const worker = {
+    addEventListener: (type: string, fn: (event: unknown) => void) => {
+      ;(listeners[type] ??= []).push(fn)
+    },
+    postMessage: ({ requestId, options }: ImportWorkerRequest) => {
+      let msg: ImportWorkerResponse
+      try {
+        msg = { type: 'result', requestId, result: parseArchive(text, options) }
+      } catch (err) {
+        msg = { type: 'error', requestId, error: (err as Error).message, problems: (err as ImportError).problems }
+      }
+      setTimeout(() => listeners.message?.forEach((fn) => fn({ data: msg })))
+    },
+    terminate: vi.fn(),
+  }
+  return worker
+}
+
+describe('parseArchiveFile', () => {
+  it('resolves with the parsed archive and stops the worker', async () => {
+    const text = JSON.stringify({ messages: [{ role: 'user', content: 'hello' }] })
+    const worker = createMockWorker(text)
+
+    const result = await parseArchiveFile(new Blob([text]), {}, () => worker as unknown as Worker)
+    expect(result.source).toBe('ollama')
+    expect(result.bundles[0].messages[0].content).toBe('hello')
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+
+  it('rejects with an ImportError carrying the problems', async () => {
+    const worker = createMockWorker('{"format": "terzillm-conversations", "version": 1}')
+
+    const error = await parseArchiveFile(new Blob(), {}, () => worker as unknown as Worker).catch(
+      (err: unknown) => err,
+    )
+    expect(error).toBeInstanceOf(ImportError)
+    expect((error as ImportError).problems).toEqual(['$: missing required property "conversations"'])
+    expect(worker.terminate).toHaveBeenCalled()
+  })
+})
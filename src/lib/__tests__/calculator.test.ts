@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateExpression } from '../calculator'
+
+describe('evaluateExpression', () => {
+  it('respects operator precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14)
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20)
+    expect(evaluateExpression('10 % 4 - 1')).toBe(1)
+  })
+
+  it('treats exponentiation as right-associative', () => {
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512)
+    expect(evaluateExpression('2 ** 10')).toBe(1024)
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4)
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5)
+  })
+
+  it('supports constants and functions', () => {
+    expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6)
+    expect(evaluateExpression('max(1, 7, 3)')).toBe(7)
+    expect(evaluateExpression('round(pi * 100)')).toBe(314)
+    expect(evaluateExpression('1.5e3 / .5')).toBe(3000)
+  })
+
+  it('rejects unknown names and malformed input', () => {
+    expect(() => evaluateExpression('alert(1)')).toThrow('Unknown name "alert"')
+    expect(() => evaluateExpression('constructor(1)')).toThrow('Unknown name "constructor"')
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end of expression')
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"')
+    expect(() => evaluateExpression('1 $ 2')).toThrow('Unexpected character "$"')
+  })
+})
@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest'
+import { detectArchiveSource, parseArchive } from '../chat-archives'
+import { ImportError, toJSONExport } from '../conversation-export'
+
+// ============================================================
+// Fixtures — trimmed-down exports in each tool's layout
+// ============================================================
+
+const chatGPTMessage = (
+  id: string,
+  role: string,
+  parts: unknown[],
+  extra: Record<string, unknown> = {},
+) => ({
+  id,
+  author: { role },
+  create_time: 1_700_000_000 + Number(id.replace(/\D/g, '') || 0),
+  content: { content_type: 'text', parts },
+  recipient: 'all',
+  metadata: {},
+  ...extra,
+})
+
+// root → system → u1 → a1 (regenerated as a2) ; a2 is current
+const chatGPTExport = [
+  {
+    id: 'gpt-1',
+    title: 'Sourdough help',
+    create_time: 1_700_000_000,
+    update_time: 1_700_000_100,
+    current_node: 'a2',
+    mapping: {
+      root: { id: 'root', message: null, parent: null, children: ['sys'] },
+      sys: {
+        id: 'sys',
+        message: chatGPTMessage('sys', 'system', [''], {
+          metadata: { is_visually_hidden_from_conversation: true },
+        }),
+        parent: 'root',
+        children: ['u1'],
+      },
+      u1: {
+        id: 'u1',
+        message: chatGPTMessage('u1', 'user', ['How do I feed a starter?']),
+        parent: 'sys',
+        children: ['a1', 'a2'],
+      },
+      a1: {
+        id: 'a1',
+        message: chatGPTMessage('a1', 'assistant', ['Flour and water.']),
+        parent: 'u1',
+        children: [],
+      },
+      a2: {
+        id: 'a2',
+        message: chatGPTMessage('a2', 'assistant', ['Equal weights of flour and water, daily.'], {
+          metadata: { model_slug: 'gpt-4o' },
+        }),
+        parent: 'u1',
+        children: ['u3'],
+      },
+      u3: {
+        id: 'u3',
+        message: {
+          ...chatGPTMessage('u3', 'user', [{ asset_pointer: 'file-service://x' }, 'What about this jar?']),
+          content: {
+            content_type: 'multimodal_text',
+            parts: [{ asset_pointer: 'file-service://x' }, 'What about this jar?'],
+          },
+        },
+        parent: 'a2',
+        children: ['t4'],
+      },
+      t4: {
+        id: 't4',
+        message: chatGPTMessage('t4', 'tool', ['browsing result']),
+        parent: 'u3',
+        children: [],
+      },
+    },
+  },
+]
+
+// u1 → a1 / a2 (a1 current)
+const openWebUIExport = [
+  {
+    id: 'owui-1',
+    title: 'Regex question',
+    created_at: 1_710_000_000,
+    updated_at: 1_710_000_500,
+    chat: {
+      params: { system: 'Answer tersely' },
+      history: {
+        currentId: 'a1',
+        messages: {
+          u1: { id: 'u1', parentId: null, childrenIds: ['a1', 'a2'], role: 'user', content: 'Match digits?', timestamp: 1_710_000_010 },
+          a1: { id: 'a1', parentId: 'u1', childrenIds: [], role: 'assistant', content: '\\d+', timestamp: 1_710_000_020, model: 'llama3' },
+          a2: { id: 'a2', parentId: 'u1', childrenIds: [], role: 'assistant', content: '[0-9]+', timestamp: 1_710_000_030, model: 'llama3' },
+        },
+      },
+    },
+  },
+]
+
+const ollamaExport = {
+  model: 'mistral',
+  messages: [
+    { role: 'system', content: 'You are a poet' },
+    { role: 'user', content: 'Write a haiku about rain', images: ['aGVsbG8='] },
+    { role: 'assistant', content: 'Soft rain on the roof' },
+  ],
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('detectArchiveSource', () => {
+  it('recognises each supported export', () => {
+    expect(detectArchiveSource(chatGPTExport)).toBe('chatgpt')
+    expect(detectArchiveSource(openWebUIExport)).toBe('open-webui')
+    expect(detectArchiveSource(ollamaExport)).toBe('ollama')
+    expect(detectArchiveSource(JSON.parse(toJSONExport([])))).toBe('terzillm')
+    expect(detectArchiveSource([{ foo: 1 }])).toBeNull()
+  })
+})
+
+describe('ChatGPT import', () => {
+  it('imports the current branch with text, models and times', () => {
+    const { source, bundles } = parseArchive(JSON.stringify(chatGPTExport))
+    expect(source).toBe('chatgpt')
+    expect(bundles).toHaveLength(1)
+
+    const [{ conversation, messages }] = bundles
+    expect(conversation).toMatchObject({ id: 'gpt-1', title: 'Sourdough help' })
+    expect(conversation.createdAt).toEqual(new Date(1_700_000_000_000))
+    expect(messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'How do I feed a starter?'],
+      ['assistant', 'Equal weights of flour and water, daily.'],
+      ['user', 'What about this jar?'],
+    ])
+    expect(messages[1].metadata).toEqual({ model: 'gpt-4o' })
+    expect(messages.every((m) => m.conversationId === 'gpt-1')).toBe(true)
+    // Strictly increasing so the order survives the time index
+    const times = messages.map((m) => m.createdAt.getTime())
+    expect([...times].sort((a, b) => a - b)).toEqual(times)
+  })
+
+  it('reports what it skipped', () => {
+    const { skipped } = parseArchive(JSON.stringify(chatGPTExport))
+    expect(skipped).toEqual(
+      expect.arrayContaining([
+        { reason: 'alternative branch', count: 1 },
+        { reason: 'image or file attachment', count: 1 },
+        { reason: 'tool output', count: 1 },
+      ]),
+    )
+  })
+
+  it('imports every branch as its own conversation when asked', () => {
+    const { bundles, skipped } = parseArchive(JSON.stringify(chatGPTExport), { allBranches: true })
+    expect(bundles.map((b) => b.conversation.title)).toEqual([
+      'Sourdough help',
+      'Sourdough help (branch 2)',
+    ])
+    expect(bundles[1].messages.map((m) => m.content)).toEqual([
+      'How do I feed a starter?',
+      'Flour and water.',
+    ])
+    expect(bundles[1].messages.every((m) => m.conversationId === bundles[1].conversation.id)).toBe(true)
+    expect(skipped.some((s) => s.reason === 'alternative branch')).toBe(false)
+  })
+
+  it('wraps code content in a fence', () => {
+    const archive = structuredClone(chatGPTExport)
+    archive[0].mapping.a2.message!.content = {
+      content_type: 'code',
+      language: 'python',
+      text: 'print(1)',
+    } as never
+    const [{ messages }] = parseArchive(JSON.stringify(archive)).bundles
+    expect(messages[1].content).toBe('```python\nprint(1)\n```')
+  })
+})
+
+describe('Open WebUI import', () => {
+  it('follows the current branch and keeps the system prompt', () => {
+    const { source, bundles, skipped } = parseArchive(JSON.stringify(openWebUIExport))
+    expect(source).toBe('open-webui')
+    const [{ conversation, messages }] = bundles
+    expect(conversation).toMatchObject({ title: 'Regex question', systemPrompt: 'Answer tersely' })
+    expect(messages.map((m) => m.content)).toEqual(['Match digits?', '\\d+'])
+    expect(messages[1].metadata).toEqual({ model: 'llama3' })
+    expect(skipped).toEqual([{ reason: 'alternative branch', count: 1 }])
+  })
+
+  it('falls back to the flat message list', () => {
+    const archive = [
+      {
+        id: 'flat',
+        chat: {
+          title: 'Flat',
+          messages: [
+            { id: 'x', role: 'user', content: 'hi' },
+            { id: 'y', role: 'assistant', content: 'hello' },
+          ],
+        },
+      },
+    ]
+    const [{ messages }] = parseArchive(JSON.stringify(archive)).bundles
+    expect(messages.map((m) => m.content)).toEqual(['hi', 'hello'])
+  })
+})
+
+describe('Ollama import', () => {
+  it('maps a message log onto one conversation', () => {
+    const { source, bundles, skipped } = parseArchive(JSON.stringify(ollamaExport))
+    expect(source).toBe('ollama')
+    const [{ conversation, messages }] = bundles
+    expect(conversation).toMatchObject({
+      title: 'Write a haiku about rain',
+      modelId: 'mistral',
+      systemPrompt: 'You are a poet',
+    })
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant'])
+    expect(skipped).toEqual([{ reason: 'image or file attachment', count: 1 }])
+  })
+})
+
+describe('parseArchive errors', () => {
+  it('rejects unknown formats', () => {
+    expect(() => parseArchive('{"hello": "world"}')).toThrow(ImportError)
+    expect(() => parseArchive('nope')).toThrow('The file is not valid JSON')
+  })
+
+  it('rejects archives without any text', () => {
+    expect(() => parseArchive(JSON.stringify({ messages: [{ role: 'user', content: '' }] }))).toThrow(
+      'No conversations with text messages found in the Ollama export',
+    )
+  })
+
+  it('passes TerziLLM exports through', () => {
+    const { source, bundles } = parseArchive(
+      toJSONExport([
+        {
+          conversation: { id: 'c1', title: 'Ours', createdAt: new Date(), updatedAt: new Date() },
+          messages: [],
+        },
+      ]),
+    )
+    expect(source).toBe('terzillm')
+    expect(bundles[0].conversation.title).toBe('Ours')
+  })
+})
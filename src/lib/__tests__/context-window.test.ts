@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ContextOverflowError,
+  contextWindowFor,
+  DEFAULT_CONTEXT_WINDOW,
+  estimateMessageTokens,
+  fitToContext,
+  isContextOverflowMessage,
+  summaryPrompt,
+} from '../context-window'
+import type { ContextSettings, Message } from '../../types'
+
+let nextId = 0
+
+function message(role: Message['role'], content: string): Message {
+  return { id: `m${nextId++}`, conversationId: 'c1', role, content, createdAt: new Date() }
+}
+
+// Four turns of ~12 tokens each (4 overhead + 28 chars / 3.5)
+const history = [1, 2, 3, 4].flatMap((n) => [
+  message('user', `question ${n}`.padEnd(28, '.')),
+  message('assistant', `answer ${n}`.padEnd(28, '.')),
+])
+const perMessage = estimateMessageTokens(history[0])
+
+const sliding: ContextSettings = { strategy: 'sliding-window', keepLastN: 20 }
+
+describe('fitToContext', () => {
+  it('keeps everything that fits', () => {
+    expect(fitToContext(history, 1000, sliding)).toEqual({ kept: history, dropped: [] })
+  })
+
+  it('drops whole turns from the front', () => {
+    const { kept, dropped } = fitToContext(history, perMessage * 5, sliding)
+    expect(kept).toEqual(history.slice(4))
+    expect(dropped).toEqual(history.slice(0, 4))
+    expect(kept[0].role).toBe('user')
+  })
+
+  it('keeps a tool call together with its result', () => {
+    const withTools = [
+      ...history.slice(0, 2),
+      message('user', 'use a tool'),
+      {
+        ...message('assistant', ''),
+        toolCalls: [{ id: 't', type: 'function' as const, function: { name: 'x', arguments: '{}' } }],
+      },
+      message('tool', '42'),
+      message('assistant', 'It is 42'),
+    ]
+    const { kept } = fitToContext(withTools, 40, sliding)
+    expect(kept.map((m) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant'])
+  })
+
+  it('keeps only the last N messages, back to a turn start', () => {
+    const { kept } = fitToContext(history, 1000, { strategy: 'keep-last-n', keepLastN: 3 })
+    expect(kept).toEqual(history.slice(4))
+  })
+
+  it('throws when the latest turn alone is too long', () => {
+    expect(() => fitToContext(history, perMessage, sliding)).toThrow(ContextOverflowError)
+  })
+})
+
+describe('helpers', () => {
+  it('looks up context windows with a default for unknown models', () => {
+    expect(contextWindowFor('Llama-3.2-1B-Instruct-q4f16_1-MLC')).toBe(4096)
+    expect(contextWindowFor('some-remote-model')).toBe(DEFAULT_CONTEXT_WINDOW)
+  })
+
+  it('recognizes overflow errors from WebLLM and OpenAI-style servers', () => {
+    expect(isContextOverflowMessage('Prompt tokens exceed context window size: 5000')).toBe(true)
+    expect(isContextOverflowMessage("This model's maximum context length is 8192 tokens")).toBe(true)
+    expect(isContextOverflowMessage('Out of memory')).toBe(false)
+  })
+
+  it('builds a summary prompt that extends an earlier summary', () => {
+    const prompt = summaryPrompt(history.slice(0, 2), 'They met.')
+    expect(prompt).toContain('Earlier summary: They met.')
+    expect(prompt).toContain('user: question 1')
+    expect(prompt).toContain('assistant: answer 1')
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  ImportError,
+  parseJSONExport,
+  remapIds,
+  renderExport,
+  toHTMLExport,
+  toJSONExport,
+  toMarkdownExport,
+  type ConversationBundle,
+} from '../conversation-export'
+
+const created = new Date('2024-05-01T10:00:00Z')
+
+const bundle: ConversationBundle = {
+  conversation: {
+    id: 'c1',
+    title: 'Sorting <arrays>',
+    createdAt: created,
+    updatedAt: new Date('2024-05-01T10:05:00Z'),
+    systemPrompt: 'Be brief',
+    contextSummary: { throughMessageId: 'm1', content: 'Earlier talk' },
+  },
+  messages: [
+    { id: 'm1', conversationId: 'c1', role: 'user', content: 'How do I sort?', createdAt: created },
+    {
+      id: 'm2',
+      conversationId: 'c1',
+      role: 'assistant',
+      content: 'Use sort:\n\n```js\narr.sort((a, b) => a - b)\n```',
+      createdAt: created,
+      toolCalls: [{ id: 'call1', type: 'function', function: { name: 'calculator', arguments: '{"x":1}' } }],
+      metadata: { model: 'test-model', tokensUsed: 12, decodeTokensPerSec: 30 },
+    },
+    { id: 'm3', conversationId: 'c1', role: 'tool', content: '1', createdAt: created, toolCallId: 'call1' },
+  ],
+}
+
+// m1 was edited into m3; the first version's branch is shown
+const branched: ConversationBundle = {
+  conversation: { id: 'b1', title: 'Edited', createdAt: created, updatedAt: created, activeLeafId: 'm2' },
+  messages: [
+    { id: 'm1', conversationId: 'b1', role: 'user', content: 'First try', createdAt: created, parentId: null },
+    { id: 'm2', conversationId: 'b1', role: 'assistant', content: 'Reply one', createdAt: new Date(created.getTime() + 1), parentId: 'm1' },
+    { id: 'm3', conversationId: 'b1', role: 'user', content: 'Second try', createdAt: new Date(created.getTime() + 2), parentId: null },
+  ],
+}
+
+function importError(text: string): ImportError {
+  try {
+    parseJSONExport(text)
+  } catch (err) {
+    return err as ImportError
+  }
+  throw new Error('expected the import to fail')
+}
+
+describe('JSON export', () => {
+  it('keeps every branch', () => {
+    expect(parseJSONExport(toJSONExport([branched]))).toEqual([branched])
+  })
+
+  it('round-trips conversations, messages and metadata', () => {
+    const text = toJSONExport([bundle])
+    expect(JSON.parse(text)).toMatchObject({ format: EXPORT_FORMAT, version: EXPORT_VERSION })
+    expect(parseJSONExport(text)).toEqual([bundle])
+  })
+
+  it('round-trips pins, archiving, folders and tags', () => {
+    const organized: ConversationBundle = {
+      conversation: {
+        ...branched.conversation,
+        pinnedAt: new Date('2024-05-02T09:00:00Z'),
+        archivedAt: new Date('2024-05-03T09:00:00Z'),
+        folderId: 'f1',
+        tagIds: ['t1', 't2'],
+      },
+      messages: branched.messages,
+    }
+    expect(parseJSONExport(toJSONExport([organized]))).toEqual([organized])
+  })
+
+  it('rejects files that are not exports', () => {
+    expect(importError('not json').message).toBe('The file is not valid JSON')
+    expect(importError('{"conversations": []}').message).toBe(
+      'The file is not a TerziLLM conversation export',
+    )
+  })
+
+  it('rejects files from a newer version', () => {
+    const text = JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION + 1, conversations: [] })
+    expect(importError(text).message).toMatch(/newer version/)
+  })
+
+  it('lists every problem in a malformed file', () => {
+    const file = JSON.parse(toJSONExport([bundle]))
+    delete file.conversations[0].title
+    file.conversations[0].messages[0].role = 'robot'
+    file.conversations[0].messages[1].createdAt = 'yesterday'
+
+    const error = importError(JSON.stringify(file))
+    expect(error).toBeInstanceOf(ImportError)
+    expect(error.problems).toEqual([
+      '$.conversations[0]: missing required property "title"',
+      '$.conversations[0].messages[0].role: must be one of "user", "assistant", "system", "tool"',
+    ])
+
+    file.conversations[0].title = 'Back'
+    file.conversations[0].messages[0].role = 'user'
+    expect(importError(JSON.stringify(file)).problems).toEqual([
+      '$.conversations[0].messages[1].createdAt: not a valid date',
+    ])
+  })
+})
+
+describe('remapIds', () => {
+  let counter = 0
+  const newId = () => `new-${++counter}`
+
+  it('keeps IDs that are free', () => {
+    const [result] = remapIds([bundle], { conversationIds: new Set(), messageIds: new Set() }, newId)
+    expect(result).toEqual(bundle)
+  })
+
+  it('renames colliding IDs and keeps references intact', () => {
+    counter = 0
+    const [result] = remapIds(
+      [bundle],
+      { conversationIds: new Set(['c1']), messageIds: new Set(['m1']) },
+      newId,
+    )
+    expect(result.conversation.id).toBe('new-1')
+    expect(result.conversation.contextSummary?.throughMessageId).toBe('new-2')
+    expect(result.messages.map((m) => m.id)).toEqual(['new-2', 'm2', 'm3'])
+    expect(result.messages.every((m) => m.conversationId === 'new-1')).toBe(true)
+    // Tool results still point at their call
+    expect(result.messages[2].toolCallId).toBe('call1')
+  })
+
+  it('renames duplicates within the same file', () => {
+    counter = 0
+    const [first, second] = remapIds(
+      [bundle, bundle],
+      { conversationIds: new Set(), messageIds: new Set() },
+      newId,
+    )
+    expect(first.conversation.id).toBe('c1')
+    expect(second.conversation.id).not.toBe('c1')
+    expect(new Set([...first.messages, ...second.messages].map((m) => m.id)).size).toBe(6)
+  })
+
+  it('keeps branches pointing at their renamed parents', () => {
+    counter = 0
+    const [result] = remapIds(
+      [branched],
+      { conversationIds: new Set(), messageIds: new Set(['m1', 'm2']) },
+      newId,
+    )
+    expect(result.messages.map((m) => [m.id, m.parentId])).toEqual([
+      ['new-1', null],
+      ['new-2', 'new-1'],
+      ['m3', null],
+    ])
+    expect(result.conversation.activeLeafId).toBe('new-2')
+  })
+})
+
+describe('Markdown export', () => {
+  it('writes a heading per conversation and per message', () => {
+    const markdown = toMarkdownExport([bundle])
+    expect(markdown).toContain('# Sorting <arrays>')
+    expect(markdown).toContain('### You\n\nHow do I sort?')
+    expect(markdown).toContain('```js\narr.sort((a, b) => a - b)\n```')
+    expect(markdown).toContain('Called `calculator`:\n\n```json\n{\n  "x": 1\n}\n```')
+    expect(markdown).toContain('### Tool result\n\n```\n1\n```')
+  })
+
+  it('separates conversations', () => {
+    expect(toMarkdownExport([bundle, bundle]).split('\n---\n')).toHaveLength(2)
+  })
+
+  it('writes only the branch being shown', () => {
+    const markdown = toMarkdownExport([branched])
+    expect(markdown).toContain('First try')
+    expect(markdown).toContain('Reply one')
+    expect(markdown).not.toContain('Second try')
+  })
+})
+
+describe('HTML export', () => {
+  it('produces a standalone page without scripts', () => {
+    const html = toHTMLExport([bundle])
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<title>Sorting &lt;arrays&gt;</title>')
+    expect(html).toContain('<style>')
+    expect(html).not.toContain('<script')
+  })
+
+  it('escapes content and keeps code blocks', () => {
+    const html = toHTMLExport([bundle])
+    expect(html).toContain('<pre><code>arr.sort((a, b) =&gt; a - b)</code></pre>')
+    expect(html).toContain('<p>How do I sort?</p>')
+  })
+})
+
+describe('renderExport', () => {
+  it('names single-conversation files after the title', () => {
+    expect(renderExport([bundle], 'markdown')).toMatchObject({
+      filename: 'sorting-arrays.md',
+      type: 'text/markdown',
+    })
+  })
+
+  it('names bulk exports by date', () => {
+    expect(renderExport([bundle, bundle], 'html').filename).toMatch(
+      /^terzillm-conversations-\d{4}-\d{2}-\d{2}\.html$/,
+    )
+  })
+})
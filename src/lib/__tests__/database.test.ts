@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest'
+import { openDB, deleteDB } from 'idb'
 import {
   resetDB,
+  getDB,
   createConversation,
   getConversation,
   listConversations,
@@ -8,10 +10,37 @@ import {
   deleteConversation,
   addMessage,
   getMessages,
+  getAllMessages,
+  getMessagePage,
+  getLatestMessages,
+  getEarlierMessages,
+  setActiveLeaf,
+  deleteMessage,
+  trashConversation,
+  restoreConversation,
+  trashMessage,
+  restoreMessage,
+  purgeMessage,
+  listTrash,
+  purgeTrash,
+  searchIndex,
+  importConversations,
+  getConversationBundles,
   getSetting,
   setSetting,
   deleteSetting,
+  listPresets,
+  savePreset,
+  deletePreset,
+  organizeConversation,
+  listFolders,
+  saveFolder,
+  deleteFolder,
+  listTags,
+  saveTag,
+  deleteTag,
 } from '../database'
+import { BUILTIN_PRESETS } from '../presets'
 import type { Message } from '../../types'
 
 beforeEach(() => {
@@ -71,6 +100,25 @@ describe('Conversations', () => {
     expect(await getMessages('c1')).toHaveLength(0)
   })
 
+  it('stores and clears per-conversation settings', async () => {
+    await createConversation('c1', 'Tuned')
+    await updateConversation('c1', {
+      modelId: 'test-model',
+      systemPrompt: 'Be brief.',
+      generationConfig: { seed: 1 },
+    })
+    expect(await getConversation('c1')).toMatchObject({
+      modelId: 'test-model',
+      systemPrompt: 'Be brief.',
+      generationConfig: { seed: 1 },
+    })
+
+    await updateConversation('c1', { systemPrompt: undefined })
+    const conv = await getConversation('c1')
+    expect(conv!.systemPrompt).toBeUndefined()
+    expect(conv!.modelId).toBe('test-model')
+  })
+
   it('returns undefined for non-existent conversation', async () => {
     const conv = await getConversation('nonexistent')
     expect(conv).toBeUndefined()
@@ -176,6 +224,261 @@ describe('Messages', () => {
 // Settings CRUD
 // ============================================================
 
+describe('Branches', () => {
+  let clock = Date.now()
+  const reply = (id: string, parentId: string | null, role: Message['role'] = 'user'): Message => ({
+    id,
+    conversationId: 'branch-c1',
+    role,
+    content: id,
+    createdAt: new Date(++clock),
+    parentId,
+  })
+
+  it('shows the branch of the newest message and switches between branches', async () => {
+    await createConversation('branch-c1', 'Forked')
+    await addMessage(reply('branch-u1', null))
+    await addMessage(reply('branch-a1', 'branch-u1', 'assistant'))
+    // The first message was edited and resent
+    await addMessage(reply('branch-u1b', null))
+    await addMessage(reply('branch-a1b', 'branch-u1b', 'assistant'))
+
+    expect((await getConversation('branch-c1'))!.activeLeafId).toBe('branch-a1b')
+    expect((await getMessages('branch-c1')).map((m) => m.id)).toEqual(['branch-u1b', 'branch-a1b'])
+    expect(await getAllMessages('branch-c1')).toHaveLength(4)
+
+    const { updatedAt } = (await getConversation('branch-c1'))!
+    await setActiveLeaf('branch-c1', 'branch-a1')
+    expect((await getMessages('branch-c1')).map((m) => m.id)).toEqual(['branch-u1', 'branch-a1'])
+    expect((await getConversation('branch-c1'))!.updatedAt).toEqual(updatedAt)
+  })
+
+  it('deletes every branch with the conversation', async () => {
+    await deleteConversation('branch-c1')
+    expect(await getAllMessages('branch-c1')).toEqual([])
+  })
+})
+
+describe('Pages', () => {
+  const at = new Date('2024-03-01T12:00:00Z').getTime()
+  const page = (id: string, offset: number, parentId: string | null): Message => ({
+    id,
+    conversationId: 'page-c1',
+    role: 'user',
+    content: id,
+    createdAt: new Date(at + offset),
+    parentId,
+  })
+  const ids = (messages: Message[]) => messages.map((m) => m.id)
+
+  // m1 ─ m2 ─ m3 ─ m4 ─ m5 ─ m6, where m3, m4 and m5 share a
+  // timestamp, and m2b is an edit of m2 made last
+  it('reads back through a conversation a page at a time', async () => {
+    await createConversation('page-c1', 'Long')
+    await addMessage(page('page-m1', 0, null))
+    await addMessage(page('page-m2', 1, 'page-m1'))
+    await addMessage(page('page-m3', 2, 'page-m2'))
+    await addMessage(page('page-m4', 2, 'page-m3'))
+    await addMessage(page('page-m5', 2, 'page-m4'))
+    await addMessage(page('page-m6', 3, 'page-m5'))
+
+    const newest = await getMessagePage('page-c1', undefined, 2)
+    expect(ids(newest.messages)).toEqual(['page-m5', 'page-m6'])
+    expect(newest.hasMore).toBe(true)
+
+    const middle = await getMessagePage('page-c1', newest.messages[0], 2)
+    expect(ids(middle.messages)).toEqual(['page-m3', 'page-m4'])
+
+    const oldest = await getMessagePage('page-c1', middle.messages[0], 2)
+    expect(ids(oldest.messages)).toEqual(['page-m1', 'page-m2'])
+    expect(oldest.hasMore).toBe(false)
+  })
+
+  it('leaves trashed messages out of pages', async () => {
+    await addMessage(page('page-m7', 4, 'page-m6'))
+    await trashMessage('page-m7')
+    expect(ids((await getMessagePage('page-c1', undefined, 1)).messages)).toEqual(['page-m6'])
+    await purgeMessage('page-m7')
+  })
+
+  it('loads back far enough to reach the branch being shown', async () => {
+    await addMessage(page('page-m2b', 5, 'page-m1'))
+    await setActiveLeaf('page-c1', 'page-m6')
+
+    const latest = await getLatestMessages('page-c1', 1)
+    expect(latest.activeLeafId).toBe('page-m6')
+    expect(ids(latest.messages)).toEqual(['page-m6', 'page-m2b'])
+    expect(latest.hasMore).toBe(true)
+  })
+
+  it('finds the earlier part of a branch', async () => {
+    expect(ids(await getEarlierMessages('page-c1', 'page-m4'))).toEqual([
+      'page-m1',
+      'page-m2',
+      'page-m3',
+    ])
+  })
+
+  it('reads back only as far as the token limit, or the message asked for', async () => {
+    expect(ids(await getEarlierMessages('page-c1', 'page-m4', { maxTokens: 1 }))).toEqual([
+      'page-m3',
+    ])
+    const through = await getEarlierMessages('page-c1', 'page-m4', {
+      maxTokens: 1,
+      throughId: 'page-m2',
+    })
+    expect(ids(through)).toEqual(['page-m2', 'page-m3'])
+  })
+
+  it('follows messages saved before branching in time order', async () => {
+    await createConversation('page-c2', 'Legacy')
+    await addMessage({ ...page('page-l1', 0, null), conversationId: 'page-c2', parentId: undefined })
+    await addMessage({ ...page('page-l2', 1, null), conversationId: 'page-c2', parentId: undefined })
+    await addMessage({ ...page('page-l3', 2, null), conversationId: 'page-c2', parentId: undefined })
+
+    expect(ids(await getEarlierMessages('page-c2', 'page-l3'))).toEqual(['page-l1', 'page-l2'])
+    await deleteConversation('page-c2')
+  })
+})
+
+describe('Trash', () => {
+  let clock = Date.now()
+  const reply = (id: string, parentId: string | null, role: Message['role'] = 'user'): Message => ({
+    id,
+    conversationId: 'trash-c1',
+    role,
+    content: `${id} wombat`,
+    createdAt: new Date(++clock),
+    parentId,
+  })
+
+  it('hides a trashed conversation from the list and search until restored', async () => {
+    await createConversation('trash-c2', 'Binned')
+    await addMessage({ ...reply('trash-x1', null), conversationId: 'trash-c2', content: 'platypus' })
+
+    await trashConversation('trash-c2')
+    expect((await listConversations()).some((c) => c.id === 'trash-c2')).toBe(false)
+    expect(await searchIndex('platypus')).toEqual([])
+
+    await restoreConversation('trash-c2')
+    expect((await getConversation('trash-c2'))!.deletedAt).toBeUndefined()
+    expect((await searchIndex('platypus')).map((h) => h.message.id)).toEqual(['trash-x1'])
+  })
+
+  it('trashes a message with its replies and shows another version', async () => {
+    await createConversation('trash-c1', 'Messages')
+    await addMessage(reply('trash-u1', null))
+    await addMessage(reply('trash-a1', 'trash-u1', 'assistant'))
+    await addMessage(reply('trash-u2', 'trash-a1'))
+    await addMessage(reply('trash-a2', 'trash-u2', 'assistant'))
+    await addMessage(reply('trash-a1b', 'trash-u1', 'assistant'))
+    await setActiveLeaf('trash-c1', 'trash-a2')
+
+    const trashed = await trashMessage('trash-a1')
+    expect(trashed.map((m) => m.id).sort()).toEqual(['trash-a1', 'trash-a2', 'trash-u2'])
+    expect((await getMessages('trash-c1')).map((m) => m.id)).toEqual(['trash-u1', 'trash-a1b'])
+    expect((await searchIndex('wombat')).map((h) => h.message.id).sort()).toEqual([
+      'trash-a1b',
+      'trash-u1',
+    ])
+
+    const trash = await listTrash()
+    const item = trash.find((i) => i.kind === 'message' && i.message.id === 'trash-a1')
+    expect(item).toMatchObject({ conversationTitle: 'Messages', count: 3 })
+    expect(trash.some((i) => i.kind === 'message' && i.message.id === 'trash-u2')).toBe(false)
+  })
+
+  it('restores a message with the replies deleted along with it', async () => {
+    await restoreMessage('trash-a1')
+    expect((await getMessages('trash-c1')).map((m) => m.id)).toEqual([
+      'trash-u1',
+      'trash-a1',
+      'trash-u2',
+      'trash-a2',
+    ])
+    expect(await searchIndex('wombat')).toHaveLength(5)
+  })
+
+  it('purges only what was trashed before the cutoff', async () => {
+    const day = 24 * 60 * 60 * 1000
+    await trashMessage('trash-a2', new Date(Date.now() - 10 * day))
+    await trashConversation('trash-c2', new Date(Date.now() - day))
+
+    const kept = await purgeTrash(new Date(Date.now() - 5 * day))
+    expect(await getAllMessages('trash-c1')).toHaveLength(4)
+    expect(kept.map((i) => i.kind)).toEqual(['conversation'])
+    expect(await listTrash()).toEqual(kept)
+
+    expect(await purgeTrash()).toEqual([])
+    expect(await getConversation('trash-c2')).toBeUndefined()
+    expect(await listTrash()).toEqual([])
+  })
+})
+
+describe('Organization', () => {
+  it('files and tags a conversation without counting as an update', async () => {
+    const conv = await createConversation('org-c1', 'Filed')
+    await organizeConversation('org-c1', {
+      pinnedAt: new Date(),
+      folderId: 'org-f1',
+      tagIds: ['org-t1'],
+    })
+
+    const stored = (await getConversation('org-c1'))!
+    expect(stored).toMatchObject({ folderId: 'org-f1', tagIds: ['org-t1'] })
+    expect(stored.pinnedAt).toBeInstanceOf(Date)
+    expect(stored.updatedAt).toEqual(conv.updatedAt)
+
+    await organizeConversation('org-c1', { pinnedAt: undefined })
+    expect((await getConversation('org-c1'))!.pinnedAt).toBeUndefined()
+  })
+
+  it('moves what a deleted folder held up to its parent', async () => {
+    await saveFolder({ id: 'org-f0', name: 'Parent', parentId: null, createdAt: new Date() })
+    await saveFolder({ id: 'org-f1', name: 'Child', parentId: 'org-f0', createdAt: new Date() })
+    await saveFolder({ id: 'org-f2', name: 'Grandchild', parentId: 'org-f1', createdAt: new Date() })
+
+    await deleteFolder('org-f1')
+    const folders = await listFolders()
+    expect(folders.some((f) => f.id === 'org-f1')).toBe(false)
+    expect(folders.find((f) => f.id === 'org-f2')!.parentId).toBe('org-f0')
+    expect((await getConversation('org-c1'))!.folderId).toBe('org-f0')
+
+    await deleteFolder('org-f0')
+    expect((await getConversation('org-c1'))!.folderId).toBeUndefined()
+  })
+
+  it('takes a deleted tag off conversations', async () => {
+    await saveTag({ id: 'org-t1', name: 'Work', color: 'sky' })
+    await saveTag({ id: 'org-t2', name: 'Ideas', color: 'amber' })
+    await organizeConversation('org-c1', { tagIds: ['org-t1', 'org-t2'] })
+
+    await deleteTag('org-t1')
+    expect((await listTags()).filter((t) => t.id.startsWith('org-')).map((t) => t.name)).toEqual([
+      'Ideas',
+    ])
+    expect((await getConversation('org-c1'))!.tagIds).toEqual(['org-t2'])
+  })
+
+  it('drops references to folders and tags that do not exist on import', async () => {
+    const [imported] = await importConversations([
+      {
+        conversation: {
+          id: 'org-c2',
+          title: 'From elsewhere',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          folderId: 'org-missing',
+          tagIds: ['org-t2', 'org-missing'],
+        },
+        messages: [],
+      },
+    ])
+    expect(imported.folderId).toBeUndefined()
+    expect(imported.tagIds).toEqual(['org-t2'])
+  })
+})
+
 describe('Settings', () => {
   it('sets and gets a string setting', async () => {
     await setSetting('theme', 'dark')
@@ -209,3 +512,170 @@ describe('Settings', () => {
     expect(val).toBeUndefined()
   })
 })
+
+// ============================================================
+// Presets & migrations
+// ============================================================
+
+describe('Presets', () => {
+  it('seeds the built-in presets', async () => {
+    const presets = await listPresets()
+    expect(presets.map((p) => p.name)).toEqual(expect.arrayContaining(['Precise', 'Creative', 'Code']))
+    expect(presets.every((p) => p.builtIn)).toBe(true)
+  })
+
+  it('saves and deletes custom presets after the built-in ones', async () => {
+    await savePreset({ id: 'p1', name: 'Alpha', config: { temperature: 0.5 } })
+    const presets = await listPresets()
+    expect(presets[presets.length - 1].id).toBe('p1')
+
+    await deletePreset('p1')
+    expect((await listPresets()).some((p) => p.id === 'p1')).toBe(false)
+  })
+
+  it('refuses to delete a built-in preset', async () => {
+    await expect(deletePreset('builtin-code')).rejects.toThrow('Preset "Code" is built in')
+  })
+
+  it('upgrades a v1 database without losing conversations', async () => {
+    // Open connections close themselves when the database is deleted
+    await getDB()
+    resetDB()
+    await deleteDB('terzillm')
+
+    const v1 = await openDB('terzillm', 1, {
+      upgrade(db) {
+        const convStore = db.createObjectStore('conversations', { keyPath: 'id' })
+        convStore.createIndex('by-updatedAt', 'updatedAt')
+        const msgStore = db.createObjectStore('messages', { keyPath: 'id' })
+        msgStore.createIndex('by-conversationId', 'conversationId')
+        db.createObjectStore('settings', { keyPath: 'key' })
+      },
+    })
+    const now = new Date()
+    await v1.put('conversations', { id: 'old', title: 'From v1', createdAt: now, updatedAt: now })
+    v1.close()
+
+    const conv = await getConversation('old')
+    expect(conv!.title).toBe('From v1')
+    expect(await listPresets()).toHaveLength(BUILTIN_PRESETS.length)
+  })
+})
+
+// ============================================================
+// Full-text search
+// ============================================================
+
+describe('Search index', () => {
+  const message = (
+    id: string,
+    conversationId: string,
+    content: string,
+    role: Message['role'] = 'user',
+  ): Message => ({
+    id,
+    conversationId,
+    role,
+    content,
+    createdAt: new Date(),
+  })
+
+  beforeEach(async () => {
+    await createConversation('c1', 'Cooking')
+    await createConversation('c2', 'Travel')
+    await addMessage(message('m1', 'c1', 'How long should pasta boil?'))
+    await addMessage(message('m2', 'c1', 'Boil pasta for 8 minutes. Pasta water should be salted.', 'assistant'))
+    await addMessage(message('m3', 'c2', 'Best time to visit Rome for pasta?'))
+  })
+
+  it('ranks messages across conversations', async () => {
+    const hits = await searchIndex('pasta')
+    expect(hits.map((h) => h.message.id)[0]).toBe('m2')
+    expect(hits.map((h) => h.message.id).sort()).toEqual(['m1', 'm2', 'm3'])
+  })
+
+  it('requires every word and matches word prefixes', async () => {
+    expect((await searchIndex('pasta rom')).map((h) => h.message.id)).toEqual(['m3'])
+    expect((await searchIndex('BOIL past')).map((h) => h.message.id).sort()).toEqual(['m1', 'm2'])
+    expect(await searchIndex('pizza')).toEqual([])
+  })
+
+  it('leaves tool results out of the index', async () => {
+    await addMessage({ ...message('t1', 'c1', 'pasta recipe lookup', 'tool'), toolCallId: 'call' })
+    expect(await searchIndex('recipe')).toEqual([])
+  })
+
+  it('reindexes a message that is saved again', async () => {
+    await addMessage(message('m1', 'c1', 'How long should rice cook?'))
+    expect((await searchIndex('rice')).map((h) => h.message.id)).toEqual(['m1'])
+    expect((await searchIndex('pasta boil')).map((h) => h.message.id)).toEqual(['m2'])
+  })
+
+  it('drops deleted messages and conversations', async () => {
+    await deleteMessage('m2')
+    expect((await searchIndex('boil')).map((h) => h.message.id)).toEqual(['m1'])
+
+    await deleteConversation('c1')
+    expect((await searchIndex('pasta')).map((h) => h.message.id)).toEqual(['m3'])
+  })
+})
+
+// ============================================================
+// Import
+// ============================================================
+
+describe('Import', () => {
+  it('recreates conversations and keeps existing ones on collision', async () => {
+    await createConversation('import-c1', 'Already here')
+    await addMessage({
+      id: 'import-m1',
+      conversationId: 'import-c1',
+      role: 'user',
+      content: 'original',
+      createdAt: new Date(),
+    })
+
+    const imported = await importConversations([
+      {
+        conversation: { id: 'import-c1', title: 'Imported', createdAt: new Date(), updatedAt: new Date() },
+        messages: [
+          {
+            id: 'import-m1',
+            conversationId: 'import-c1',
+            role: 'user',
+            content: 'imported quokka',
+            createdAt: new Date(),
+          },
+        ],
+      },
+    ])
+
+    expect(imported).toHaveLength(1)
+    expect(imported[0].id).not.toBe('import-c1')
+    expect((await getConversation('import-c1'))!.title).toBe('Already here')
+    expect((await getMessages('import-c1')).map((m) => m.content)).toEqual(['original'])
+
+    const messages = await getMessages(imported[0].id)
+    expect(messages.map((m) => m.content)).toEqual(['imported quokka'])
+    expect(messages[0].id).not.toBe('import-m1')
+    expect((await searchIndex('quokka')).map((h) => h.message.id)).toEqual([messages[0].id])
+  })
+
+  it('exports conversations with their messages', async () => {
+    await createConversation('import-c1', 'One')
+    await createConversation('import-c2', 'Two')
+    await addMessage({
+      id: 'import-m1',
+      conversationId: 'import-c2',
+      role: 'user',
+      content: 'hi',
+      createdAt: new Date(),
+    })
+
+    const [bundle] = await getConversationBundles(['import-c2'])
+    expect(bundle.conversation.title).toBe('Two')
+    expect(bundle.messages.map((m) => m.id)).toEqual(['import-m1'])
+    const all = (await getConversationBundles()).map((b) => b.conversation.id)
+    expect(all).toEqual(expect.arrayContaining(['import-c1', 'import-c2']))
+  })
+})
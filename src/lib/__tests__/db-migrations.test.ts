@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { openDB, deleteDB, type IDBPDatabase } from 'idb'
+import {
+  resetDB,
+  getDB,
+  getConversation,
+  getMessages,
+  listPresets,
+  listTrash,
+  getMigrationBackup,
+  searchIndex,
+  type TerziDBSchema,
+} from '../database'
+import {
+  LATEST_VERSION,
+  MIGRATIONS,
+  MigrationError,
+  runMigrations,
+  type DatabaseBackup,
+  type Migration,
+} from '../db-migrations'
+import { BUILTIN_PRESETS } from '../presets'
+import { postingsFor } from '../search'
+
+// Start every test from an empty database
+beforeEach(async () => {
+  // Open connections close themselves when the database is deleted
+  await getDB()
+  resetDB()
+  await deleteDB('terzillm')
+})
+
+/** Create the database as an older release would have left it */
+function openAtVersion(version: number, migrations: Migration[] = MIGRATIONS) {
+  return openDB<TerziDBSchema>('terzillm', version, {
+    upgrade(db, oldVersion, _newVersion, tx) {
+      runMigrations(db, tx, oldVersion, version, migrations).catch(() => {
+        tx.done.catch(() => {})
+        tx.abort()
+      })
+    },
+  })
+}
+
+// jsdom's Blob has no text()
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(blob)
+  })
+}
+
+// Rows as an older release could have written them: before version
+// 5 timestamps could be strings, message ids never sorted in time
+// order, and from version 3 messages were indexed as they were saved
+async function seedLegacyData(db: IDBPDatabase<TerziDBSchema>) {
+  const legacy = (value: object) => value as never
+  const stamp = (iso: string) => (db.version < 5 ? iso : new Date(iso))
+  await db.put(
+    'conversations',
+    legacy({ id: 'old', title: 'Old chat', createdAt: stamp('2024-01-01T00:00:00Z'), updatedAt: stamp('2024-01-02T00:00:00Z') }),
+  )
+  await db.put(
+    'messages',
+    legacy({ id: 'b', conversationId: 'old', role: 'user', content: 'first', createdAt: stamp('2024-01-01T00:00:00Z') }),
+  )
+  await db.put(
+    'messages',
+    legacy({ id: 'a', conversationId: 'old', role: 'assistant', content: 'second', createdAt: new Date('2024-01-01T00:01:00Z') }),
+  )
+  if (db.objectStoreNames.contains('searchIndex')) {
+    for (const message of await db.getAll('messages')) {
+      for (const posting of postingsFor(message)) await db.put('searchIndex', posting)
+    }
+  }
+}
+
+describe('Migrations', () => {
+  it('are numbered consecutively from 1', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      Array.from({ length: LATEST_VERSION }, (_, i) => i + 1),
+    )
+  })
+
+  it('creates the latest schema on a fresh install without a backup', async () => {
+    const db = await getDB()
+    expect(db.version).toBe(LATEST_VERSION)
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([
+      'conversations',
+      'folders',
+      'messages',
+      'presets',
+      'searchIndex',
+      'settings',
+      'tags',
+    ])
+    expect(getMigrationBackup()).toBeNull()
+  })
+
+  for (let version = 1; version < LATEST_VERSION; version++) {
+    it(`upgrades a version ${version} database`, async () => {
+      const old = await openAtVersion(version)
+      await seedLegacyData(old)
+      const deletedAt = new Date('2024-01-03T00:00:00Z')
+      await old.put('conversations', {
+        id: 'gone',
+        title: 'Trashed chat',
+        createdAt: deletedAt,
+        updatedAt: deletedAt,
+        deletedAt,
+      })
+      old.close()
+
+      const conv = await getConversation('old')
+      expect(conv!.title).toBe('Old chat')
+      expect(conv!.createdAt).toBeInstanceOf(Date)
+      expect(conv!.updatedAt).toEqual(new Date('2024-01-02T00:00:00Z'))
+
+      const messages = await getMessages('old')
+      expect(messages.map((m) => m.content)).toEqual(['first', 'second'])
+      expect(messages[0].createdAt).toBeInstanceOf(Date)
+
+      expect(await listPresets()).toHaveLength(BUILTIN_PRESETS.length)
+
+      const hits = await searchIndex('second')
+      expect(hits.map((h) => h.message.id)).toEqual(['a'])
+
+      const trash = await listTrash()
+      expect(trash).toEqual([
+        { kind: 'conversation', conversation: expect.objectContaining({ id: 'gone' }) },
+      ])
+    })
+
+    it(`backs up a version ${version} database before upgrading`, async () => {
+      const old = await openAtVersion(version)
+      await seedLegacyData(old)
+      old.close()
+
+      await getDB()
+      const backup = getMigrationBackup()
+      expect(backup).toMatchObject({ fromVersion: version, toVersion: LATEST_VERSION })
+
+      const snapshot: DatabaseBackup = JSON.parse(await readBlob(backup!.blob))
+      expect(snapshot.version).toBe(version)
+      expect(snapshot.stores.conversations).toEqual([
+        expect.objectContaining({ id: 'old', title: 'Old chat' }),
+      ])
+      expect(snapshot.stores.messages).toHaveLength(2)
+    })
+  }
+
+  it('rolls back every step when one fails', async () => {
+    const old = await openAtVersion(1)
+    await seedLegacyData(old)
+    old.close()
+
+    const failing: Migration[] = [
+      ...MIGRATIONS.slice(0, 1),
+      {
+        version: 2,
+        description: 'Clears messages, then fails',
+        async migrate(_db, tx) {
+          await tx.objectStore('messages').clear()
+          throw new Error('boom')
+        },
+      },
+    ]
+    await expect(openAtVersion(2, failing)).rejects.toThrow()
+
+    const db = await openDB<TerziDBSchema>('terzillm')
+    expect(db.version).toBe(1)
+    expect(await db.count('messages')).toBe(2)
+    db.close()
+  })
+
+  it('reports which step failed', async () => {
+    const failing: Migration = {
+      version: 1,
+      description: 'Always fails',
+      migrate() {
+        throw new Error('boom')
+      },
+    }
+    const error = await runMigrations(null as never, null as never, 0, 1, [failing]).catch(
+      (err: unknown) => err,
+    )
+    expect(error).toBeInstanceOf(MigrationError)
+    expect(error).toMatchObject({
+      version: 1,
+      message: 'Database migration to version 1 failed: boom',
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createFrameThrottle } from '../frame-throttle'
+
+function manualFrames() {
+  const callbacks = new Map<number, () => void>()
+  let nextHandle = 1
+  return {
+    schedule: (callback: () => void) => {
+      callbacks.set(nextHandle, callback)
+      return nextHandle++
+    },
+    unschedule: (handle: number) => callbacks.delete(handle),
+    runFrame: () => {
+      const pending = [...callbacks.values()]
+      callbacks.clear()
+      pending.forEach((callback) => callback())
+    },
+    get scheduled() {
+      return callbacks.size
+    },
+  }
+}
+
+describe('createFrameThrottle', () => {
+  it('delivers only the latest value once per frame', () => {
+    const frames = manualFrames()
+    const deliver = vi.fn()
+    const throttle = createFrameThrottle(deliver, frames.schedule, frames.unschedule)
+
+    throttle.push('a')
+    throttle.push('ab')
+    throttle.push('abc')
+    expect(frames.scheduled).toBe(1)
+    expect(deliver).not.toHaveBeenCalled()
+
+    frames.runFrame()
+    expect(deliver).toHaveBeenCalledTimes(1)
+    expect(deliver).toHaveBeenCalledWith('abc')
+
+    throttle.push('abcd')
+    frames.runFrame()
+    expect(deliver).toHaveBeenLastCalledWith('abcd')
+  })
+
+  it('flushes immediately and cancels pending values', () => {
+    const frames = manualFrames()
+    const deliver = vi.fn()
+    const throttle = createFrameThrottle(deliver, frames.schedule, frames.unschedule)
+
+    throttle.push('now')
+    throttle.flush()
+    expect(deliver).toHaveBeenCalledWith('now')
+    expect(frames.scheduled).toBe(0)
+
+    throttle.push('never')
+    throttle.cancel()
+    frames.runFrame()
+    expect(deliver).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseGenerationSettings,
+  toGenerationSettingsForm,
+  type GenerationSettingsForm,
+} from '../generation-settings'
+
+const empty = toGenerationSettingsForm({})
+
+function parse(fields: Partial<GenerationSettingsForm>) {
+  return parseGenerationSettings({ ...empty, ...fields })
+}
+
+describe('parseGenerationSettings', () => {
+  it('leaves empty fields at the model default', () => {
+    expect(parse({})).toEqual({ settings: {}, errors: {} })
+  })
+
+  it('parses every sampling field', () => {
+    const { settings, errors } = parse({
+      temperature: '0.7',
+      top_p: '1',
+      max_tokens: '256',
+      frequency_penalty: '-0.5',
+      presence_penalty: '0.5',
+      repetition_penalty: '1.1',
+      seed: '42',
+      n: '1',
+      stop: '###\n\nEND\n\\n\\n',
+      logit_bias: '50256: -100\n13=5.5',
+    })
+    expect(errors).toEqual({})
+    expect(settings).toEqual({
+      temperature: 0.7,
+      top_p: 1,
+      max_tokens: 256,
+      frequency_penalty: -0.5,
+      presence_penalty: 0.5,
+      repetition_penalty: 1.1,
+      seed: 42,
+      n: 1,
+      stop: ['###', 'END', '\n\n'],
+      logit_bias: { '50256': -100, '13': 5.5 },
+    })
+  })
+
+  it('rejects out-of-range values', () => {
+    const { settings, errors } = parse({
+      temperature: '3',
+      top_p: '0',
+      max_tokens: '0',
+      repetition_penalty: '0',
+      seed: '1.5',
+      n: '2',
+      presence_penalty: 'abc',
+    })
+    expect(settings).toEqual({})
+    expect(errors).toEqual({
+      temperature: 'Must be at least 0 and at most 2',
+      top_p: 'Must be greater than 0 and at most 1',
+      max_tokens: 'Must be at least 1',
+      repetition_penalty: 'Must be greater than 0',
+      seed: 'Must be a whole number',
+      n: 'Must be 1',
+      presence_penalty: 'Must be a number',
+    })
+  })
+
+  it('rejects malformed or out-of-range logit bias', () => {
+    expect(parse({ logit_bias: 'hello: 1' }).errors.logit_bias).toBe(
+      'Expected "tokenId: bias", got "hello: 1"',
+    )
+    expect(parse({ logit_bias: '42: 101' }).errors.logit_bias).toBe(
+      'Bias for token 42 must be between -100 and 100',
+    )
+  })
+
+  it('round-trips through the form', () => {
+    const settings = { seed: 7, stop: ['\n\n', 'C:\\n'], logit_bias: { '1': 2 } }
+    expect(parseGenerationSettings(toGenerationSettingsForm(settings)).settings).toEqual(settings)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { LoadProgressTracker, parseProgressText } from '../load-progress'
+
+const MB = 1024 * 1024
+
+describe('parseProgressText', () => {
+  it('recognises the download phase with shard counters', () => {
+    const parsed = parseProgressText(
+      'Fetching param cache[3/24]: 120MB fetched. 12% completed, 5 secs elapsed. It can take a while when we first visit this page to populate the cache. Later refreshes will become faster.',
+    )
+
+    expect(parsed).toEqual({ phase: 'downloading', shardsDone: 3, shardsTotal: 24, megabytes: 120 })
+  })
+
+  it('distinguishes loading from cache', () => {
+    const parsed = parseProgressText('Loading model from cache[24/24]: 700MB loaded. 100% completed, 2 secs elapsed.')
+
+    expect(parsed.phase).toBe('loading-from-cache')
+    expect(parsed.shardsDone).toBe(24)
+  })
+
+  it('recognises params, shaders and completion', () => {
+    expect(parseProgressText('Start to fetch params').phase).toBe('fetching-params')
+    expect(parseProgressText('Loading GPU shader modules[12/50]: 24% completed, 3 secs elapsed.')).toEqual({
+      phase: 'compiling-shaders',
+      shardsDone: 12,
+      shardsTotal: 50,
+    })
+    expect(parseProgressText('Finish loading on WebGPU - nvidia').phase).toBe('finished')
+  })
+
+  it('falls back to preparing for unknown text', () => {
+    expect(parseProgressText('Loading tokenizer...').phase).toBe('preparing')
+  })
+})
+
+describe('LoadProgressTracker', () => {
+  function createTracker() {
+    let time = 0
+    const tracker = new LoadProgressTracker(() => time)
+    return { tracker, advance: (ms: number) => (time += ms) }
+  }
+
+  it('derives bytes, speed and ETA while downloading', () => {
+    const { tracker, advance } = createTracker()
+
+    tracker.update(0, 'Start to fetch params')
+    advance(2000)
+    const report = tracker.update(0.25, 'Fetching param cache[1/4]: 100MB fetched. 25% completed, 2 secs elapsed.')
+
+    expect(report.phase).toBe('downloading')
+    expect(report.totalBytes).toBe(400 * MB)
+    expect(report.loadedBytes).toBe(100 * MB)
+    // First sample is measured from the start of the params fetch
+    expect(report.bytesPerSec).toBe(50 * MB)
+    expect(report.etaMs).toBe(6000)
+    expect(report.elapsedMs).toBe(2000)
+  })
+
+  it('smooths the download speed across shards', () => {
+    const { tracker, advance } = createTracker()
+
+    tracker.update(0, 'Start to fetch params')
+    advance(1000)
+    tracker.update(0.25, 'Fetching param cache[1/4]: 100MB fetched. 25% completed, 1 secs elapsed.')
+    advance(4000)
+    const report = tracker.update(0.5, 'Fetching param cache[2/4]: 200MB fetched. 50% completed, 5 secs elapsed.')
+
+    // 0.3 × 25 MB/s + 0.7 × 100 MB/s
+    expect(report.bytesPerSec).toBeCloseTo(77.5 * MB)
+  })
+
+  it('estimates the remaining time of non-download phases from their rate', () => {
+    const { tracker, advance } = createTracker()
+
+    tracker.update(0, 'Loading GPU shader modules[0/50]: 0% completed, 0 secs elapsed.')
+    advance(3000)
+    const report = tracker.update(0.25, 'Loading GPU shader modules[12/50]: 25% completed, 3 secs elapsed.')
+
+    expect(report.bytesPerSec).toBeUndefined()
+    expect(report.etaMs).toBe(9000)
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { closeOpenFence, splitMarkdownBlocks } from '../markdown-blocks'
+
+describe('splitMarkdownBlocks', () => {
+  it('splits paragraphs and headings at blank lines', () => {
+    expect(splitMarkdownBlocks('# Title\n\nFirst paragraph\n\nSecond')).toEqual([
+      '# Title\n',
+      'First paragraph\n',
+      'Second',
+    ])
+  })
+
+  it('keeps blank lines inside code fences', () => {
+    const markdown = 'Intro\n\n```js\nconst a = 1\n\nconst b = 2\n```\n\nAfter'
+    expect(splitMarkdownBlocks(markdown)).toEqual([
+      'Intro\n',
+      '```js\nconst a = 1\n\nconst b = 2\n```\n',
+      'After',
+    ])
+  })
+
+  it('keeps loose lists and indented continuations together', () => {
+    const markdown = '1. one\n\n2. two\n\n   more about two\n\nDone'
+    expect(splitMarkdownBlocks(markdown)).toEqual(['1. one\n\n2. two\n\n   more about two\n', 'Done'])
+  })
+
+  it('reassembles to the original text', () => {
+    const markdown = 'a\n\n~~~\nx\n\n~~~\n\n- b\n\n- c\n\nd\n'
+    expect(splitMarkdownBlocks(markdown).join('\n')).toBe(markdown)
+  })
+})
+
+describe('closeOpenFence', () => {
+  it('leaves complete blocks alone', () => {
+    expect(closeOpenFence('```\ncode\n```')).toBe('```\ncode\n```')
+    expect(closeOpenFence('plain text')).toBe('plain text')
+  })
+
+  it('closes a fence left open mid-stream', () => {
+    expect(closeOpenFence('```py\nprint(1)')).toBe('```py\nprint(1)\n```')
+    expect(closeOpenFence('````\nnested ```\ncode')).toBe('````\nnested ```\ncode\n````')
+  })
+
+  it('drops a partly streamed closing fence', () => {
+    expect(closeOpenFence('```\ncode\n``')).toBe('```\ncode\n```')
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import {
+  activePath,
+  branchPositions,
+  buildTree,
+  latestLeaf,
+  leafWithout,
+  pathTo,
+  siblingLeaf,
+  subtree,
+} from '../message-tree'
+import type { Message } from '../../types'
+
+let clock = 0
+function msg(id: string, parentId: string | null | undefined, role: Message['role'] = 'user'): Message {
+  return { id, conversationId: 'c1', role, content: id, createdAt: new Date(++clock), parentId }
+}
+
+// u1 ─ a1 ─ u2 ─ a2
+//         └ u2b ─ a2b       (u2 edited)
+// u1b ─ a1b                 (u1 edited)
+const messages = [
+  msg('u1', null),
+  msg('a1', 'u1', 'assistant'),
+  msg('u2', 'a1'),
+  msg('a2', 'u2', 'assistant'),
+  msg('u2b', 'a1'),
+  msg('a2b', 'u2b', 'assistant'),
+  msg('u1b', null),
+  msg('a1b', 'u1b', 'assistant'),
+]
+
+const ids = (path: Message[]) => path.map((m) => m.id)
+
+describe('buildTree', () => {
+  it('links legacy messages in creation order', () => {
+    const legacy = [msg('x', undefined), msg('y', undefined, 'assistant'), msg('z', undefined)]
+    const tree = buildTree([legacy[2], legacy[0], legacy[1]])
+    expect(ids(pathTo(tree, 'z'))).toEqual(['x', 'y', 'z'])
+  })
+
+  it('treats messages whose parent is gone as roots', () => {
+    const tree = buildTree([msg('orphan', 'deleted')])
+    expect(ids(pathTo(tree, 'orphan'))).toEqual(['orphan'])
+  })
+})
+
+describe('activePath', () => {
+  const tree = buildTree(messages)
+
+  it('follows the branch ending at the leaf', () => {
+    expect(ids(activePath(tree, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+
+  it('stops at an inner message', () => {
+    expect(ids(activePath(tree, 'a1'))).toEqual(['u1', 'a1'])
+  })
+
+  it('shows the newest message when the leaf is unknown', () => {
+    expect(ids(activePath(tree))).toEqual(['u1b', 'a1b'])
+    expect(ids(activePath(tree, 'missing'))).toEqual(['u1b', 'a1b'])
+    expect(activePath(buildTree([]))).toEqual([])
+  })
+})
+
+describe('branch navigation', () => {
+  const tree = buildTree(messages)
+
+  it('reports the position at each fork on the path', () => {
+    const positions = branchPositions(tree, activePath(tree, 'a2'))
+    expect([...positions]).toEqual([
+      ['u1', { index: 0, count: 2 }],
+      ['u2', { index: 0, count: 2 }],
+    ])
+  })
+
+  it('finds the end of the newest branch below a message', () => {
+    expect(latestLeaf(tree, 'u1')).toBe('a2b')
+    expect(latestLeaf(tree, 'a1b')).toBe('a1b')
+  })
+
+  it('moves to the newest leaf of a sibling', () => {
+    expect(siblingLeaf(tree, 'u2', 1)).toBe('a2b')
+    expect(siblingLeaf(tree, 'u1', 1)).toBe('a1b')
+    expect(siblingLeaf(tree, 'u1b', -1)).toBe('a2b')
+    expect(siblingLeaf(tree, 'u1', -1)).toBeUndefined()
+    expect(siblingLeaf(tree, 'a1', 1)).toBeUndefined()
+  })
+})
+
+describe('removing a branch', () => {
+  const tree = buildTree(messages)
+
+  it('collects a message and every reply below it', () => {
+    expect(ids(subtree(tree, 'a1')).sort()).toEqual(['a1', 'a2', 'a2b', 'u2', 'u2b'])
+    expect(subtree(tree, 'missing')).toEqual([])
+  })
+
+  it('falls back to another version, then to the message before', () => {
+    expect(leafWithout(tree, 'u2b')).toBe('a2')
+    expect(leafWithout(tree, 'u2')).toBe('a2b')
+    expect(leafWithout(tree, 'a1')).toBe('u1')
+    expect(leafWithout(buildTree([msg('only', null)]), 'only')).toBeUndefined()
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canMoveFolder,
+  filterConversations,
+  flattenFolders,
+  folderWithDescendants,
+  sortConversations,
+} from '../organization'
+import type { Conversation, Folder } from '../../types'
+
+function folder(id: string, parentId: string | null, name = id): Folder {
+  return { id, name, parentId, createdAt: new Date(0) }
+}
+
+function conv(id: string, updated: number, extra: Partial<Conversation> = {}): Conversation {
+  return { id, title: id, createdAt: new Date(0), updatedAt: new Date(updated), ...extra }
+}
+
+// work ─ clients ─ acme
+//      └ admin
+// home
+const folders = [
+  folder('acme', 'clients'),
+  folder('work', null, 'Work'),
+  folder('clients', 'work', 'Clients'),
+  folder('home', null, 'Home'),
+  folder('admin', 'work', 'Admin'),
+]
+
+describe('folder tree', () => {
+  it('collects nested folders whatever order they are listed in', () => {
+    expect([...folderWithDescendants(folders, 'work')].sort()).toEqual([
+      'acme',
+      'admin',
+      'clients',
+      'work',
+    ])
+    expect([...folderWithDescendants(folders, 'home')]).toEqual(['home'])
+  })
+
+  it('refuses to move a folder into itself or below itself', () => {
+    expect(canMoveFolder(folders, 'work', 'acme')).toBe(false)
+    expect(canMoveFolder(folders, 'work', 'work')).toBe(false)
+    expect(canMoveFolder(folders, 'acme', 'home')).toBe(true)
+    expect(canMoveFolder(folders, 'acme', null)).toBe(true)
+  })
+
+  it('lists subfolders under their parent, by name, with depth', () => {
+    const flat = flattenFolders([...folders, folder('lost', 'deleted')])
+    expect(flat.map(({ folder, depth }) => `${depth}:${folder.id}`)).toEqual([
+      '0:home',
+      '0:lost',
+      '0:work',
+      '1:admin',
+      '1:clients',
+      '2:acme',
+    ])
+  })
+})
+
+describe('filterConversations', () => {
+  const conversations = [
+    conv('top', 1),
+    conv('filed', 2, { folderId: 'acme', tagIds: ['urgent'] }),
+    conv('shelved', 3, { folderId: 'work', archivedAt: new Date(5) }),
+  ]
+  const ids = (list: Conversation[]) => list.map((c) => c.id)
+
+  it('keeps archived conversations out of every view but the archive', () => {
+    expect(ids(filterConversations(conversations, { kind: 'all' }, folders))).toEqual([
+      'top',
+      'filed',
+    ])
+    expect(ids(filterConversations(conversations, { kind: 'archived' }, folders))).toEqual([
+      'shelved',
+    ])
+  })
+
+  it('shows conversations in subfolders under a folder', () => {
+    const filter = { kind: 'folder', folderId: 'work' } as const
+    expect(ids(filterConversations(conversations, filter, folders))).toEqual(['filed'])
+  })
+
+  it('filters by tag', () => {
+    const filter = { kind: 'tag', tagId: 'urgent' } as const
+    expect(ids(filterConversations(conversations, filter, folders))).toEqual(['filed'])
+  })
+})
+
+describe('sortConversations', () => {
+  it('puts pinned conversations first, latest pin on top', () => {
+    const sorted = sortConversations([
+      conv('old', 1),
+      conv('new', 9),
+      conv('pinned-early', 2, { pinnedAt: new Date(10) }),
+      conv('pinned-late', 0, { pinnedAt: new Date(20) }),
+    ])
+    expect(sorted.map((c) => c.id)).toEqual(['pinned-late', 'pinned-early', 'new', 'old'])
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { dequeue, moveQueued, queuedFor, removeQueued, type QueuedPrompt } from '../prompt-queue'
+
+const prompt = (id: string, conversationId = 'a'): QueuedPrompt => ({
+  id,
+  conversationId,
+  content: `prompt ${id}`,
+})
+
+const ids = (queue: QueuedPrompt[]) => queue.map((p) => p.id)
+
+describe('prompt queue', () => {
+  const queue = [prompt('1'), prompt('2', 'b'), prompt('3'), prompt('4')]
+
+  it('lists the prompts of one conversation in order', () => {
+    expect(ids(queuedFor(queue, 'a'))).toEqual(['1', '3', '4'])
+    expect(queuedFor(queue, null)).toEqual([])
+  })
+
+  it('dequeues the first prompt of a conversation', () => {
+    const { next, rest } = dequeue(queue, 'b')
+    expect(next?.id).toBe('2')
+    expect(ids(rest)).toEqual(['1', '3', '4'])
+  })
+
+  it('dequeues nothing from an empty conversation', () => {
+    const { next, rest } = dequeue(queue, 'c')
+    expect(next).toBeUndefined()
+    expect(rest).toBe(queue)
+  })
+
+  it('removes a prompt by id', () => {
+    expect(ids(removeQueued(queue, '3'))).toEqual(['1', '2', '4'])
+  })
+
+  it('moves a prompt past other conversations', () => {
+    expect(ids(moveQueued(queue, '3', -1))).toEqual(['3', '2', '1', '4'])
+    expect(ids(moveQueued(queue, '1', 1))).toEqual(['3', '2', '1', '4'])
+    expect(ids(moveQueued(queue, '3', 1))).toEqual(['1', '2', '4', '3'])
+  })
+
+  it('leaves the queue alone at either end', () => {
+    expect(moveQueued(queue, '1', -1)).toBe(queue)
+    expect(moveQueued(queue, '4', 1)).toBe(queue)
+    expect(moveQueued(queue, 'missing', 1)).toBe(queue)
+  })
+})
@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { RemoteBackend, apiRoot, mergeToolCallDeltas, readSSEData, toRequestFormat } from '../remote-backend'
+import { ContextOverflowError } from '../context-window'
+import type { RemoteConfig, ToolCall } from '../../types'
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Build a byte stream that delivers the given strings as separate chunks */
+function byteStream(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part))
+      controller.close()
+    },
+  })
+}
+
+function sse(...payloads: unknown[]): string {
+  return payloads
+    .map((p) => `data: ${typeof p === 'string' ? p : JSON.stringify(p)}\n\n`)
+    .join('')
+}
+
+async function collect(stream: ReadableStream<string>): Promise<string> {
+  const reader = stream.getReader()
+  let result = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    result += value
+  }
+  return result
+}
+
+const config: RemoteConfig = {
+  baseUrl: 'http://llm.lan:8080',
+  apiKey: 'secret',
+  model: 'qwen2.5-7b',
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('apiRoot', () => {
+  it('appends /v1 when missing', () => {
+    expect(apiRoot('http://llm.lan:8080')).toBe('http://llm.lan:8080/v1')
+  })
+
+  it('keeps an existing /v1 and strips trailing slashes', () => {
+    expect(apiRoot(' http://llm.lan:8080/v1/ ')).toBe('http://llm.lan:8080/v1')
+  })
+})
+
+describe('toRequestFormat', () => {
+  it('sends schemas in the json_schema form', () => {
+    expect(toRequestFormat({ type: 'json_object', schema: '{"type":"object"}' })).toEqual({
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: { type: 'object' } },
+      },
+    })
+  })
+
+  it('maps plain JSON and grammars', () => {
+    expect(toRequestFormat({ type: 'json_object' })).toEqual({ response_format: { type: 'json_object' } })
+    expect(toRequestFormat({ type: 'grammar', grammar: 'root ::= "a"' })).toEqual({ grammar: 'root ::= "a"' })
+    expect(toRequestFormat({ type: 'text' })).toEqual({})
+  })
+})
+
+describe('mergeToolCallDeltas', () => {
+  it('assembles calls from streamed fragments', () => {
+    const calls: ToolCall[] = []
+    mergeToolCallDeltas(calls, [{ index: 0, id: 'call_a', function: { name: 'calculator', arguments: '' } }])
+    mergeToolCallDeltas(calls, [{ index: 0, function: { arguments: '{"expression":' } }])
+    mergeToolCallDeltas(calls, [
+      { index: 0, function: { arguments: '"1+1"}' } },
+      { index: 1, id: 'call_b', function: { name: 'get_current_datetime', arguments: '{}' } },
+    ])
+
+    expect(calls).toEqual([
+      { id: 'call_a', type: 'function', function: { name: 'calculator', arguments: '{"expression":"1+1"}' } },
+      { id: 'call_b', type: 'function', function: { name: 'get_current_datetime', arguments: '{}' } },
+    ])
+  })
+})
+
+describe('readSSEData', () => {
+  it('yields data payloads split across network chunks', async () => {
+    const body = byteStream(['data: {"a":', '1}\n\nda', 'ta: {"b":2}\n\n', 'data: [DONE]\n\n'])
+
+    const payloads: string[] = []
+    for await (const data of readSSEData(body)) payloads.push(data)
+
+    expect(payloads).toEqual(['{"a":1}', '{"b":2}'])
+  })
+
+  it('ignores comments and other fields', async () => {
+    const body = byteStream([': keep-alive\n\nevent: message\ndata: hello\n\n'])
+
+    const payloads: string[] = []
+    for await (const data of readSSEData(body)) payloads.push(data)
+
+    expect(payloads).toEqual(['hello'])
+  })
+})
+
+describe('RemoteBackend', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+  let backend: RemoteBackend
+
+  beforeEach(() => {
+    fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    backend = new RemoteBackend(() => config)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('init()', () => {
+    it('connects by listing models', async () => {
+      fetchMock.mockResolvedValue(new Response('{"data":[]}', { status: 200 }))
+      const onConnectionChange = vi.fn()
+      const onStatusChange = vi.fn()
+      backend.setCallbacks({ onConnectionChange, onStatusChange })
+
+      const result = await backend.init(config.model)
+
+      expect(result).toBe(true)
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://llm.lan:8080/v1/models',
+        expect.objectContaining({
+          headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+        }),
+      )
+      expect(onConnectionChange).toHaveBeenCalledWith('connecting')
+      expect(onConnectionChange).toHaveBeenLastCalledWith('connected')
+      expect(onStatusChange).toHaveBeenLastCalledWith('ready')
+    })
+
+    it('reports a network error when the server is unreachable', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+      const onError = vi.fn()
+      const onConnectionChange = vi.fn()
+      backend.setCallbacks({ onError, onConnectionChange })
+
+      const result = await backend.init(config.model)
+
+      expect(result).toBe(false)
+      expect(backend.status).toBe('error')
+      expect(onError).toHaveBeenCalledWith('Failed to fetch', 'NETWORK_ERROR')
+      expect(onConnectionChange).toHaveBeenLastCalledWith('disconnected')
+    })
+  })
+
+  describe('cancelLoad()', () => {
+    it('returns to idle without reporting an error', async () => {
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError')),
+            )
+          }),
+      )
+      const onError = vi.fn()
+      backend.setCallbacks({ onError })
+
+      const initPromise = backend.init(config.model)
+      backend.cancelLoad()
+
+      expect(await initPromise).toBe(false)
+      expect(backend.status).toBe('idle')
+      expect(onError).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('chat()', () => {
+    it('streams content deltas and reports usage', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(
+          byteStream([
+            sse(
+              { choices: [{ delta: { role: 'assistant' } }] },
+              { choices: [{ delta: { content: 'Hello' } }] },
+              { choices: [{ delta: { content: ' there' } }] },
+              { choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } },
+              '[DONE]',
+            ),
+          ]),
+          { status: 200 },
+        ),
+      )
+      const onUsage = vi.fn()
+
+      const result = await collect(
+        backend.chat([{ role: 'user', content: 'Hi' }], { temperature: 0.2 }, onUsage),
+      )
+
+      expect(result).toBe('Hello there')
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 }),
+      )
+
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(url).toBe('http://llm.lan:8080/v1/chat/completions')
+      expect(JSON.parse(init.body)).toMatchObject({
+        model: 'qwen2.5-7b',
+        stream: true,
+        temperature: 0.2,
+        messages: [{ role: 'user', content: 'Hi' }],
+      })
+    })
+
+    it('reports streamed tool calls', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(
+          byteStream([
+            sse(
+              { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'calculator', arguments: '{"expression"' } }] } }] },
+              { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: ':"2*3"}' } }] } }] },
+              '[DONE]',
+            ),
+          ]),
+          { status: 200 },
+        ),
+      )
+      const onToolCalls = vi.fn()
+
+      const result = await collect(
+        backend.chat([{ role: 'user', content: '2*3?' }], undefined, undefined, onToolCalls),
+      )
+
+      expect(result).toBe('')
+      expect(onToolCalls).toHaveBeenCalledWith([
+        { id: 'call_a', type: 'function', function: { name: 'calculator', arguments: '{"expression":"2*3"}' } },
+      ])
+    })
+
+    it('propagates HTTP errors as stream errors', async () => {
+      fetchMock.mockResolvedValue(new Response('nope', { status: 500, statusText: 'Internal Server Error' }))
+
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }]).getReader()
+
+      await expect(reader.read()).rejects.toThrow('Server responded 500')
+    })
+
+    it('stays connected when the server rejects a request', async () => {
+      const onConnectionChange = vi.fn()
+      backend.setCallbacks({ onConnectionChange })
+      fetchMock.mockResolvedValue(new Response('bad', { status: 400, statusText: 'Bad Request' }))
+
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }]).getReader()
+
+      await expect(reader.read()).rejects.toThrow('Server responded 400')
+      expect(onConnectionChange).not.toHaveBeenCalled()
+    })
+
+    it('reports a lost connection when the request cannot reach the server', async () => {
+      const onConnectionChange = vi.fn()
+      backend.setCallbacks({ onConnectionChange })
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'))
+
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }]).getReader()
+
+      await expect(reader.read()).rejects.toThrow('Failed to fetch')
+      expect(onConnectionChange).toHaveBeenLastCalledWith('disconnected')
+    })
+
+    it('recognizes context length errors from the server', async () => {
+      fetchMock.mockResolvedValue(
+        new Response(
+          '{"error":{"message":"This model\'s maximum context length is 8192 tokens"}}',
+          { status: 400, statusText: 'Bad Request' },
+        ),
+      )
+
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }]).getReader()
+
+      await expect(reader.read()).rejects.toBeInstanceOf(ContextOverflowError)
+    })
+
+    it('ends the stream when aborted', async () => {
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError')),
+            )
+          }),
+      )
+
+      const stream = backend.chat([{ role: 'user', content: 'Hi' }])
+      const resultPromise = collect(stream)
+      await new Promise((r) => setTimeout(r, 0))
+      backend.abort()
+
+      expect(await resultPromise).toBe('')
+    })
+  })
+})
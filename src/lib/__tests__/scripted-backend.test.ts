@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ScriptedBackend, echoReply } from '../scripted-backend'
+
+async function collect(stream: ReadableStream<string>): Promise<string[]> {
+  const reader = stream.getReader()
+  const chunks: string[] = []
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+  }
+  return chunks
+}
+
+describe('ScriptedBackend', () => {
+  describe('init()', () => {
+    it('reports progress and becomes ready', async () => {
+      const backend = new ScriptedBackend()
+      const onStatusChange = vi.fn()
+      const onProgress = vi.fn()
+      backend.setCallbacks({ onStatusChange, onProgress })
+
+      expect(backend.status).toBe('idle')
+      const result = await backend.init('any-model')
+
+      expect(result).toBe(true)
+      expect(backend.status).toBe('ready')
+      expect(onStatusChange).toHaveBeenCalledWith('loading')
+      expect(onStatusChange).toHaveBeenLastCalledWith('ready')
+      expect(onProgress).toHaveBeenLastCalledWith(1, 'Ready')
+    })
+  })
+
+  describe('cancelLoad()', () => {
+    it('cancels a load in progress', async () => {
+      const backend = new ScriptedBackend()
+      const initPromise = backend.init('any-model')
+      backend.cancelLoad()
+
+      expect(await initPromise).toBe(false)
+      expect(backend.status).toBe('idle')
+    })
+  })
+
+  describe('chat()', () => {
+    it('echoes the last user message by default', async () => {
+      const backend = new ScriptedBackend()
+      await backend.init('any-model')
+
+      const chunks = await collect(
+        backend.chat([
+          { role: 'user', content: 'first' },
+          { role: 'assistant', content: 'reply' },
+          { role: 'user', content: 'hello there' },
+        ]),
+      )
+
+      expect(chunks.join('')).toBe('Echo: hello there')
+      expect(chunks).toEqual(['Echo:', ' hello', ' there'])
+    })
+
+    it('cycles through scripted responses', async () => {
+      const backend = new ScriptedBackend({ responses: ['One', 'Two'] })
+      await backend.init('any-model')
+      const messages = [{ role: 'user' as const, content: 'Hi' }]
+
+      expect((await collect(backend.chat(messages))).join('')).toBe('One')
+      expect((await collect(backend.chat(messages))).join('')).toBe('Two')
+      expect((await collect(backend.chat(messages))).join('')).toBe('One')
+    })
+
+    it('echoes as JSON when a JSON response format is requested', async () => {
+      const backend = new ScriptedBackend()
+      await backend.init('any-model')
+
+      const chunks = await collect(
+        backend.chat([{ role: 'user', content: 'hello' }], {
+          response_format: { type: 'json_object' },
+        }),
+      )
+
+      expect(JSON.parse(chunks.join(''))).toEqual({ echo: 'hello' })
+    })
+
+    it('calls an offered tool for a slash command, then echoes its result', async () => {
+      const backend = new ScriptedBackend()
+      await backend.init('any-model')
+      const tools = [
+        {
+          type: 'function' as const,
+          function: { name: 'calculator', description: 'Math', parameters: { type: 'object' } },
+        },
+      ]
+      const onToolCalls = vi.fn()
+
+      const chunks = await collect(
+        backend.chat([{ role: 'user', content: '/calculator {"expression":"1+2"}' }], { tools }, undefined, onToolCalls),
+      )
+
+      expect(chunks).toEqual([])
+      const [[call]] = onToolCalls.mock.calls[0]
+      expect(call.function).toEqual({ name: 'calculator', arguments: '{"expression":"1+2"}' })
+
+      const reply = await collect(
+        backend.chat(
+          [
+            { role: 'user', content: '/calculator {"expression":"1+2"}' },
+            { role: 'assistant', content: '', tool_calls: [call] },
+            { role: 'tool', content: '3', tool_call_id: call.id },
+          ],
+          { tools },
+        ),
+      )
+      expect(reply.join('')).toBe('Tool result: 3')
+    })
+
+    it('reports word-count token usage', async () => {
+      const backend = new ScriptedBackend({ responses: ['a b c'] })
+      await backend.init('any-model')
+      const onUsage = vi.fn()
+
+      await collect(backend.chat([{ role: 'user', content: 'one two' }], undefined, onUsage))
+
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 }),
+      )
+    })
+
+    it('errors when no model is loaded', async () => {
+      const backend = new ScriptedBackend()
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }]).getReader()
+
+      await expect(reader.read()).rejects.toThrow('Engine not initialized')
+    })
+  })
+
+  describe('unload()', () => {
+    it('returns to idle so chats fail until the next load', async () => {
+      const backend = new ScriptedBackend()
+      await backend.init('any-model')
+
+      await backend.unload()
+
+      expect(backend.status).toBe('idle')
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }]).getReader()
+      await expect(reader.read()).rejects.toThrow('Engine not initialized')
+    })
+  })
+
+  describe('abort()', () => {
+    it('ends the stream early without usage', async () => {
+      const backend = new ScriptedBackend({ responses: ['one two three four'], chunkDelayMs: 5 })
+      await backend.init('any-model')
+      const onUsage = vi.fn()
+
+      const reader = backend.chat([{ role: 'user', content: 'Hi' }], undefined, onUsage).getReader()
+      const first = await reader.read()
+      backend.abort()
+
+      const chunks = [first.value]
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        chunks.push(value)
+      }
+
+      expect(chunks.length).toBeLessThan(4)
+      expect(onUsage).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('echoReply', () => {
+  it('handles conversations without a user message', () => {
+    expect(echoReply([{ role: 'system', content: 'Be nice' }])).toBe('Echo: ')
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { postingsFor, queryTerms, rankMatches, snippetSegments, tokenize } from '../search'
+import type { SearchPosting } from '../../types'
+
+const posting = (term: string, messageId: string, count = 1): SearchPosting => ({
+  term,
+  messageId,
+  conversationId: 'c1',
+  count,
+})
+
+describe('tokenize', () => {
+  it('lower-cases words and drops punctuation and single characters', () => {
+    expect(tokenize("Hello, World! It's a C++ test")).toEqual(['hello', 'world', 'it', 'test'])
+  })
+
+  it('keeps non-Latin words and numbers', () => {
+    expect(tokenize('Merhaba dünya 2024 東京')).toEqual(['merhaba', 'dünya', '2024', '東京'])
+  })
+
+  it('deduplicates query terms', () => {
+    expect(queryTerms('pasta PASTA sauce')).toEqual(['pasta', 'sauce'])
+  })
+})
+
+describe('postingsFor', () => {
+  it('counts each term once per message', () => {
+    const postings = postingsFor({
+      id: 'm1',
+      conversationId: 'c1',
+      role: 'user',
+      content: 'to be or not to be',
+      createdAt: new Date(),
+    })
+    expect(postings).toEqual([
+      posting('to', 'm1', 2),
+      posting('be', 'm1', 2),
+      posting('or', 'm1'),
+      posting('not', 'm1'),
+    ])
+  })
+})
+
+describe('rankMatches', () => {
+  it('keeps only messages matching every term', () => {
+    const ranked = rankMatches([[posting('pasta', 'a'), posting('pasta', 'b')], [posting('sauce', 'b')]], 10)
+    expect(ranked.map((r) => r.messageId)).toEqual(['b'])
+  })
+
+  it('ranks repeated terms higher', () => {
+    const ranked = rankMatches([[posting('pasta', 'a'), posting('pasta', 'b', 3)]], 10)
+    expect(ranked.map((r) => r.messageId)).toEqual(['b', 'a'])
+  })
+
+  it('weights rare terms above common ones', () => {
+    const common = [posting('the', 'a'), posting('the', 'b'), posting('the', 'c')]
+    const rare = [posting('risotto', 'c')]
+    const [withRare] = rankMatches([common, rare], 10)
+    const [withCommon] = rankMatches([common], 10)
+    expect(withRare.score - withCommon.score).toBeGreaterThan(withCommon.score)
+  })
+
+  it('sums prefix matches of one term within a message', () => {
+    const ranked = rankMatches([[posting('cook', 'a'), posting('cooking', 'a'), posting('cook', 'b')]], 10)
+    expect(ranked.map((r) => r.messageId)).toEqual(['a', 'b'])
+  })
+
+  it('returns nothing without terms', () => {
+    expect(rankMatches([], 10)).toEqual([])
+  })
+})
+
+describe('snippetSegments', () => {
+  it('marks words that start with a term', () => {
+    expect(snippetSegments('Cooking and cookies', ['cook'])).toEqual([
+      { text: 'Cooking', match: true },
+      { text: ' and ', match: false },
+      { text: 'cookies', match: true },
+    ])
+  })
+
+  it('does not mark terms inside words', () => {
+    expect(snippetSegments('overcooked', ['cook'])).toEqual([{ text: 'overcooked', match: false }])
+  })
+
+  it('centres long content on the first match', () => {
+    const content = `${'filler '.repeat(50)}needle ${'filler '.repeat(50)}`
+    const segments = snippetSegments(content, ['needle'], 60)
+    const text = segments.map((s) => s.text).join('')
+    expect(text.startsWith('…')).toBe(true)
+    expect(text.endsWith('…')).toBe(true)
+    expect(segments.filter((s) => s.match)).toEqual([{ text: 'needle', match: true }])
+  })
+
+  it('collapses whitespace', () => {
+    expect(snippetSegments('line one\n\n  line two', [])).toEqual([{ text: 'line one line two', match: false }])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { checkStructuredOutput, parseSchema, validateJson } from '../structured-output'
+
+const personSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+    role: { enum: ['admin', 'user'] },
+  },
+  required: ['name', 'age'],
+  additionalProperties: false,
+}
+
+describe('validateJson', () => {
+  it('accepts a conforming value', () => {
+    expect(validateJson({ name: 'Ada', age: 36, tags: ['math'], role: 'admin' }, personSchema)).toEqual([])
+  })
+
+  it('reports errors with their JSON path', () => {
+    const errors = validateJson({ name: '', tags: ['a', 2], role: 'guest', extra: true }, personSchema)
+
+    expect(errors).toEqual([
+      '$: missing required property "age"',
+      '$.name: shorter than 1 characters',
+      '$.tags[1]: expected string, got integer',
+      '$.role: must be one of "admin", "user"',
+      '$: unexpected property "extra"',
+    ])
+  })
+
+  it('treats integers as numbers but not the reverse', () => {
+    expect(validateJson(3, { type: 'number' })).toEqual([])
+    expect(validateJson(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number'])
+  })
+
+  it('supports anyOf and nullable types', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'null' }] }
+    expect(validateJson(null, schema)).toEqual([])
+    expect(validateJson(1, schema)).toEqual(['$: does not match any allowed schema'])
+    expect(validateJson(null, { type: ['string', 'null'] })).toEqual([])
+  })
+})
+
+describe('parseSchema', () => {
+  it('rejects non-object schemas', () => {
+    expect(() => parseSchema('[1]')).toThrow('Schema must be a JSON object')
+    expect(() => parseSchema('{oops')).toThrow('Schema is not valid JSON')
+  })
+})
+
+describe('checkStructuredOutput', () => {
+  it('ignores replies without a JSON response format', () => {
+    expect(checkStructuredOutput('hello', undefined)).toBeUndefined()
+    expect(checkStructuredOutput('yes', { type: 'grammar', grammar: 'root ::= "yes"' })).toBeUndefined()
+  })
+
+  it('flags truncated JSON', () => {
+    const check = checkStructuredOutput('{"name": "Ada", "ag', { type: 'json_object' })
+
+    expect(check?.valid).toBe(false)
+    expect(check?.errors).toHaveLength(1)
+  })
+
+  it('validates against the attached schema', () => {
+    const format = { type: 'json_object' as const, schema: JSON.stringify(personSchema) }
+
+    expect(checkStructuredOutput('{"name": "Ada", "age": 36}', format)).toEqual({ valid: true, errors: [] })
+    expect(checkStructuredOutput('{"name": "Ada"}', format)).toEqual({
+      valid: false,
+      errors: ['$: missing required property "age"'],
+    })
+  })
+})
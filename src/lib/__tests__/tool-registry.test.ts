@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { ToolRegistry, type Tool } from '../tool-registry'
+import { toolRegistry } from '../builtin-tools'
+import { resetDB, createConversation, addMessage } from '../database'
+import type { ToolCall } from '../../types'
+
+function call(name: string, args: unknown): ToolCall {
+  return {
+    id: 'call-1',
+    type: 'function',
+    function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) },
+  }
+}
+
+const echoTool: Tool = {
+  label: 'Echo',
+  definition: {
+    type: 'function',
+    function: { name: 'echo', description: 'Echo text', parameters: { type: 'object' } },
+  },
+  async execute(args) {
+    if (args.fail) throw new Error('asked to fail')
+    return String(args.text)
+  },
+}
+
+describe('ToolRegistry', () => {
+  const registry = new ToolRegistry([echoTool])
+
+  it('returns definitions for registered names only', () => {
+    expect(registry.definitions(['echo', 'missing'])).toEqual([echoTool.definition])
+  })
+
+  it('executes a call with parsed arguments', async () => {
+    expect(await registry.execute(call('echo', { text: 'hi' }))).toEqual({ content: 'hi', isError: false })
+  })
+
+  it('returns failures as error results', async () => {
+    expect(await registry.execute(call('missing', {}))).toEqual({
+      content: 'Error: unknown tool "missing"',
+      isError: true,
+    })
+    expect(await registry.execute(call('echo', '{nope'))).toEqual({
+      content: 'Error: arguments are not valid JSON',
+      isError: true,
+    })
+    expect(await registry.execute(call('echo', { fail: true }))).toEqual({
+      content: 'Error: asked to fail',
+      isError: true,
+    })
+  })
+})
+
+describe('built-in tools', () => {
+  beforeEach(() => {
+    resetDB()
+  })
+
+  it('evaluates arithmetic with the calculator', async () => {
+    const result = await toolRegistry.execute(call('calculator', { expression: '(3 + 4) * 2' }))
+    expect(result).toEqual({ content: '14', isError: false })
+  })
+
+  it('reports the current date in a requested time zone', async () => {
+    const result = await toolRegistry.execute(call('get_current_datetime', { timeZone: 'UTC' }))
+    expect(result.isError).toBe(false)
+    expect(result.content).toContain(new Date().getUTCFullYear().toString())
+  })
+
+  it('searches saved conversations', async () => {
+    await createConversation('c1', 'Trip planning')
+    await addMessage({
+      id: 'm1',
+      conversationId: 'c1',
+      role: 'user',
+      content: 'Book a ferry to Bozcaada',
+      createdAt: new Date(),
+    })
+
+    const found = await toolRegistry.execute(call('search_conversations', { query: 'ferry' }))
+    expect(found.content).toContain('[Trip planning] user')
+    expect(found.content).toContain('Book a ferry to Bozcaada')
+
+    const missing = await toolRegistry.execute(call('search_conversations', { query: 'train' }))
+    expect(missing.content).toBe('No messages found for "train"')
+  })
+
+  it('reports when the JavaScript sandbox is unavailable', async () => {
+    // jsdom has no Worker
+    const result = await toolRegistry.execute(call('run_javascript', { code: 'return 1' }))
+    expect(result).toEqual({
+      content: 'Error: JavaScript sandbox is not available in this environment',
+      isError: true,
+    })
+  })
+})
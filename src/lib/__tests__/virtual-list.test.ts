@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_REMEMBERED_LAYOUTS,
+  forgetLayout,
+  rememberedLayout,
+  rowOffsets,
+  visibleRange,
+} from '../virtual-list'
+
+describe('rowOffsets', () => {
+  it('stacks rows from the top', () => {
+    expect(rowOffsets([10, 20, 30])).toEqual([0, 10, 30])
+    expect(rowOffsets([])).toEqual([])
+  })
+})
+
+describe('visibleRange', () => {
+  const heights = Array.from({ length: 100 }, () => 50)
+
+  it('renders the rows in view and spaces out the rest', () => {
+    expect(visibleRange(heights, 1000, 200, 0)).toEqual({
+      start: 20,
+      end: 24,
+      before: 1000,
+      after: 3800,
+    })
+  })
+
+  it('renders overscan rows either side', () => {
+    const range = visibleRange(heights, 1000, 200, 100)
+    expect([range.start, range.end]).toEqual([18, 26])
+  })
+
+  it('includes a row cut off at the top of the viewport', () => {
+    const range = visibleRange([100, 100, 100], 150, 10, 0)
+    expect([range.start, range.end]).toEqual([1, 2])
+  })
+
+  it('stops at either end of the list', () => {
+    expect(visibleRange(heights, 0, 200, 500)).toMatchObject({ start: 0, before: 0 })
+    expect(visibleRange(heights, 4800, 200, 500)).toMatchObject({ end: 100, after: 0 })
+    expect(visibleRange([], 0, 200, 500)).toEqual({ start: 0, end: 0, before: 0, after: 0 })
+  })
+
+  it('keeps row heights that differ in their place', () => {
+    const range = visibleRange([300, 20, 20, 400, 20], 330, 50, 0)
+    expect(range).toEqual({ start: 2, end: 4, before: 320, after: 20 })
+  })
+})
+
+describe('rememberedLayout', () => {
+  it('keeps a layout until it is forgotten', () => {
+    rememberedLayout('layout-a').rowHeights.set('m1', 80)
+    expect(rememberedLayout('layout-a').rowHeights.get('m1')).toBe(80)
+
+    forgetLayout('layout-a')
+    expect(rememberedLayout('layout-a').rowHeights.size).toBe(0)
+  })
+
+  it('forgets the least recently shown layouts first', () => {
+    rememberedLayout('layout-old').rowHeights.set('m1', 80)
+    rememberedLayout('layout-kept').rowHeights.set('m1', 90)
+    for (let i = 0; i < MAX_REMEMBERED_LAYOUTS - 1; i++) {
+      rememberedLayout('layout-kept')
+      rememberedLayout(`layout-${i}`)
+    }
+
+    expect(rememberedLayout('layout-kept').rowHeights.get('m1')).toBe(90)
+    expect(rememberedLayout('layout-old').rowHeights.size).toBe(0)
+  })
+})
@@ -6,15 +6,15 @@ import type { WorkerMessageFromWorker, WorkerMessageToWorker } from '../../types
 // ============================================================
 
 class MockLLMWorker {
-  private handlers: ((e: MessageEvent) => void)[] = []
+  private handlers: { type: string; handler: (e: Event) => void }[] = []
   public terminated = false
 
-  addEventListener(_: string, handler: (e: MessageEvent) => void) {
-    this.handlers.push(handler)
+  addEventListener(type: string, handler: (e: Event) => void) {
+    this.handlers.push({ type, handler })
   }
 
-  removeEventListener(_: string, handler: (e: MessageEvent) => void) {
-    this.handlers = this.handlers.filter((h) => h !== handler)
+  removeEventListener(type: string, handler: (e: Event) => void) {
+    this.handlers = this.handlers.filter((h) => h.type !== type || h.handler !== handler)
   }
 
   /** Simulate receiving a message from main thread */
@@ -29,8 +29,13 @@ class MockLLMWorker {
 
   /** Dispatch a message to all listeners (simulates worker → main) */
   protected dispatch(data: WorkerMessageFromWorker) {
-    for (const handler of this.handlers) {
-      handler(new MessageEvent('message', { data }))
+    this.emit(new MessageEvent('message', { data }))
+  }
+
+  /** Dispatch any event to listeners of its type */
+  emit(event: Event) {
+    for (const { type, handler } of this.handlers) {
+      if (type === event.type) handler(event)
     }
   }
 
@@ -38,24 +43,70 @@ class MockLLMWorker {
   protected handleMessage(msg: WorkerMessageToWorker) {
     switch (msg.type) {
       case 'init':
-        this.dispatch({ type: 'init-progress', progress: 0.5, text: 'Loading...' })
-        this.dispatch({ type: 'init-progress', progress: 1.0, text: 'Ready' })
-        this.dispatch({ type: 'init-complete', success: true })
+      case 'switch':
+        this.dispatch({
+          type: 'init-progress',
+          requestId: msg.requestId,
+          progress: 0.5,
+          text: 'Loading...',
+          report: { phase: 'preparing', progress: 0.5, elapsedMs: 10 },
+        })
+        this.dispatch({
+          type: 'init-progress',
+          requestId: msg.requestId,
+          progress: 1.0,
+          text: 'Ready',
+          report: { phase: 'finished', progress: 1, elapsedMs: 20 },
+        })
+        this.dispatch({ type: 'init-complete', requestId: msg.requestId, success: true })
         break
 
       case 'chat':
+        if (msg.config?.tools?.length) {
+          // Function-calling models answer with tool calls only
+          this.dispatch({
+            type: 'done',
+            requestId: msg.requestId,
+            toolCalls: [
+              {
+                id: 'call-1',
+                type: 'function',
+                function: { name: msg.config.tools[0].function.name, arguments: '{"x":1}' },
+              },
+            ],
+          })
+          break
+        }
+        if (msg.messages.length > 10) {
+          this.dispatch({
+            type: 'error',
+            requestId: msg.requestId,
+            error: 'Prompt tokens exceed context window size',
+            code: 'CONTEXT_OVERFLOW',
+          })
+          break
+        }
         // Stream 3 tokens then done
-        this.dispatch({ type: 'chunk', content: 'Hello' })
-        this.dispatch({ type: 'chunk', content: ' world' })
-        this.dispatch({ type: 'chunk', content: '!' })
+        this.dispatch({ type: 'chunk', requestId: msg.requestId, content: 'Hello' })
+        this.dispatch({ type: 'chunk', requestId: msg.requestId, content: ' world' })
+        this.dispatch({ type: 'chunk', requestId: msg.requestId, content: '!' })
         this.dispatch({
           type: 'done',
+          requestId: msg.requestId,
           usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
         })
         break
 
       case 'abort':
-        this.dispatch({ type: 'done' })
+        this.dispatch({ type: 'done', requestId: msg.requestId })
+        break
+
+      case 'unload':
+        this.dispatch({ type: 'unload-complete', requestId: msg.requestId })
+        break
+
+      case 'ping':
+        this.dispatch({ type: 'pong', requestId: msg.requestId })
         break
     }
   }
@@ -65,11 +116,11 @@ class FailingMockWorker extends MockLLMWorker {
   protected override handleMessage(msg: WorkerMessageToWorker) {
     switch (msg.type) {
       case 'init':
-        this.dispatch({ type: 'error', error: 'WebGPU is not supported', code: 'WEBGPU_NOT_SUPPORTED' })
-        this.dispatch({ type: 'init-complete', success: false })
+        this.dispatch({ type: 'error', requestId: msg.requestId, error: 'WebGPU is not supported', code: 'WEBGPU_NOT_SUPPORTED' })
+        this.dispatch({ type: 'init-complete', requestId: msg.requestId, success: false })
         break
       case 'chat':
-        this.dispatch({ type: 'error', error: 'Out of memory', code: 'OUT_OF_MEMORY' })
+        this.dispatch({ type: 'error', requestId: msg.requestId, error: 'Out of memory', code: 'OUT_OF_MEMORY' })
         break
     }
   }
@@ -79,15 +130,13 @@ class FailingMockWorker extends MockLLMWorker {
 // WorkerBridge under test — we inject the mock worker
 // ============================================================
 
-// We can't use import.meta.url in tests, so we'll test the bridge
-// by constructing it and monkey-patching the worker field
-import { WorkerBridge } from '../worker-bridge'
+// We can't use import.meta.url in tests, so we inject the mock
+// through the bridge's worker factory
+import { WorkerBridge, WorkerCrashedError } from '../worker-bridge'
+import { ContextOverflowError } from '../context-window'
 
 function createBridgeWithMock(mock: MockLLMWorker): WorkerBridge {
-  const bridge = new WorkerBridge()
-  // Inject mock worker via private field
-  ;(bridge as any).worker = mock
-  return bridge
+  return new WorkerBridge(() => mock as unknown as Worker)
 }
 
 // ============================================================
@@ -118,8 +167,8 @@ describe('WorkerBridge', () => {
       expect(result).toBe(true)
       expect(onStatusChange).toHaveBeenCalledWith('loading')
       expect(onStatusChange).toHaveBeenCalledWith('ready')
-      expect(onProgress).toHaveBeenCalledWith(0.5, 'Loading...')
-      expect(onProgress).toHaveBeenCalledWith(1.0, 'Ready')
+      expect(onProgress).toHaveBeenCalledWith(0.5, 'Loading...', expect.objectContaining({ phase: 'preparing' }))
+      expect(onProgress).toHaveBeenCalledWith(1.0, 'Ready', expect.objectContaining({ phase: 'finished' }))
     })
 
     it('resolves false on failed init', async () => {
@@ -168,6 +217,35 @@ describe('WorkerBridge', () => {
       expect(result).toBe('Hello world!')
     })
 
+    it('reports token usage when the stream completes', async () => {
+      const onUsage = vi.fn()
+      const reader = bridge.chat([{ role: 'user', content: 'Hi' }], undefined, onUsage).getReader()
+
+      while (!(await reader.read()).done) {
+        // drain
+      }
+
+      expect(onUsage).toHaveBeenCalledWith({ prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 })
+    })
+
+    it('reports tool calls when the model asks for tools', async () => {
+      const onToolCalls = vi.fn()
+      const tools = [
+        {
+          type: 'function' as const,
+          function: { name: 'calculator', description: 'Math', parameters: { type: 'object' } },
+        },
+      ]
+      const reader = bridge
+        .chat([{ role: 'user', content: '2+2?' }], { tools }, undefined, onToolCalls)
+        .getReader()
+
+      expect((await reader.read()).done).toBe(true)
+      expect(onToolCalls).toHaveBeenCalledWith([
+        { id: 'call-1', type: 'function', function: { name: 'calculator', arguments: '{"x":1}' } },
+      ])
+    })
+
     it('errors from worker propagate as stream errors', async () => {
       const failMock = new FailingMockWorker()
       const failBridge = createBridgeWithMock(failMock)
@@ -179,18 +257,319 @@ describe('WorkerBridge', () => {
 
       failBridge.terminate()
     })
+
+    it('reports context overflows as ContextOverflowError', async () => {
+      const history = Array.from({ length: 11 }, () => ({ role: 'user' as const, content: 'Hi' }))
+      const reader = bridge.chat(history).getReader()
+
+      await expect(reader.read()).rejects.toBeInstanceOf(ContextOverflowError)
+    })
   })
 
   describe('abort()', () => {
-    it('sends abort message to worker', () => {
+    it('sends abort message for the in-flight chat request', () => {
       const postSpy = vi.spyOn(mock, 'postMessage')
+      bridge.chat([{ role: 'user', content: 'Hi' }])
+      const chatMsg = postSpy.mock.calls[0][0]
+
       bridge.abort()
-      expect(postSpy).toHaveBeenCalledWith({ type: 'abort' })
+
+      expect(postSpy).toHaveBeenCalledWith({ type: 'abort', requestId: chatMsg.requestId })
+    })
+
+    it('does nothing when no chat is in flight', () => {
+      const postSpy = vi.spyOn(mock, 'postMessage')
+      bridge.abort()
+      expect(postSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('request correlation', () => {
+    it('tags each request with a distinct requestId', () => {
+      const postSpy = vi.spyOn(mock, 'postMessage')
+      bridge.init('test-model')
+      bridge.chat([{ role: 'user', content: 'Hi' }])
+
+      const [initMsg, chatMsg] = postSpy.mock.calls.map((c) => c[0])
+      expect(initMsg.requestId).toBeTruthy()
+      expect(chatMsg.requestId).toBeTruthy()
+      expect(initMsg.requestId).not.toBe(chatMsg.requestId)
+    })
+
+    it('does not deliver a chat error to a concurrent init', async () => {
+      class MixedMockWorker extends MockLLMWorker {
+        protected override handleMessage(msg: WorkerMessageToWorker) {
+          if (msg.type === 'chat') {
+            this.dispatch({ type: 'error', requestId: msg.requestId, error: 'Out of memory', code: 'OUT_OF_MEMORY' })
+          } else {
+            super.handleMessage(msg)
+          }
+        }
+      }
+      const mixedBridge = createBridgeWithMock(new MixedMockWorker())
+      const onError = vi.fn()
+      mixedBridge.setCallbacks({ onError })
+
+      const initPromise = mixedBridge.init('test-model')
+      const reader = mixedBridge.chat([{ role: 'user', content: 'Hi' }]).getReader()
+
+      await expect(reader.read()).rejects.toThrow('Out of memory')
+      expect(await initPromise).toBe(true)
+      expect(onError).not.toHaveBeenCalled()
+
+      mixedBridge.terminate()
+    })
+
+    it('ignores replies for unknown request IDs', async () => {
+      const stream = bridge.chat([{ role: 'user', content: 'Hi' }])
+      ;(mock as unknown as { dispatch: (d: WorkerMessageFromWorker) => void }).dispatch({
+        type: 'chunk',
+        requestId: 'someone-else',
+        content: 'stray',
+      })
+
+      const reader = stream.getReader()
+      let result = ''
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        result += value
+      }
+
+      expect(result).toBe('Hello world!')
+    })
+  })
+
+  describe('switchModel()', () => {
+    it('sends a switch command and reports loading → ready', async () => {
+      await bridge.init('first-model')
+      const postSpy = vi.spyOn(mock, 'postMessage')
+      const onStatusChange = vi.fn()
+      bridge.setCallbacks({ onStatusChange })
+
+      const result = await bridge.switchModel('second-model')
+
+      expect(result).toBe(true)
+      expect(postSpy).toHaveBeenCalledWith(expect.objectContaining({ type: 'switch', model: 'second-model' }))
+      expect(onStatusChange.mock.calls.map((c) => c[0])).toEqual(['loading', 'ready'])
+    })
+  })
+
+  describe('toolSupport()', () => {
+    it('only allows tools for function-calling models', () => {
+      expect(bridge.toolSupport('Hermes-3-Llama-3.1-8B-q4f16_1-MLC')).toBe('forced')
+      expect(bridge.toolSupport('Llama-3.2-1B-Instruct-q4f16_1-MLC')).toBe('none')
+      expect(bridge.toolSupport(null)).toBe('none')
+    })
+  })
+
+  describe('cancelLoad()', () => {
+    /** Worker whose model load only finishes when cancelled */
+    class SlowLoadMockWorker extends MockLLMWorker {
+      private loading: string | null = null
+
+      protected override handleMessage(msg: WorkerMessageToWorker) {
+        if (msg.type === 'init') {
+          this.loading = msg.requestId
+          this.dispatch({
+            type: 'init-progress',
+            requestId: msg.requestId,
+            progress: 0.2,
+            text: 'Fetching...',
+            report: { phase: 'downloading', progress: 0.2, elapsedMs: 10 },
+          })
+        } else if (msg.type === 'abort' && msg.requestId === this.loading) {
+          this.dispatch({ type: 'init-complete', requestId: msg.requestId, success: false, cancelled: true })
+        } else {
+          super.handleMessage(msg)
+        }
+      }
+    }
+
+    it('resolves the load as cancelled and returns to idle', async () => {
+      const slowBridge = createBridgeWithMock(new SlowLoadMockWorker())
+      const onError = vi.fn()
+      const onStatusChange = vi.fn()
+      const onProgress = vi.fn()
+      slowBridge.setCallbacks({ onError, onStatusChange, onProgress })
+
+      const initPromise = slowBridge.init('big-model')
+      await vi.waitFor(() => expect(onProgress).toHaveBeenCalled())
+      slowBridge.cancelLoad()
+
+      expect(await initPromise).toBe(false)
+      expect(slowBridge.status).toBe('idle')
+      expect(onStatusChange.mock.calls.map((c) => c[0])).toEqual(['loading', 'idle'])
+      expect(onError).not.toHaveBeenCalled()
+
+      slowBridge.terminate()
+    })
+
+    it('does nothing when no load is in progress', async () => {
+      await bridge.init('test-model')
+      const postSpy = vi.spyOn(mock, 'postMessage')
+      bridge.cancelLoad()
+      expect(postSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('unload()', () => {
+    it('reports unloading → idle', async () => {
+      await bridge.init('test-model')
+      const onStatusChange = vi.fn()
+      bridge.setCallbacks({ onStatusChange })
+
+      await bridge.unload()
+
+      expect(onStatusChange.mock.calls.map((c) => c[0])).toEqual(['unloading', 'idle'])
+      expect(bridge.status).toBe('idle')
+    })
+
+    it('is a no-op before any model was loaded', async () => {
+      const postSpy = vi.spyOn(mock, 'postMessage')
+      await bridge.unload()
+      expect(postSpy).not.toHaveBeenCalled()
+      expect(bridge.status).toBe('idle')
+    })
+  })
+
+  describe('crash recovery', () => {
+    /** Worker that accepts requests but never replies to chat or ping */
+    class HangingMockWorker extends MockLLMWorker {
+      protected override handleMessage(msg: WorkerMessageToWorker) {
+        if (msg.type === 'init') super.handleMessage(msg)
+      }
+    }
+
+    function createRecoveringBridge(first: MockLLMWorker, options = {}) {
+      const workers: MockLLMWorker[] = []
+      // First spawn gets the given worker, respawns get a healthy one
+      const factory = vi.fn(() => {
+        const worker = workers.length === 0 ? first : new MockLLMWorker()
+        workers.push(worker)
+        return worker as unknown as Worker
+      })
+      return { bridge: new WorkerBridge(factory, options), factory, workers }
+    }
+
+    it('fails in-flight chats and respawns when the worker errors', async () => {
+      const { bridge: crashBridge, factory, workers } = createRecoveringBridge(new HangingMockWorker())
+      const onError = vi.fn()
+      const onStatusChange = vi.fn()
+      crashBridge.setCallbacks({ onError, onStatusChange })
+      await crashBridge.init('test-model')
+
+      const reader = crashBridge.chat([{ role: 'user', content: 'Hi' }]).getReader()
+      const readPromise = reader.read()
+      workers[0].emit(new ErrorEvent('error', { message: 'boom' }))
+
+      await expect(readPromise).rejects.toBeInstanceOf(WorkerCrashedError)
+      expect(workers[0].terminated).toBe(true)
+      expect(onError).toHaveBeenCalledWith('The inference worker crashed: boom', 'WORKER_CRASHED')
+
+      // A fresh worker is spawned and the last model reloaded
+      await vi.waitFor(() => expect(crashBridge.status).toBe('ready'))
+      expect(factory).toHaveBeenCalledTimes(2)
+      expect(onStatusChange).toHaveBeenCalledWith('error')
+
+      crashBridge.terminate()
+    })
+
+    it('treats a fatal message (GPU device lost) as a crash', async () => {
+      const { bridge: crashBridge, workers } = createRecoveringBridge(new HangingMockWorker())
+      const onError = vi.fn()
+      crashBridge.setCallbacks({ onError })
+      await crashBridge.init('test-model')
+
+      const reader = crashBridge.chat([{ role: 'user', content: 'Hi' }]).getReader()
+      const readPromise = reader.read()
+      workers[0].emit(new MessageEvent('message', { data: { type: 'fatal', error: 'Device was lost' } }))
+
+      await expect(readPromise).rejects.toThrow('Device was lost')
+      expect(onError).toHaveBeenCalledWith('Device was lost', 'WORKER_CRASHED')
+
+      crashBridge.terminate()
+    })
+
+    it('does not reload a model that was unloaded', async () => {
+      const { bridge: crashBridge, factory, workers } = createRecoveringBridge(new MockLLMWorker())
+      await crashBridge.init('test-model')
+      await crashBridge.unload()
+
+      workers[0].emit(new ErrorEvent('error', { message: 'boom' }))
+
+      expect(factory).toHaveBeenCalledTimes(1)
+      expect(crashBridge.status).toBe('error')
+
+      crashBridge.terminate()
+    })
+
+    it('declares the worker hung when heartbeats go unanswered', async () => {
+      vi.useFakeTimers()
+      try {
+        const { bridge: crashBridge } = createRecoveringBridge(new HangingMockWorker(), {
+          heartbeatIntervalMs: 100,
+          heartbeatTimeoutMs: 250,
+          maxRestarts: 0,
+        })
+        const onError = vi.fn()
+        crashBridge.setCallbacks({ onError })
+        const initPromise = crashBridge.init('test-model')
+        await vi.advanceTimersByTimeAsync(1)
+        await initPromise
+
+        const reader = crashBridge.chat([{ role: 'user', content: 'Hi' }]).getReader()
+        const readPromise = reader.read()
+        const assertion = expect(readPromise).rejects.toThrow('stopped responding')
+        await vi.advanceTimersByTimeAsync(400)
+
+        await assertion
+        expect(onError).toHaveBeenCalledWith('The inference worker stopped responding', 'WORKER_CRASHED')
+        expect(crashBridge.status).toBe('error')
+
+        crashBridge.terminate()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('keeps a responsive worker alive across heartbeats', async () => {
+      vi.useFakeTimers()
+      try {
+        const slowChat = new (class extends MockLLMWorker {
+          protected override handleMessage(msg: WorkerMessageToWorker) {
+            if (msg.type === 'chat') {
+              setTimeout(() => super.handleMessage(msg), 1000)
+            } else {
+              super.handleMessage(msg)
+            }
+          }
+        })()
+        const responsiveBridge = new WorkerBridge(() => slowChat as unknown as Worker, {
+          heartbeatIntervalMs: 100,
+          heartbeatTimeoutMs: 250,
+        })
+        const onError = vi.fn()
+        responsiveBridge.setCallbacks({ onError })
+
+        const reader = responsiveBridge.chat([{ role: 'user', content: 'Hi' }]).getReader()
+        const readPromise = reader.read()
+        await vi.advanceTimersByTimeAsync(1100)
+
+        expect((await readPromise).value).toBe('Hello')
+        expect(onError).not.toHaveBeenCalled()
+
+        responsiveBridge.terminate()
+      } finally {
+        vi.useRealTimers()
+      }
     })
   })
 
   describe('terminate()', () => {
-    it('terminates the worker', () => {
+    it('terminates the worker', async () => {
+      // The worker is created lazily, so use it once first
+      await bridge.init('test-model')
       bridge.terminate()
       expect(mock.terminated).toBe(true)
     })
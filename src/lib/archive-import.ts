@@ -0,0 +1,50 @@
+// ============================================================
+// Archive import — hands chat archives to the import worker and
+// waits for the parsed conversations
+// ============================================================
+
+import type { ArchiveImport, ArchiveImportOptions } from './chat-archives'
+import { ImportError } from './conversation-export'
+import { generateId } from './utils'
+
+export type ImportWorkerRequest = {
+  requestId: string
+  file: Blob
+  options: ArchiveImportOptions
+}
+
+export type ImportWorkerResponse =
+  | { type: 'result'; requestId: string; result: ArchiveImport }
+  | { type: 'error'; requestId: string; error: string; problems: string[] }
+
+function createImportWorker(): Worker {
+  return new Worker(new URL('../worker/import-worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Parse an archive in a short-lived worker. Rejects with ImportError
+ * when the file cannot be imported.
+ *
+ * @param createWorker Worker factory; tests pass a factory returning a mock.
+ */
+export function parseArchiveFile(
+  file: Blob,
+  options: ArchiveImportOptions = {},
+  createWorker: () => Worker = createImportWorker,
+): Promise<ArchiveImport> {
+  const worker = createWorker()
+  const requestId = generateId()
+
+  return new Promise<ArchiveImport>((resolve, reject) => {
+    worker.addEventListener('message', (event: MessageEvent<ImportWorkerResponse>) => {
+      const msg = event.data
+      if (msg.requestId !== requestId) return
+      if (msg.type === 'result') resolve(msg.result)
+      else reject(new ImportError(msg.error, msg.problems))
+    })
+    worker.addEventListener('error', (event) => {
+      reject(new ImportError(`The import worker failed: ${event.message || 'unknown error'}`))
+    })
+    worker.postMessage({ requestId, file, options } satisfies ImportWorkerRequest)
+  }).finally(() => worker.terminate())
+}
@@ -0,0 +1,136 @@
+// ============================================================
+// Built-in tools — calculator, date/time, conversation search
+// and a sandboxed JavaScript evaluator
+// ============================================================
+
+import { ToolRegistry, type Tool } from './tool-registry'
+import { evaluateExpression } from './calculator'
+import { runInSandbox } from './js-sandbox'
+import * as db from './database'
+import { truncate } from './utils'
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name]
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${name}" must be a non-empty string`)
+  }
+  return value
+}
+
+export const calculatorTool: Tool = {
+  label: 'Calculator',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'calculator',
+      description:
+        'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and functions such as sqrt, sin, log, min and max.',
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: { type: 'string', description: 'e.g. "(3 + 4) * sqrt(2)"' },
+        },
+        required: ['expression'],
+      },
+    },
+  },
+  async execute(args) {
+    const result = evaluateExpression(requireString(args, 'expression'))
+    if (!Number.isFinite(result)) throw new Error('Result is not a finite number')
+    return String(result)
+  },
+}
+
+export const dateTimeTool: Tool = {
+  label: 'Date & time',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'get_current_datetime',
+      description: 'Get the current date and time, optionally in a specific IANA time zone.',
+      parameters: {
+        type: 'object',
+        properties: {
+          timeZone: { type: 'string', description: 'e.g. "Europe/Istanbul"; defaults to the user\'s' },
+        },
+      },
+    },
+  },
+  async execute(args) {
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : undefined
+    const now = new Date()
+    const local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' })
+    return `${local} (ISO ${now.toISOString()})`
+  },
+}
+
+export const searchConversationsTool: Tool = {
+  label: 'Conversation search',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'search_conversations',
+      description:
+        "Search the user's saved conversations for messages containing every word of the query, best matches first.",
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          limit: { type: 'integer', description: 'Maximum results (default 5)' },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  async execute(args) {
+    const query = requireString(args, 'query')
+    const limit = typeof args.limit === 'number' ? Math.min(Math.max(1, args.limit), 20) : 5
+    const [hits, conversations] = await Promise.all([
+      db.searchIndex(query, limit),
+      db.listConversations(),
+    ])
+    if (hits.length === 0) return `No messages found for "${query}"`
+
+    const titles = new Map(conversations.map((c) => [c.id, c.title]))
+    return hits
+      .map(
+        ({ message: m }) =>
+          `[${titles.get(m.conversationId) ?? 'Untitled'}] ${m.role} (${m.createdAt.toISOString()}): ${truncate(m.content, 200)}`,
+      )
+      .join('\n')
+  },
+}
+
+export const runJavaScriptTool: Tool = {
+  label: 'JavaScript sandbox',
+  definition: {
+    type: 'function',
+    function: {
+      name: 'run_javascript',
+      description:
+        'Run JavaScript in an isolated sandbox without network or page access. The code is a function body: use `return` for the result and console.log for output.',
+      parameters: {
+        type: 'object',
+        properties: {
+          code: { type: 'string' },
+        },
+        required: ['code'],
+      },
+    },
+  },
+  async execute(args) {
+    const { logs, result, error } = await runInSandbox(requireString(args, 'code'))
+    if (error) throw new Error([...logs, error].join('\n'))
+    return [...logs, ...(result !== undefined ? [`=> ${result}`] : [])].join('\n') || '(no output)'
+  },
+}
+
+export const builtinTools: Tool[] = [
+  calculatorTool,
+  dateTimeTool,
+  searchConversationsTool,
+  runJavaScriptTool,
+]
+
+/** Registry used by the chat loop */
+export const toolRegistry = new ToolRegistry(builtinTools)
@@ -0,0 +1,153 @@
+// ============================================================
+// Calculator — safe arithmetic expression evaluator for the
+// calculator tool (no eval)
+//
+// Grammar:
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/' | '%') unary)*
+//   unary   := '-' unary | '+' unary | power
+//   power   := primary ('^' unary)?
+//   primary := number | constant | func '(' expr (',' expr)* ')' | '(' expr ')'
+// ============================================================
+
+const constants: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+}
+
+const functions: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+}
+
+type Token = { kind: 'number'; value: number } | { kind: 'name'; value: string } | { kind: 'op'; value: string }
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/iy
+  let index = 0
+
+  while (index < expression.length) {
+    pattern.lastIndex = index
+    const match = pattern.exec(expression)
+    if (!match) {
+      if (!expression.slice(index).trim()) break
+      throw new Error(`Unexpected character "${expression.slice(index).trim()[0]}"`)
+    }
+    index = pattern.lastIndex
+    if (match[1]) tokens.push({ kind: 'number', value: Number(match[1]) })
+    else if (match[2]) tokens.push({ kind: 'name', value: match[2].toLowerCase() })
+    else tokens.push({ kind: 'op', value: match[3] === '**' ? '^' : match[3] })
+  }
+
+  return tokens
+}
+
+/**
+ * Evaluate an arithmetic expression such as "2 * (3 + 4)^2" or
+ * "sqrt(2) * pi". Throws on syntax errors and unknown names.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()?.value === value
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`)
+    position++
+  }
+
+  const parseExpr = (): number => {
+    let value = parseTerm()
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value
+      const right = parseTerm()
+      value = op === '+' ? value + right : value - right
+    }
+    return value
+  }
+
+  const parseTerm = (): number => {
+    let value = parseUnary()
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value
+      const right = parseUnary()
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right
+    }
+    return value
+  }
+
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      position++
+      return -parseUnary()
+    }
+    if (isOp('+')) {
+      position++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  // Binds tighter than unary minus (-2^2 = -4) and is
+  // right-associative (2^3^2 = 2^9)
+  const parsePower = (): number => {
+    const base = parsePrimary()
+    if (isOp('^')) {
+      position++
+      return Math.pow(base, parseUnary())
+    }
+    return base
+  }
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++]
+    if (!token) throw new Error('Unexpected end of expression')
+
+    if (token.kind === 'number') return token.value
+
+    if (token.kind === 'name') {
+      if (Object.hasOwn(constants, token.value)) return constants[token.value]
+      if (!Object.hasOwn(functions, token.value)) throw new Error(`Unknown name "${token.value}"`)
+      const fn = functions[token.value]
+      expectOp('(')
+      const args = [parseExpr()]
+      while (isOp(',')) {
+        position++
+        args.push(parseExpr())
+      }
+      expectOp(')')
+      return fn(...args)
+    }
+
+    if (token.value === '(') {
+      const value = parseExpr()
+      expectOp(')')
+      return value
+    }
+
+    throw new Error(`Unexpected "${token.value}"`)
+  }
+
+  const result = parseExpr()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`)
+  return result
+}
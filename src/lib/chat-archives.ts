@@ -0,0 +1,531 @@
+// ============================================================
+// Chat archives — map exports from other chat tools (ChatGPT,
+// Open WebUI, Ollama-style message logs) and our own JSON export
+// onto conversations and messages
+//
+// ChatGPT and Open WebUI store each conversation as a tree: an
+// edited prompt or regenerated reply starts a new branch. The
+// branch the user last looked at becomes the conversation; the
+// others are either skipped or imported as separate conversations.
+// ============================================================
+
+import type { Conversation, Message } from '../types'
+import {
+  ImportError,
+  bundlesFromExport,
+  isJSONExport,
+  type ConversationBundle,
+} from './conversation-export'
+import { generateId } from './utils'
+
+export type ArchiveSource = 'terzillm' | 'chatgpt' | 'open-webui' | 'ollama'
+
+export interface ArchiveImportOptions {
+  /** Import every branch of a branching conversation, not just the current one */
+  allBranches?: boolean
+}
+
+export interface SkippedContent {
+  reason: string
+  count: number
+}
+
+export interface ArchiveImport {
+  source: ArchiveSource
+  bundles: ConversationBundle[]
+  /** Content that has no equivalent here and was left out */
+  skipped: SkippedContent[]
+}
+
+export const SOURCE_LABELS: Record<ArchiveSource, string> = {
+  terzillm: 'TerziLLM',
+  chatgpt: 'ChatGPT',
+  'open-webui': 'Open WebUI',
+  ollama: 'Ollama',
+}
+
+// Tally of skipped content by reason
+class SkipTally {
+  private counts = new Map<string, number>()
+
+  add(reason: string, count = 1) {
+    this.counts.set(reason, (this.counts.get(reason) ?? 0) + count)
+  }
+
+  toList(): SkippedContent[] {
+    return [...this.counts].map(([reason, count]) => ({ reason, count }))
+  }
+}
+
+// ============================================================
+// Shared helpers
+// ============================================================
+
+interface TreeNode {
+  parent: string | null
+  children: string[]
+}
+
+/**
+ * Root-to-leaf paths of a message tree. The path ending at (or
+ * passing through) `current` comes first.
+ */
+function branchPaths(nodes: Map<string, TreeNode>, current: string | null): string[][] {
+  const pathTo = (leaf: string) => {
+    const path: string[] = []
+    for (let id: string | null = leaf; id && nodes.has(id); id = nodes.get(id)!.parent) {
+      // Guard against cycles in malformed files
+      if (path.includes(id)) break
+      path.unshift(id)
+    }
+    return path
+  }
+
+  // Follow the first child down to a leaf
+  const leafBelow = (id: string) => {
+    let node = id
+    while (nodes.get(node)?.children.some((c) => nodes.has(c))) {
+      node = nodes.get(node)!.children.find((c) => nodes.has(c))!
+    }
+    return node
+  }
+
+  const leaves = [...nodes].filter(([, n]) => !n.children.some((c) => nodes.has(c))).map(([id]) => id)
+  const currentLeaf = current && nodes.has(current) ? leafBelow(current) : leaves[leaves.length - 1]
+  const ordered = currentLeaf ? [currentLeaf, ...leaves.filter((l) => l !== currentLeaf)] : leaves
+  return ordered.map(pathTo)
+}
+
+/** Seconds or milliseconds since the epoch, or an ISO string */
+function toDate(value: unknown): Date | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Anything before 2001 in milliseconds is really seconds
+    return new Date(value < 1e12 ? value * 1000 : value)
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
+
+/**
+ * Messages are ordered by time, so give undated messages and ties a
+ * time just after the previous message.
+ */
+function orderTimestamps(messages: Message[], fallback: Date): Message[] {
+  let previous = fallback.getTime() - 1
+  return messages.map((m) => {
+    const time = Math.max(m.createdAt.getTime() || 0, previous + 1)
+    previous = time
+    return { ...m, createdAt: new Date(time) }
+  })
+}
+
+function titleFrom(messages: Message[]): string {
+  const first = messages.find((m) => m.role === 'user')?.content.trim()
+  return first ? first.slice(0, 50) : 'Imported conversation'
+}
+
+/**
+ * Build conversations from the branches of one source conversation:
+ * the current branch keeps the title, the others are numbered.
+ */
+type ConversationBase = Omit<Conversation, 'createdAt' | 'updatedAt'> & {
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+function branchBundles(
+  base: ConversationBase,
+  branches: Message[][],
+  options: ArchiveImportOptions,
+  skipped: SkipTally,
+): ConversationBundle[] {
+  const kept = options.allBranches ? branches : branches.slice(0, 1)
+  if (!options.allBranches && branches.length > 1) {
+    skipped.add('alternative branch', branches.length - 1)
+  }
+
+  return kept.flatMap((branch, i) => {
+    if (branch.length === 0) return []
+    const createdAt = base.createdAt ?? branch[0].createdAt
+    const conversationId = i === 0 ? base.id : `${base.id}-branch-${i + 1}`
+    const messages = orderTimestamps(
+      branch.map((m) => ({ ...m, conversationId })),
+      createdAt,
+    )
+    return [
+      {
+        conversation: {
+          ...base,
+          id: conversationId,
+          title: i === 0 ? base.title : `${base.title} (branch ${i + 1})`,
+          createdAt,
+          updatedAt: base.updatedAt ?? messages[messages.length - 1].createdAt,
+        },
+        messages,
+      },
+    ]
+  })
+}
+
+const asArray = (data: unknown): unknown[] => (Array.isArray(data) ? data : [data])
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// ============================================================
+// ChatGPT — conversations.json from "Export data"
+// ============================================================
+
+interface ChatGPTMessage {
+  id: string
+  author: { role: string; name?: string | null }
+  create_time?: number | null
+  content?: { content_type: string; parts?: unknown[]; text?: string; language?: string }
+  recipient?: string
+  metadata?: { is_visually_hidden_from_conversation?: boolean; model_slug?: string }
+}
+
+interface ChatGPTNode {
+  id: string
+  message?: ChatGPTMessage | null
+  parent?: string | null
+  children?: string[]
+}
+
+interface ChatGPTConversation {
+  id?: string
+  conversation_id?: string
+  title?: string | null
+  create_time?: number | null
+  update_time?: number | null
+  mapping: Record<string, ChatGPTNode>
+  current_node?: string | null
+}
+
+function chatGPTText(message: ChatGPTMessage, skipped: SkipTally): string | null {
+  const content = message.content
+  if (!content) return null
+
+  switch (content.content_type) {
+    case 'text':
+      return (content.parts ?? []).filter((p): p is string => typeof p === 'string').join('\n')
+    case 'code': {
+      const language = content.language && content.language !== 'unknown' ? content.language : ''
+      return `\`\`\`${language}\n${content.text ?? ''}\n\`\`\``
+    }
+    case 'multimodal_text': {
+      const parts = content.parts ?? []
+      const attachments = parts.filter((p) => typeof p !== 'string').length
+      if (attachments > 0) skipped.add('image or file attachment', attachments)
+      return parts.filter((p): p is string => typeof p === 'string').join('\n')
+    }
+    case 'user_editable_context':
+      // Custom instructions, repeated in every conversation
+      return null
+    default:
+      skipped.add(`unsupported content (${content.content_type})`)
+      return null
+  }
+}
+
+function mapChatGPTConversation(
+  raw: ChatGPTConversation,
+  options: ArchiveImportOptions,
+  skipped: SkipTally,
+): ConversationBundle[] {
+  const id = raw.conversation_id ?? raw.id ?? generateId()
+  const nodes = new Map<string, TreeNode>(
+    Object.entries(raw.mapping).map(([key, node]) => [
+      key,
+      { parent: node.parent ?? null, children: node.children ?? [] },
+    ]),
+  )
+
+  let systemPrompt: string | undefined
+  // Each node maps once, however many branches share it
+  const mapped = new Map<string, Message | null>()
+  const mapNode = (key: string): Message | null => {
+    if (mapped.has(key)) return mapped.get(key)!
+    const message = raw.mapping[key]?.message
+    let result: Message | null = null
+
+    if (message && !message.metadata?.is_visually_hidden_from_conversation) {
+      const role = message.author.role
+      if (role === 'tool') {
+        skipped.add('tool output')
+      } else if (role === 'assistant' && message.recipient && message.recipient !== 'all') {
+        skipped.add('tool call')
+      } else if (role === 'system') {
+        const text = chatGPTText(message, skipped)
+        if (text?.trim()) systemPrompt ??= text
+      } else if (role === 'user' || role === 'assistant') {
+        const text = chatGPTText(message, skipped)
+        if (text?.trim()) {
+          result = {
+            id: message.id || key,
+            conversationId: id,
+            role,
+            content: text,
+            createdAt: toDate(message.create_time) ?? new Date(NaN),
+            ...(role === 'assistant' &&
+              message.metadata?.model_slug && { metadata: { model: message.metadata.model_slug } }),
+          }
+        }
+      } else {
+        skipped.add(`message from ${role}`)
+      }
+    }
+    mapped.set(key, result)
+    return result
+  }
+
+  const branches = branchPaths(nodes, raw.current_node ?? null).map((path) =>
+    path.map(mapNode).filter((m): m is Message => m !== null),
+  )
+  // Branches that differ only in hidden or skipped nodes are the same
+  const distinct = branches.filter(
+    (branch, i) =>
+      branch.length > 0 &&
+      !branches.slice(0, i).some((other) => other.map((m) => m.id).join() === branch.map((m) => m.id).join()),
+  )
+
+  const title = raw.title?.trim() || titleFrom(distinct[0] ?? [])
+  return branchBundles(
+    {
+      id,
+      title,
+      createdAt: toDate(raw.create_time),
+      updatedAt: toDate(raw.update_time),
+      ...(systemPrompt && { systemPrompt }),
+    },
+    distinct,
+    options,
+    skipped,
+  )
+}
+
+// ============================================================
+// Open WebUI — "Export chats" JSON
+// ============================================================
+
+interface OpenWebUIMessage {
+  id: string
+  parentId?: string | null
+  childrenIds?: string[]
+  role: string
+  content?: unknown
+  timestamp?: number
+  model?: string
+  files?: unknown[]
+  images?: unknown[]
+}
+
+interface OpenWebUIChat {
+  id?: string
+  title?: string
+  created_at?: number
+  updated_at?: number
+  chat: {
+    title?: string
+    system?: string
+    params?: { system?: string }
+    history?: { messages?: Record<string, OpenWebUIMessage>; currentId?: string | null }
+    messages?: OpenWebUIMessage[]
+    timestamp?: number
+  }
+}
+
+function mapLogMessage(
+  message: { role?: unknown; content?: unknown; files?: unknown[]; images?: unknown[] },
+  conversationId: string,
+  fallbackId: string,
+  timestamp: unknown,
+  model: string | undefined,
+  skipped: SkipTally,
+  onSystem: (text: string) => void,
+): Message | null {
+  const attachments = (message.files?.length ?? 0) + (message.images?.length ?? 0)
+  if (attachments > 0) skipped.add('image or file attachment', attachments)
+
+  if (typeof message.content !== 'string') {
+    if (message.content != null) skipped.add('non-text message')
+    return null
+  }
+  if (message.role === 'system') {
+    if (message.content.trim()) onSystem(message.content)
+    return null
+  }
+  if (message.role === 'tool') {
+    skipped.add('tool output')
+    return null
+  }
+  if (message.role !== 'user' && message.role !== 'assistant') {
+    skipped.add(`message from ${String(message.role)}`)
+    return null
+  }
+  if (!message.content.trim()) return null
+
+  return {
+    id: fallbackId,
+    conversationId,
+    role: message.role,
+    content: message.content,
+    createdAt: toDate(timestamp) ?? new Date(NaN),
+    ...(message.role === 'assistant' && model && { metadata: { model } }),
+  }
+}
+
+function mapOpenWebUIChat(
+  raw: OpenWebUIChat,
+  options: ArchiveImportOptions,
+  skipped: SkipTally,
+): ConversationBundle[] {
+  const id = raw.id ?? generateId()
+  let systemPrompt = raw.chat.params?.system || raw.chat.system || undefined
+  const onSystem = (text: string) => (systemPrompt ??= text)
+  const toMessage = (m: OpenWebUIMessage, key: string) =>
+    mapLogMessage(m, id, m.id || key, m.timestamp, m.model, skipped, onSystem)
+
+  let branches: Message[][]
+  const history = raw.chat.history?.messages
+  if (history && Object.keys(history).length > 0) {
+    const nodes = new Map<string, TreeNode>(
+      Object.entries(history).map(([key, m]) => [
+        key,
+        { parent: m.parentId ?? null, children: m.childrenIds ?? [] },
+      ]),
+    )
+    const mapped = new Map<string, Message | null>()
+    const mapNode = (key: string) => {
+      if (!mapped.has(key)) mapped.set(key, toMessage(history[key], key))
+      return mapped.get(key)!
+    }
+    branches = branchPaths(nodes, raw.chat.history?.currentId ?? null).map((path) =>
+      path.map(mapNode).filter((m): m is Message => m !== null),
+    )
+  } else {
+    // Older exports only have the flat list of the current branch
+    branches = [
+      (raw.chat.messages ?? [])
+        .map((m, i) => toMessage(m, `${id}-${i}`))
+        .filter((m): m is Message => m !== null),
+    ]
+  }
+
+  const title = (raw.title || raw.chat.title)?.trim() || titleFrom(branches[0] ?? [])
+  return branchBundles(
+    {
+      id,
+      title,
+      createdAt: toDate(raw.created_at ?? raw.chat.timestamp),
+      updatedAt: toDate(raw.updated_at),
+      ...(systemPrompt && { systemPrompt }),
+    },
+    branches,
+    options,
+    skipped,
+  )
+}
+
+// ============================================================
+// Ollama-style message logs — { model?, messages: [...] }
+// ============================================================
+
+interface OllamaLog {
+  id?: string
+  title?: string
+  model?: string
+  created_at?: string | number
+  messages: { role?: unknown; content?: unknown; images?: unknown[]; created_at?: string }[]
+}
+
+function mapOllamaLog(raw: OllamaLog, skipped: SkipTally): ConversationBundle[] {
+  const id = raw.id ?? generateId()
+  let systemPrompt: string | undefined
+  const messages = raw.messages
+    .map((m) =>
+      mapLogMessage(m, id, generateId(), m.created_at ?? raw.created_at, raw.model, skipped, (text) => {
+        systemPrompt ??= text
+      }),
+    )
+    .filter((m): m is Message => m !== null)
+
+  return branchBundles(
+    {
+      id,
+      title: raw.title?.trim() || titleFrom(messages),
+      createdAt: toDate(raw.created_at),
+      updatedAt: null,
+      ...(raw.model && { modelId: raw.model }),
+      ...(systemPrompt && { systemPrompt }),
+    },
+    [messages],
+    {},
+    skipped,
+  )
+}
+
+// ============================================================
+// Entry point
+// ============================================================
+
+/** Which tool produced an archive, judging by its first conversation */
+export function detectArchiveSource(data: unknown): ArchiveSource | null {
+  if (isJSONExport(data)) return 'terzillm'
+  const first = asArray(data)[0]
+  if (!isRecord(first)) return null
+  if (isRecord(first.mapping)) return 'chatgpt'
+  if (isRecord(first.chat)) return 'open-webui'
+  if (Array.isArray(first.messages)) return 'ollama'
+  return null
+}
+
+/**
+ * Read an archive from any supported tool. Throws ImportError when
+ * the format is not recognised or nothing could be imported.
+ */
+export function parseArchive(text: string, options: ArchiveImportOptions = {}): ArchiveImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ImportError('The file is not valid JSON')
+  }
+
+  const source = detectArchiveSource(data)
+  if (!source) {
+    throw new ImportError(
+      'Unrecognised file: expected an export from TerziLLM, ChatGPT, Open WebUI or Ollama',
+    )
+  }
+  if (source === 'terzillm') {
+    return { source, bundles: bundlesFromExport(data), skipped: [] }
+  }
+
+  const skipped = new SkipTally()
+  const bundles: ConversationBundle[] = []
+  for (const item of asArray(data)) {
+    if (!isRecord(item)) {
+      skipped.add('unreadable conversation')
+      continue
+    }
+    if (source === 'chatgpt' && isRecord(item.mapping)) {
+      bundles.push(...mapChatGPTConversation(item as unknown as ChatGPTConversation, options, skipped))
+    } else if (source === 'open-webui' && isRecord(item.chat)) {
+      bundles.push(...mapOpenWebUIChat(item as unknown as OpenWebUIChat, options, skipped))
+    } else if (source === 'ollama' && Array.isArray(item.messages)) {
+      bundles.push(...mapOllamaLog(item as unknown as OllamaLog, skipped))
+    } else {
+      skipped.add('unreadable conversation')
+    }
+  }
+
+  if (bundles.length === 0) {
+    throw new ImportError(
+      `No conversations with text messages found in the ${SOURCE_LABELS[source]} export`,
+    )
+  }
+  return { source, bundles, skipped: skipped.toList() }
+}
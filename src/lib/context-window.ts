@@ -0,0 +1,126 @@
+// ============================================================
+// Context window — token estimates and history truncation so a
+// long conversation still fits the model's context
+// ============================================================
+
+import { AVAILABLE_MODELS, type ContextSettings, type Message } from '../types'
+
+/** Used for remote models, whose window we cannot look up */
+export const DEFAULT_CONTEXT_WINDOW = 4096
+
+/** Tokens kept free for the reply when max_tokens is not set */
+export const DEFAULT_REPLY_RESERVE = 512
+
+/** Upper bound on the summary of trimmed turns */
+export const SUMMARY_MAX_TOKENS = 256
+
+// The BPE tokenizers of the bundled models (Llama 3, Qwen 2.5, Phi 3.5)
+// average ~4 characters per token on English; 3.5 errs towards
+// trimming a little early rather than overflowing
+const CHARS_PER_TOKEN = 3.5
+// Role header and end-of-turn markers added by chat templates
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+/** Raised when the prompt cannot fit the context window */
+export class ContextOverflowError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContextOverflowError'
+  }
+}
+
+/**
+ * Whether an engine or server error is a context overflow, e.g.
+ * WebLLM's "Prompt tokens exceed context window size" or OpenAI's
+ * "maximum context length is 8192 tokens".
+ */
+export function isContextOverflowMessage(message: string): boolean {
+  return /context (window|length|size)/i.test(message)
+}
+
+export function contextWindowFor(modelId: string | null): number {
+  return AVAILABLE_MODELS.find((m) => m.id === modelId)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/** Estimated prompt tokens for a message, including tool call payloads */
+export function estimateMessageTokens(message: Pick<Message, 'content' | 'toolCalls'>): number {
+  const calls = message.toolCalls
+    ?.map((c) => c.function.name + c.function.arguments)
+    .join('') ?? ''
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + estimateTokens(calls)
+}
+
+export function estimateHistoryTokens(messages: Pick<Message, 'content' | 'toolCalls'>[]): number {
+  return messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0)
+}
+
+export interface FittedHistory {
+  /** Messages to send, oldest first */
+  kept: Message[]
+  /** Older messages left out, oldest first */
+  dropped: Message[]
+}
+
+/**
+ * Trim `history` to fit `budget` tokens. Whole turns are dropped from
+ * the front so a kept history always starts at a user message and
+ * never splits a tool call from its result.
+ *
+ * 'sliding-window' keeps as many recent turns as fit; 'keep-last-n'
+ * also drops everything before the last `keepLastN` messages (extended
+ * back to the start of their turn); 'summarize' trims like
+ * 'sliding-window' and leaves the dropped turns for the caller to
+ * summarize.
+ *
+ * Throws ContextOverflowError when even the last turn does not fit.
+ */
+export function fitToContext(
+  history: Message[],
+  budget: number,
+  settings: ContextSettings,
+): FittedHistory {
+  const turnStarts = history.flatMap((m, i) => (m.role === 'user' ? [i] : []))
+  if (turnStarts.length === 0) return { kept: history, dropped: [] }
+
+  // Keeping everything is always an option, even before the first user turn
+  let candidates = turnStarts[0] === 0 ? turnStarts : [0, ...turnStarts]
+  if (settings.strategy === 'keep-last-n') {
+    const limit = history.length - settings.keepLastN
+    // The latest turn start that still keeps the last N messages
+    const first = [...candidates].reverse().find((i) => i <= limit) ?? 0
+    candidates = candidates.filter((i) => i >= first)
+  }
+
+  // Suffix sums let each candidate start be checked in O(1)
+  const suffix = new Array<number>(history.length + 1).fill(0)
+  for (let i = history.length - 1; i >= 0; i--) {
+    suffix[i] = suffix[i + 1] + estimateMessageTokens(history[i])
+  }
+
+  const start = candidates.find((i) => suffix[i] <= budget)
+  if (start === undefined) {
+    throw new ContextOverflowError(
+      `The latest message needs ~${suffix[turnStarts[turnStarts.length - 1]]} tokens but only ${budget} fit in the context window`,
+    )
+  }
+  return { kept: history.slice(start), dropped: history.slice(0, start) }
+}
+
+/** Prompt asking the model to condense trimmed turns */
+export function summaryPrompt(dropped: Message[], previousSummary?: string): string {
+  const transcript = dropped
+    .filter((m) => m.content.trim())
+    .map((m) => `${m.role}: ${m.content}`)
+    .join('\n')
+  return [
+    'Summarize the conversation below in a few sentences so it can be continued later.',
+    'Keep names, facts, decisions and open questions. Reply with the summary only.',
+    ...(previousSummary ? ['', `Earlier summary: ${previousSummary}`] : []),
+    '',
+    transcript,
+  ].join('\n')
+}
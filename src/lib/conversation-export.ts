@@ -0,0 +1,421 @@
+// ============================================================
+// Conversation export & import — a versioned JSON format that
+// round-trips everything, plus Markdown and a static HTML page
+// for reading and sharing
+// ============================================================
+
+import type { Conversation, Message } from '../types'
+import { validateJson, type JsonSchema } from './structured-output'
+import { generateId } from './utils'
+import { activePath, buildTree } from './message-tree'
+
+export const EXPORT_FORMAT = 'terzillm-conversations'
+/** Bump when the JSON layout changes; older files must stay importable */
+export const EXPORT_VERSION = 1
+
+export type ExportFormat = 'json' | 'markdown' | 'html'
+
+export interface ConversationBundle {
+  conversation: Conversation
+  messages: Message[]
+}
+
+// Dates travel as ISO strings
+type WithIsoDates<T, K extends keyof T> = Omit<T, K> & Record<K, string>
+type WithOptionalIsoDates<T, K extends keyof T> = Omit<T, K> & Partial<Record<K, string>>
+export type ExportedMessage = WithIsoDates<Message, 'createdAt'>
+export type ExportedConversation = WithOptionalIsoDates<
+  WithIsoDates<Conversation, 'createdAt' | 'updatedAt'>,
+  'pinnedAt' | 'archivedAt'
+> & {
+  messages: ExportedMessage[]
+}
+
+export interface ConversationExportFile {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  conversations: ExportedConversation[]
+}
+
+/** Raised when an import file cannot be read; `problems` lists each issue */
+export class ImportError extends Error {
+  problems: string[]
+
+  constructor(message: string, problems: string[] = []) {
+    super(message)
+    this.name = 'ImportError'
+    this.problems = problems
+  }
+}
+
+// ============================================================
+// JSON
+// ============================================================
+
+export function toJSONExport(bundles: ConversationBundle[], exportedAt = new Date()): string {
+  const file = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt,
+    conversations: bundles.map(({ conversation, messages }) => ({ ...conversation, messages })),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+const dateString: JsonSchema = { type: 'string', minLength: 1 }
+
+const exportSchema: JsonSchema = {
+  type: 'object',
+  required: ['format', 'version', 'conversations'],
+  properties: {
+    format: { const: EXPORT_FORMAT },
+    version: { type: 'integer', minimum: 1 },
+    conversations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title', 'createdAt', 'updatedAt', 'messages'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          title: { type: 'string' },
+          createdAt: dateString,
+          updatedAt: dateString,
+          activeLeafId: { type: 'string' },
+          pinnedAt: dateString,
+          archivedAt: dateString,
+          folderId: { type: 'string' },
+          tagIds: { type: 'array', items: { type: 'string' } },
+          messages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'role', 'content', 'createdAt'],
+              properties: {
+                id: { type: 'string', minLength: 1 },
+                role: { enum: ['user', 'assistant', 'system', 'tool'] },
+                content: { type: 'string' },
+                createdAt: dateString,
+                parentId: { type: ['string', 'null'] },
+                metadata: { type: 'object' },
+                toolCalls: { type: 'array' },
+                toolCallId: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+}
+
+function parseDate(value: string, path: string, problems: string[]): Date {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) problems.push(`${path}: not a valid date`)
+  return date
+}
+
+/**
+ * Read an export file. Throws ImportError when it is not JSON, not
+ * a TerziLLM export, from a newer version, or malformed.
+ */
+export function parseJSONExport(text: string): ConversationBundle[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ImportError('The file is not valid JSON')
+  }
+  return bundlesFromExport(data)
+}
+
+/** Whether parsed JSON claims to be one of our exports */
+export function isJSONExport(data: unknown): boolean {
+  return (data as Partial<ConversationExportFile> | null)?.format === EXPORT_FORMAT
+}
+
+/** Like parseJSONExport, for JSON that is already parsed */
+export function bundlesFromExport(data: unknown): ConversationBundle[] {
+  const record = data as Partial<ConversationExportFile> | null
+  if (typeof record !== 'object' || record === null || record.format !== EXPORT_FORMAT) {
+    throw new ImportError('The file is not a TerziLLM conversation export')
+  }
+  if (typeof record.version === 'number' && record.version > EXPORT_VERSION) {
+    throw new ImportError(
+      `The file was exported by a newer version of TerziLLM (format ${record.version})`,
+    )
+  }
+
+  const problems = validateJson(data, exportSchema)
+  if (problems.length > 0) {
+    throw new ImportError('The file does not match the export format', problems)
+  }
+
+  const bundles = (data as ConversationExportFile).conversations.map(
+    ({ messages, pinnedAt, archivedAt, ...conversation }, i) => ({
+      conversation: {
+        ...conversation,
+        createdAt: parseDate(conversation.createdAt, `$.conversations[${i}].createdAt`, problems),
+        updatedAt: parseDate(conversation.updatedAt, `$.conversations[${i}].updatedAt`, problems),
+        ...(pinnedAt && {
+          pinnedAt: parseDate(pinnedAt, `$.conversations[${i}].pinnedAt`, problems),
+        }),
+        ...(archivedAt && {
+          archivedAt: parseDate(archivedAt, `$.conversations[${i}].archivedAt`, problems),
+        }),
+      },
+      // The conversation an exported message belongs to is implied
+      // by where it appears
+      messages: messages.map((message, j) => ({
+        ...message,
+        conversationId: conversation.id,
+        createdAt: parseDate(
+          message.createdAt,
+          `$.conversations[${i}].messages[${j}].createdAt`,
+          problems,
+        ),
+      })),
+    }),
+  )
+  if (problems.length > 0) {
+    throw new ImportError('The file does not match the export format', problems)
+  }
+  return bundles
+}
+
+/**
+ * Give imported conversations and messages fresh IDs where they
+ * collide with existing ones (or with each other), keeping the
+ * references between them intact.
+ */
+export function remapIds(
+  bundles: ConversationBundle[],
+  taken: { conversationIds: Set<string>; messageIds: Set<string> },
+  newId: () => string = generateId,
+): ConversationBundle[] {
+  const conversationIds = new Set(taken.conversationIds)
+  const messageIds = new Set(taken.messageIds)
+  const claim = (ids: Set<string>, id: string) => {
+    const free = ids.has(id) ? newId() : id
+    ids.add(free)
+    return free
+  }
+
+  return bundles.map(({ conversation, messages }) => {
+    const conversationId = claim(conversationIds, conversation.id)
+    const messageIdMap = new Map(messages.map((m) => [m.id, claim(messageIds, m.id)]))
+    const messageId = (id: string) => messageIdMap.get(id) ?? id
+    const summary = conversation.contextSummary
+    const leafId = conversation.activeLeafId
+
+    return {
+      conversation: {
+        ...conversation,
+        id: conversationId,
+        ...(summary && {
+          contextSummary: { ...summary, throughMessageId: messageId(summary.throughMessageId) },
+        }),
+        ...(leafId && { activeLeafId: messageId(leafId) }),
+      },
+      messages: messages.map((m) => ({
+        ...m,
+        id: messageIdMap.get(m.id)!,
+        conversationId,
+        ...(m.parentId && { parentId: messageId(m.parentId) }),
+      })),
+    }
+  })
+}
+
+// ============================================================
+// Markdown
+// ============================================================
+
+const roleLabels: Record<Message['role'], string> = {
+  user: 'You',
+  assistant: 'TerziLLM',
+  system: 'System',
+  tool: 'Tool result',
+}
+
+// A fence longer than any backtick run in the content
+function fenceFor(content: string): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length))
+  return '`'.repeat(longest + 1)
+}
+
+// Arguments arrive JSON-encoded; show them indented when they parse
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2)
+  } catch {
+    return args
+  }
+}
+
+function messageToMarkdown(message: Message): string {
+  const parts = [`### ${roleLabels[message.role]}`]
+  if (message.role === 'tool') {
+    const fence = fenceFor(message.content)
+    parts.push(`${fence}\n${message.content}\n${fence}`)
+  } else if (message.content) {
+    parts.push(message.content)
+  }
+  for (const call of message.toolCalls ?? []) {
+    const args = formatArguments(call.function.arguments)
+    const fence = fenceFor(args)
+    parts.push(`Called \`${call.function.name}\`:\n\n${fence}json\n${args}\n${fence}`)
+  }
+  return parts.join('\n\n')
+}
+
+// Documents show the branch that was on screen
+function shownMessages({ conversation, messages }: ConversationBundle): Message[] {
+  return activePath(buildTree(messages), conversation.activeLeafId)
+}
+
+export function toMarkdownExport(bundles: ConversationBundle[]): string {
+  return bundles
+    .map((bundle) =>
+      [
+        `# ${bundle.conversation.title}`,
+        `_${bundle.conversation.createdAt.toLocaleString()}_`,
+        ...shownMessages(bundle).map(messageToMarkdown),
+      ].join('\n\n'),
+    )
+    .join('\n\n---\n\n')
+    .concat('\n')
+}
+
+// ============================================================
+// HTML
+// ============================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Code fences become <pre> blocks; everything else keeps its line breaks
+function contentToHtml(content: string): string {
+  return content
+    .split(/^(```[^\n]*\n[\s\S]*?\n```)$/m)
+    .filter((part) => part.trim() !== '')
+    .map((part) => {
+      const fence = /^```[^\n]*\n([\s\S]*?)\n```$/.exec(part)
+      return fence
+        ? `<pre><code>${escapeHtml(fence[1])}</code></pre>`
+        : `<p>${escapeHtml(part.trim())}</p>`
+    })
+    .join('\n')
+}
+
+const HTML_STYLE = `
+body { margin: 0; background: #0f172a; color: #e2e8f0; font: 15px/1.6 system-ui, sans-serif; }
+main { max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+h1 { font-size: 1.4rem; margin: 2rem 0 0.25rem; }
+time { color: #94a3b8; font-size: 0.8rem; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 1rem; background: #334155; }
+.message.user { background: #2563eb; color: #fff; margin-left: 15%; }
+.message.tool { background: #1e293b; font-size: 0.85rem; }
+.role { font-size: 0.75rem; font-weight: 600; opacity: 0.75; }
+p { margin: 0.25rem 0; white-space: pre-wrap; word-wrap: break-word; }
+pre { background: #020617; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; }
+hr { border: 0; border-top: 1px solid #334155; margin: 2rem 0; }
+`.trim()
+
+function messageToHtml(message: Message): string {
+  const calls = (message.toolCalls ?? []).map(
+    (call) =>
+      `<p>Called <code>${escapeHtml(call.function.name)}</code></p>\n<pre><code>${escapeHtml(
+        formatArguments(call.function.arguments),
+      )}</code></pre>`,
+  )
+  const body =
+    message.role === 'tool'
+      ? `<pre><code>${escapeHtml(message.content)}</code></pre>`
+      : contentToHtml(message.content)
+  return [
+    `<section class="message ${message.role}">`,
+    `<div class="role">${roleLabels[message.role]}</div>`,
+    body,
+    ...calls,
+    '</section>',
+  ].join('\n')
+}
+
+/** A standalone page with inline styles and no scripts */
+export function toHTMLExport(bundles: ConversationBundle[]): string {
+  const title = bundles.length === 1 ? bundles[0].conversation.title : 'TerziLLM conversations'
+  const conversations = bundles.map((bundle) => {
+    const { conversation } = bundle
+    return [
+      `<article>`,
+      `<h1>${escapeHtml(conversation.title)}</h1>`,
+      `<time datetime="${conversation.createdAt.toISOString()}">${escapeHtml(
+        conversation.createdAt.toLocaleString(),
+      )}</time>`,
+      ...shownMessages(bundle).map(messageToHtml),
+      `</article>`,
+    ].join('\n')
+  })
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<main>
+${conversations.join('\n<hr>\n')}
+</main>
+</body>
+</html>
+`
+}
+
+// ============================================================
+// Files
+// ============================================================
+
+interface FormatInfo {
+  extension: string
+  type: string
+  render: (bundles: ConversationBundle[]) => string
+}
+
+const formats: Record<ExportFormat, FormatInfo> = {
+  json: { extension: 'json', type: 'application/json', render: (b) => toJSONExport(b) },
+  markdown: { extension: 'md', type: 'text/markdown', render: toMarkdownExport },
+  html: { extension: 'html', type: 'text/html', render: toHTMLExport },
+}
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50) || 'conversation'
+  )
+}
+
+/** The contents and file name of an export */
+export function renderExport(
+  bundles: ConversationBundle[],
+  format: ExportFormat,
+): { filename: string; content: string; type: string } {
+  const { extension, type, render } = formats[format]
+  const name =
+    bundles.length === 1
+      ? slugify(bundles[0].conversation.title)
+      : `terzillm-conversations-${new Date().toISOString().slice(0, 10)}`
+  return { filename: `${name}.${extension}`, content: render(bundles), type }
+}
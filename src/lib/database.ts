@@ -1,29 +1,86 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb'
-import type { Conversation, Message } from '../types'
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPObjectStore, type StoreNames } from 'idb'
+import type {
+  Conversation,
+  ConversationOrganization,
+  ConversationSettings,
+  Folder,
+  GenerationPreset,
+  Message,
+  SearchHit,
+  SearchPosting,
+  Tag,
+  TrashItem,
+} from '../types'
+import { LATEST_VERSION, backupStores, runMigrations } from './db-migrations'
+import { isSearchable, postingsFor, queryTerms, rankMatches } from './search'
+import { remapIds, type ConversationBundle } from './conversation-export'
+import { trashedAt } from './trash'
+import { estimateMessageTokens } from './context-window'
+import {
+  activePath,
+  buildTree,
+  latestLeaf,
+  leafWithout,
+  subtree,
+  type MessageTree,
+} from './message-tree'
 
 // ============================================================
 // IndexedDB Schema
 // ============================================================
 
-interface TerziDBSchema extends DBSchema {
+export interface TerziDBSchema extends DBSchema {
   conversations: {
     key: string
     value: Conversation
-    indexes: { 'by-updatedAt': Date }
+    indexes: {
+      'by-updatedAt': Date
+      'by-folderId': string
+      'by-tagIds': string
+      'by-deletedAt': Date
+    }
   }
   messages: {
     key: string
     value: Message
-    indexes: { 'by-conversationId': string }
+    indexes: {
+      'by-conversationId': string
+      'by-conversation-createdAt': [string, Date]
+      'by-deletedAt': Date
+    }
   }
   settings: {
     key: string
     value: { key: string; value: unknown }
   }
+  presets: {
+    key: string
+    value: GenerationPreset
+  }
+  searchIndex: {
+    key: [string, string]
+    value: SearchPosting
+    indexes: { 'by-messageId': string }
+  }
+  folders: {
+    key: string
+    value: Folder
+  }
+  tags: {
+    key: string
+    value: Tag
+  }
 }
 
 const DB_NAME = 'terzillm'
-const DB_VERSION = 1
+const DB_VERSION = LATEST_VERSION
+
+// The earliest and latest dates there are, to bound ranges over time
+const EARLIEST = new Date(-8.64e15)
+const LATEST = new Date(8.64e15)
+
+/** Messages read at a time when opening or scrolling back through a conversation */
+export const MESSAGE_PAGE_SIZE = 100
 
 // ============================================================
 // Database singleton
@@ -31,29 +88,60 @@ const DB_VERSION = 1
 
 let dbPromise: Promise<IDBPDatabase<TerziDBSchema>> | null = null
 
+export interface MigrationBackup {
+  fromVersion: number
+  toVersion: number
+  blob: Blob
+}
+
+// Snapshot taken before the last upgrade of an existing database
+let migrationBackup: MigrationBackup | null = null
+
 export function getDB(): Promise<IDBPDatabase<TerziDBSchema>> {
   if (!dbPromise) {
+    let failure: unknown = null
     dbPromise = openDB<TerziDBSchema>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        // Conversations store
-        const convStore = db.createObjectStore('conversations', { keyPath: 'id' })
-        convStore.createIndex('by-updatedAt', 'updatedAt')
-
-        // Messages store
-        const msgStore = db.createObjectStore('messages', { keyPath: 'id' })
-        msgStore.createIndex('by-conversationId', 'conversationId')
-
-        // Settings store
-        db.createObjectStore('settings', { keyPath: 'key' })
+      upgrade(db, oldVersion, newVersion, transaction) {
+        const toVersion = newVersion ?? DB_VERSION
+        const upgrade = async () => {
+          if (oldVersion > 0) {
+            const blob = await backupStores(transaction, oldVersion)
+            migrationBackup = { fromVersion: oldVersion, toVersion, blob }
+          }
+          await runMigrations(db, transaction, oldVersion, toVersion)
+        }
+        // A failed step aborts the transaction, which rolls back
+        // every step before it
+        upgrade().catch((err) => {
+          failure = err
+          // openDB reports the abort; nothing else waits on `done`
+          transaction.done.catch(() => {})
+          transaction.abort()
+        })
       },
+      // Another tab wants to upgrade: let it, and reopen on next use
+      blocking(_currentVersion, _blockedVersion, event) {
+        const stale = event.target as IDBDatabase
+        stale.close()
+        dbPromise = null
+      },
+    }).catch((err) => {
+      dbPromise = null
+      throw failure ?? err
     })
   }
   return dbPromise
 }
 
+/** The backup taken before this session's schema upgrade, if any */
+export function getMigrationBackup(): MigrationBackup | null {
+  return migrationBackup
+}
+
 /** Reset the singleton — used in tests to get a fresh DB */
 export function resetDB(): void {
   dbPromise = null
+  migrationBackup = null
 }
 
 // ============================================================
@@ -81,15 +169,17 @@ export async function getConversation(id: string): Promise<Conversation | undefi
   return db.get('conversations', id)
 }
 
+/** Conversations outside the trash, newest first */
 export async function listConversations(): Promise<Conversation[]> {
   const db = await getDB()
   const all = await db.getAllFromIndex('conversations', 'by-updatedAt')
-  return all.reverse() // newest first
+  return all.filter((c) => !c.deletedAt).reverse()
 }
 
 export async function updateConversation(
   id: string,
-  updates: Partial<Pick<Conversation, 'title'>>,
+  updates: Partial<Pick<Conversation, 'title' | 'responseFormat' | 'contextSummary'>> &
+    ConversationSettings,
 ): Promise<void> {
   const db = await getDB()
   const existing = await db.get('conversations', id)
@@ -101,14 +191,16 @@ export async function updateConversation(
   })
 }
 
+/** Permanently delete a conversation and all its messages */
 export async function deleteConversation(id: string): Promise<void> {
   const db = await getDB()
   // Delete all messages in conversation
-  const messages = await getMessages(id)
-  const tx = db.transaction(['conversations', 'messages'], 'readwrite')
+  const messages = await storedMessages(id)
+  const tx = db.transaction(['conversations', 'messages', 'searchIndex'], 'readwrite')
   await tx.objectStore('conversations').delete(id)
   for (const msg of messages) {
     await tx.objectStore('messages').delete(msg.id)
+    await unindexMessage(tx.objectStore('searchIndex'), msg.id)
   }
   await tx.done
 }
@@ -117,24 +209,560 @@ export async function deleteConversation(id: string): Promise<void> {
 // Message operations
 // ============================================================
 
+type SearchIndexStore = IDBPObjectStore<
+  TerziDBSchema,
+  StoreNames<TerziDBSchema>[],
+  'searchIndex',
+  'readwrite'
+>
+
+async function unindexMessage(store: SearchIndexStore, messageId: string): Promise<void> {
+  const keys = await store.index('by-messageId').getAllKeys(messageId)
+  for (const key of keys) {
+    await store.delete(key)
+  }
+}
+
+async function indexMessage(store: SearchIndexStore, message: Message): Promise<void> {
+  if (!isSearchable(message)) return
+  for (const posting of postingsFor(message)) {
+    await store.put(posting)
+  }
+}
+
 export async function addMessage(message: Message): Promise<void> {
   const db = await getDB()
-  await db.put('messages', message)
-  // Touch conversation's updatedAt
-  const conv = await db.get('conversations', message.conversationId)
+  const tx = db.transaction(['messages', 'conversations', 'searchIndex'], 'readwrite')
+  await tx.objectStore('messages').put(message)
+
+  // Re-adding a message replaces its index entries
+  const searchIndex = tx.objectStore('searchIndex')
+  await unindexMessage(searchIndex, message.id)
+  await indexMessage(searchIndex, message)
+
+  // Touch conversation's updatedAt; the new message's branch is shown
+  const conv = await tx.objectStore('conversations').get(message.conversationId)
   if (conv) {
-    await db.put('conversations', { ...conv, updatedAt: new Date() })
+    await tx
+      .objectStore('conversations')
+      .put({ ...conv, updatedAt: new Date(), activeLeafId: message.id })
   }
+  await tx.done
+}
+
+// Trashed messages included
+async function storedMessages(conversationId: string): Promise<Message[]> {
+  const db = await getDB()
+  return db.getAllFromIndex(
+    'messages',
+    'by-conversation-createdAt',
+    IDBKeyRange.bound([conversationId, EARLIEST], [conversationId, LATEST]),
+  )
+}
+
+/** Every message of a conversation across all branches, oldest first */
+export async function getAllMessages(conversationId: string): Promise<Message[]> {
+  return (await storedMessages(conversationId)).filter((m) => !m.deletedAt)
 }
 
+/** The messages of the branch being shown, oldest first */
 export async function getMessages(conversationId: string): Promise<Message[]> {
+  const [conversation, messages] = await Promise.all([
+    getConversation(conversationId),
+    getAllMessages(conversationId),
+  ])
+  return activePath(buildTree(messages), conversation?.activeLeafId)
+}
+
+export interface MessagePage {
+  /** Oldest first, from every branch */
+  messages: Message[]
+  /** Whether older messages remain */
+  hasMore: boolean
+}
+
+/**
+ * The `limit` newest messages from before `before`, or from the end
+ * of the conversation. Reads back through the time index with a
+ * cursor, so only the page is loaded however long the conversation.
+ */
+export async function getMessagePage(
+  conversationId: string,
+  before?: Message,
+  limit = MESSAGE_PAGE_SIZE,
+): Promise<MessagePage> {
+  const db = await getDB()
+  const range = IDBKeyRange.bound(
+    [conversationId, EARLIEST],
+    [conversationId, before?.createdAt ?? LATEST],
+  )
+  const page: Message[] = []
+  let cursor = await db
+    .transaction('messages')
+    .store.index('by-conversation-createdAt')
+    .openCursor(range, 'prev')
+  while (cursor && page.length < limit) {
+    const message = cursor.value
+    // Messages saved in the same millisecond come back in id order
+    const loaded =
+      before !== undefined &&
+      message.createdAt.getTime() === before.createdAt.getTime() &&
+      message.id >= before.id
+    if (!loaded && !message.deletedAt) page.push(message)
+    cursor = await cursor.continue()
+  }
+  return { messages: page.reverse(), hasMore: cursor !== null }
+}
+
+/**
+ * The newest page of a conversation, extended back until it holds
+ * the end of the branch being shown
+ */
+export async function getLatestMessages(
+  conversationId: string,
+  limit = MESSAGE_PAGE_SIZE,
+): Promise<MessagePage & { activeLeafId?: string }> {
+  const leafId = (await getConversation(conversationId))?.activeLeafId
+  let page = await getMessagePage(conversationId, undefined, limit)
+  let messages = page.messages
+  while (page.hasMore && leafId && !messages.some((m) => m.id === leafId)) {
+    page = await getMessagePage(conversationId, messages[0], limit)
+    messages = [...page.messages, ...messages]
+  }
+  return { messages, hasMore: page.hasMore, activeLeafId: leafId }
+}
+
+export interface EarlierLimit {
+  /** Stop once the messages read hold this many (estimated) tokens */
+  maxTokens?: number
+  /** Read on past `maxTokens` until this message, when it is on the branch */
+  throughId?: string
+}
+
+/**
+ * The messages before `messageId` on its branch, oldest first. Walks
+ * back one reply at a time, so a long conversation is only read as
+ * far as `limit` asks.
+ */
+export async function getEarlierMessages(
+  conversationId: string,
+  messageId: string,
+  { maxTokens = Infinity, throughId }: EarlierLimit = {},
+): Promise<Message[]> {
   const db = await getDB()
-  return db.getAllFromIndex('messages', 'by-conversationId', conversationId)
+  const earlier: Message[] = []
+  let tokens = 0
+  let passedThrough = throughId === undefined
+  for (let current = await db.get('messages', messageId); current; ) {
+    if (tokens >= maxTokens && passedThrough) break
+    const parent = await parentOf(db, current)
+    // Like buildTree, a trashed parent ends the branch
+    if (!parent || parent.deletedAt || parent.conversationId !== conversationId) break
+    earlier.push(parent)
+    tokens += estimateMessageTokens(parent)
+    passedThrough ||= parent.id === throughId
+    current = parent
+  }
+  return earlier.reverse()
+}
+
+// The message `message` replies to. Messages saved before branching
+// have no parentId and follow the one saved before them.
+async function parentOf(
+  db: IDBPDatabase<TerziDBSchema>,
+  message: Message,
+): Promise<Message | undefined> {
+  if (message.parentId === null) return undefined
+  if (message.parentId !== undefined) return db.get('messages', message.parentId)
+
+  const range = IDBKeyRange.bound(
+    [message.conversationId, EARLIEST],
+    [message.conversationId, message.createdAt],
+    false,
+    true,
+  )
+  let cursor = await db
+    .transaction('messages')
+    .store.index('by-conversation-createdAt')
+    .openCursor(range, 'prev')
+  while (cursor?.value.deletedAt) cursor = await cursor.continue()
+  return cursor?.value
+}
+
+/** Show the branch ending at `leafId`; switching branches is not an update */
+export async function setActiveLeaf(conversationId: string, leafId: string): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction('conversations', 'readwrite')
+  const conv = await tx.store.get(conversationId)
+  if (conv) await tx.store.put({ ...conv, activeLeafId: leafId })
+  await tx.done
+}
+
+/**
+ * Show the branch through `messageId`: the one being shown if the
+ * message is on it, else the latest branch below the message
+ */
+export async function showBranchThrough(conversationId: string, messageId: string): Promise<void> {
+  const [conversation, messages] = await Promise.all([
+    getConversation(conversationId),
+    getAllMessages(conversationId),
+  ])
+  const tree = buildTree(messages)
+  if (!tree.byId.has(messageId)) return
+  if (activePath(tree, conversation?.activeLeafId).some((m) => m.id === messageId)) return
+  await setActiveLeaf(conversationId, latestLeaf(tree, messageId))
+}
+
+/**
+ * Ranked search over the full-text index. Every word of the query
+ * must match the start of a word in the message.
+ */
+export async function searchIndex(query: string, limit = 20): Promise<SearchHit[]> {
+  const terms = queryTerms(query)
+  if (terms.length === 0) return []
+
+  const db = await getDB()
+  const tx = db.transaction(['searchIndex', 'messages'], 'readonly')
+  const index = tx.objectStore('searchIndex')
+  const matches = await Promise.all(
+    terms.map((term) => index.getAll(IDBKeyRange.bound([term, ''], [`${term}\uffff`, ''], false, true))),
+  )
+  const totalMessages = await tx.objectStore('messages').count()
+  const ranked = rankMatches(matches, totalMessages)
+
+  const hits: SearchHit[] = []
+  for (const { messageId, score } of ranked.slice(0, limit)) {
+    const message = await tx.objectStore('messages').get(messageId)
+    if (message) hits.push({ message, score })
+  }
+  await tx.done
+
+  // Equal scores: newer first
+  return hits.sort(
+    (a, b) => b.score - a.score || b.message.createdAt.getTime() - a.message.createdAt.getTime(),
+  )
 }
 
 export async function deleteMessage(id: string): Promise<void> {
   const db = await getDB()
-  await db.delete('messages', id)
+  const tx = db.transaction(['messages', 'searchIndex'], 'readwrite')
+  await tx.objectStore('messages').delete(id)
+  await unindexMessage(tx.objectStore('searchIndex'), id)
+  await tx.done
+}
+
+// ============================================================
+// Trash
+// ============================================================
+
+/** Move a conversation to the trash; its messages leave the search index */
+export async function trashConversation(id: string, deletedAt = new Date()): Promise<void> {
+  const db = await getDB()
+  const messages = await storedMessages(id)
+  const tx = db.transaction(['conversations', 'searchIndex'], 'readwrite')
+  const conv = await tx.objectStore('conversations').get(id)
+  if (conv) {
+    await tx.objectStore('conversations').put({ ...conv, deletedAt })
+    for (const msg of messages) {
+      await unindexMessage(tx.objectStore('searchIndex'), msg.id)
+    }
+  }
+  await tx.done
+}
+
+export async function restoreConversation(id: string): Promise<void> {
+  const db = await getDB()
+  const messages = await getAllMessages(id)
+  const tx = db.transaction(['conversations', 'searchIndex'], 'readwrite')
+  const conv = await tx.objectStore('conversations').get(id)
+  if (conv?.deletedAt) {
+    await tx.objectStore('conversations').put({ ...conv, deletedAt: undefined })
+    for (const msg of messages) {
+      await indexMessage(tx.objectStore('searchIndex'), msg)
+    }
+  }
+  await tx.done
+}
+
+// The trashed replies that went with `id`
+function trashBatch(tree: MessageTree, id: string): Message[] {
+  const deletedAt = tree.byId.get(id)?.deletedAt?.getTime()
+  return subtree(tree, id).filter((m) => m.deletedAt?.getTime() === deletedAt)
+}
+
+/**
+ * Move a message and every reply below it to the trash. When that
+ * takes away the branch being shown, another version or the turn
+ * before is shown instead. Resolves to the trashed messages.
+ */
+export async function trashMessage(id: string, deletedAt = new Date()): Promise<Message[]> {
+  const db = await getDB()
+  const message = await db.get('messages', id)
+  if (!message || message.deletedAt) return []
+  const tree = buildTree(await getAllMessages(message.conversationId))
+  const trashed = subtree(tree, id).map((m) => ({ ...m, deletedAt }))
+  const trashedIds = new Set(trashed.map((m) => m.id))
+
+  const tx = db.transaction(['messages', 'conversations', 'searchIndex'], 'readwrite')
+  for (const msg of trashed) {
+    await tx.objectStore('messages').put(msg)
+    await unindexMessage(tx.objectStore('searchIndex'), msg.id)
+  }
+  const conv = await tx.objectStore('conversations').get(message.conversationId)
+  const shown = conv && activePath(tree, conv.activeLeafId)
+  if (conv && shown?.some((m) => trashedIds.has(m.id))) {
+    await tx.objectStore('conversations').put({ ...conv, activeLeafId: leafWithout(tree, id) })
+  }
+  await tx.done
+  return trashed
+}
+
+/** Bring back a trashed message with the replies trashed along with it, and show them */
+export async function restoreMessage(id: string): Promise<void> {
+  const db = await getDB()
+  const message = await db.get('messages', id)
+  if (!message?.deletedAt) return
+  const stored = await storedMessages(message.conversationId)
+  const restored = trashBatch(buildTree(stored), id).map((m) => ({ ...m, deletedAt: undefined }))
+  const tree = buildTree([...stored.filter((m) => !m.deletedAt), ...restored])
+
+  const tx = db.transaction(['messages', 'conversations', 'searchIndex'], 'readwrite')
+  for (const msg of restored) {
+    await tx.objectStore('messages').put(msg)
+    await indexMessage(tx.objectStore('searchIndex'), msg)
+  }
+  const conv = await tx.objectStore('conversations').get(message.conversationId)
+  if (conv) {
+    await tx.objectStore('conversations').put({ ...conv, activeLeafId: latestLeaf(tree, id) })
+  }
+  await tx.done
+}
+
+/** Permanently delete a message and every reply below it */
+export async function purgeMessage(id: string): Promise<void> {
+  const db = await getDB()
+  const message = await db.get('messages', id)
+  if (!message) return
+  const doomed = subtree(buildTree(await storedMessages(message.conversationId)), id)
+
+  const tx = db.transaction(['messages', 'searchIndex'], 'readwrite')
+  for (const msg of doomed) {
+    await tx.objectStore('messages').delete(msg.id)
+    await unindexMessage(tx.objectStore('searchIndex'), msg.id)
+  }
+  await tx.done
+}
+
+/** Everything in the trash, most recently deleted first */
+export async function listTrash(): Promise<TrashItem[]> {
+  const db = await getDB()
+  // Only trashed rows carry a deletedAt, so the index holds just those
+  const [conversations, messages] = await Promise.all([
+    db.getAllFromIndex('conversations', 'by-deletedAt'),
+    db.getAllFromIndex('messages', 'by-deletedAt'),
+  ])
+  const items: TrashItem[] = conversations.map((conversation) => ({
+    kind: 'conversation',
+    conversation,
+  }))
+
+  const withTrash = new Set(messages.map((m) => m.conversationId))
+  for (const conversationId of withTrash) {
+    const title = (await db.get('conversations', conversationId))?.title
+    // A parent outside the trash is not deleted, so the trashed
+    // messages alone tell which ones were deleted together
+    const tree = buildTree(messages.filter((m) => m.conversationId === conversationId))
+    for (const message of tree.messages) {
+      // Replies deleted along with their parent are listed under it
+      const parent = tree.byId.get(tree.parents.get(message.id) ?? '')
+      if (parent?.deletedAt?.getTime() === message.deletedAt?.getTime()) continue
+      items.push({
+        kind: 'message',
+        message,
+        conversationTitle: title ?? 'Untitled',
+        count: trashBatch(tree, message.id).length,
+      })
+    }
+  }
+  return items.sort((a, b) => trashedAt(b).getTime() - trashedAt(a).getTime())
+}
+
+/**
+ * Permanently delete what was trashed before `before` (everything
+ * by default). Resolves to what is left in the trash.
+ */
+export async function purgeTrash(before = LATEST): Promise<TrashItem[]> {
+  const trash = await listTrash()
+  const kept: TrashItem[] = []
+  for (const item of trash) {
+    if (trashedAt(item) >= before) {
+      kept.push(item)
+    } else if (item.kind === 'conversation') {
+      await deleteConversation(item.conversation.id)
+    } else {
+      await purgeMessage(item.message.id)
+    }
+  }
+  return kept
+}
+
+// ============================================================
+// Export & import
+// ============================================================
+
+/**
+ * Conversations with the messages of every branch, for export; all
+ * of them when `ids` is omitted
+ */
+export async function getConversationBundles(ids?: string[]): Promise<ConversationBundle[]> {
+  const conversations = ids
+    ? (await Promise.all(ids.map(getConversation))).filter((c): c is Conversation => !!c)
+    : await listConversations()
+  return Promise.all(
+    conversations.map(async (conversation) => ({
+      conversation,
+      messages: await getAllMessages(conversation.id),
+    })),
+  )
+}
+
+/**
+ * Add exported conversations, renaming IDs that are already in use
+ * so nothing is overwritten. Returns the conversations as stored.
+ */
+export async function importConversations(bundles: ConversationBundle[]): Promise<Conversation[]> {
+  const db = await getDB()
+  const tx = db.transaction(
+    ['conversations', 'messages', 'searchIndex', 'folders', 'tags'],
+    'readwrite',
+  )
+  const [conversationIds, messageIds, folderIds, tagIds] = await Promise.all([
+    tx.objectStore('conversations').getAllKeys(),
+    tx.objectStore('messages').getAllKeys(),
+    tx.objectStore('folders').getAllKeys(),
+    tx.objectStore('tags').getAllKeys(),
+  ])
+  // Folders and tags are not exported, so only references to ones
+  // that exist here survive
+  const folders = new Set(folderIds)
+  const tags = new Set(tagIds)
+  const imported = remapIds(bundles, {
+    conversationIds: new Set(conversationIds),
+    messageIds: new Set(messageIds),
+  }).map(({ conversation, messages }) => ({
+    conversation: {
+      ...conversation,
+      folderId:
+        conversation.folderId && folders.has(conversation.folderId)
+          ? conversation.folderId
+          : undefined,
+      tagIds: conversation.tagIds?.filter((id) => tags.has(id)),
+    },
+    messages,
+  }))
+
+  for (const { conversation, messages } of imported) {
+    await tx.objectStore('conversations').put(conversation)
+    for (const message of messages) {
+      await tx.objectStore('messages').put(message)
+      await indexMessage(tx.objectStore('searchIndex'), message)
+    }
+  }
+  await tx.done
+  return imported.map((b) => b.conversation)
+}
+
+// ============================================================
+// Folder & tag operations
+// ============================================================
+
+/** File, pin, archive or tag a conversation; organizing is not an update */
+export async function organizeConversation(
+  id: string,
+  changes: ConversationOrganization,
+): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction('conversations', 'readwrite')
+  const conv = await tx.store.get(id)
+  if (conv) await tx.store.put({ ...conv, ...changes })
+  await tx.done
+}
+
+export async function listFolders(): Promise<Folder[]> {
+  const db = await getDB()
+  return db.getAll('folders')
+}
+
+export async function saveFolder(folder: Folder): Promise<void> {
+  const db = await getDB()
+  await db.put('folders', folder)
+}
+
+/** Delete a folder; its subfolders and conversations move up to its parent */
+export async function deleteFolder(id: string): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction(['folders', 'conversations'], 'readwrite')
+  const folders = tx.objectStore('folders')
+  const folder = await folders.get(id)
+  if (folder) {
+    for (const child of await folders.getAll()) {
+      if (child.parentId === id) await folders.put({ ...child, parentId: folder.parentId })
+    }
+    const conversations = tx.objectStore('conversations')
+    for (const conv of await conversations.index('by-folderId').getAll(id)) {
+      await conversations.put({ ...conv, folderId: folder.parentId ?? undefined })
+    }
+    await folders.delete(id)
+  }
+  await tx.done
+}
+
+export async function listTags(): Promise<Tag[]> {
+  const db = await getDB()
+  const all = await db.getAll('tags')
+  return all.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function saveTag(tag: Tag): Promise<void> {
+  const db = await getDB()
+  await db.put('tags', tag)
+}
+
+/** Delete a tag and take it off every conversation */
+export async function deleteTag(id: string): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction(['tags', 'conversations'], 'readwrite')
+  const conversations = tx.objectStore('conversations')
+  for (const conv of await conversations.index('by-tagIds').getAll(id)) {
+    await conversations.put({ ...conv, tagIds: conv.tagIds?.filter((t) => t !== id) })
+  }
+  await tx.objectStore('tags').delete(id)
+  await tx.done
+}
+
+// ============================================================
+// Preset operations
+// ============================================================
+
+/** Built-in presets first, then the user's by name */
+export async function listPresets(): Promise<GenerationPreset[]> {
+  const db = await getDB()
+  const all = await db.getAll('presets')
+  return all.sort(
+    (a, b) => Number(!!b.builtIn) - Number(!!a.builtIn) || a.name.localeCompare(b.name),
+  )
+}
+
+export async function savePreset(preset: GenerationPreset): Promise<void> {
+  const db = await getDB()
+  await db.put('presets', preset)
+}
+
+export async function deletePreset(id: string): Promise<void> {
+  const db = await getDB()
+  const existing = await db.get('presets', id)
+  if (existing?.builtIn) throw new Error(`Preset "${existing.name}" is built in`)
+  await db.delete('presets', id)
 }
 
 // ============================================================
@@ -0,0 +1,193 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb'
+import type { TerziDBSchema } from './database'
+import { BUILTIN_PRESETS } from './presets'
+import { isSearchable, postingsFor } from './search'
+
+// ============================================================
+// Schema migrations — one step per database version, run in
+// order from the installed version inside the upgrade transaction
+// ============================================================
+
+export type UpgradeTransaction = IDBPTransaction<
+  TerziDBSchema,
+  StoreNames<TerziDBSchema>[],
+  'versionchange'
+>
+
+export interface Migration {
+  /** The version this step upgrades the database to */
+  version: number
+  description: string
+  /**
+   * Change the schema and transform existing rows. Only await
+   * requests on `tx` — awaiting anything else lets the upgrade
+   * transaction commit early.
+   */
+  migrate: (db: IDBPDatabase<TerziDBSchema>, tx: UpgradeTransaction) => Promise<void> | void
+}
+
+/** Raised when a step fails; the upgrade is rolled back */
+export class MigrationError extends Error {
+  version: number
+
+  constructor(version: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause)
+    super(`Database migration to version ${version} failed: ${reason}`, { cause })
+    this.name = 'MigrationError'
+    this.version = version
+  }
+}
+
+// Values that should be Dates but were written as strings or numbers
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value
+  const date = new Date(value as string | number)
+  return Number.isNaN(date.getTime()) ? new Date(0) : date
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Conversations, messages and settings',
+    migrate(db) {
+      const convStore = db.createObjectStore('conversations', { keyPath: 'id' })
+      convStore.createIndex('by-updatedAt', 'updatedAt')
+
+      const msgStore = db.createObjectStore('messages', { keyPath: 'id' })
+      msgStore.createIndex('by-conversationId', 'conversationId')
+
+      db.createObjectStore('settings', { keyPath: 'key' })
+    },
+  },
+  {
+    version: 2,
+    description: 'Generation presets, seeded with the built-in ones',
+    migrate(db) {
+      // Existing conversations need no change — their per-chat model,
+      // prompt and config fields are optional.
+      const presetStore = db.createObjectStore('presets', { keyPath: 'id' })
+      for (const preset of BUILTIN_PRESETS) {
+        presetStore.put(preset)
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Full-text index over message content',
+    async migrate(db, tx) {
+      const indexStore = db.createObjectStore('searchIndex', { keyPath: ['term', 'messageId'] })
+      indexStore.createIndex('by-messageId', 'messageId')
+
+      let cursor = await tx.objectStore('messages').openCursor()
+      while (cursor) {
+        if (isSearchable(cursor.value)) {
+          for (const posting of postingsFor(cursor.value)) {
+            await tx.objectStore('searchIndex').put(posting)
+          }
+        }
+        cursor = await cursor.continue()
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Folders and tags for organizing conversations',
+    migrate(db, tx) {
+      // Existing conversations are unfiled and untagged; both fields
+      // are optional, so no row changes
+      db.createObjectStore('folders', { keyPath: 'id' })
+      db.createObjectStore('tags', { keyPath: 'id' })
+
+      const convStore = tx.objectStore('conversations')
+      convStore.createIndex('by-folderId', 'folderId')
+      convStore.createIndex('by-tagIds', 'tagIds', { multiEntry: true })
+    },
+  },
+  {
+    version: 5,
+    description: 'Index messages by conversation and time, for paged reads',
+    async migrate(_db, tx) {
+      // IndexedDB orders strings after Dates, so timestamps stored as
+      // strings would sort out of place in the new index.
+      let msgCursor = await tx.objectStore('messages').openCursor()
+      while (msgCursor) {
+        const { createdAt } = msgCursor.value
+        if (!(createdAt instanceof Date)) {
+          await msgCursor.update({ ...msgCursor.value, createdAt: toDate(createdAt) })
+        }
+        msgCursor = await msgCursor.continue()
+      }
+
+      let convCursor = await tx.objectStore('conversations').openCursor()
+      while (convCursor) {
+        const { createdAt, updatedAt } = convCursor.value
+        if (!(createdAt instanceof Date) || !(updatedAt instanceof Date)) {
+          await convCursor.update({
+            ...convCursor.value,
+            createdAt: toDate(createdAt),
+            updatedAt: toDate(updatedAt),
+          })
+        }
+        convCursor = await convCursor.continue()
+      }
+
+      tx.objectStore('messages').createIndex('by-conversation-createdAt', [
+        'conversationId',
+        'createdAt',
+      ])
+    },
+  },
+  {
+    version: 6,
+    description: 'Index trashed conversations and messages',
+    migrate(_db, tx) {
+      // Rows without a deletedAt are left out of the index, so it
+      // only ever holds the trash
+      tx.objectStore('conversations').createIndex('by-deletedAt', 'deletedAt')
+      tx.objectStore('messages').createIndex('by-deletedAt', 'deletedAt')
+    },
+  },
+]
+
+/** The version the database is at after every migration */
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/** Run the steps after `oldVersion` up to and including `newVersion` */
+export async function runMigrations(
+  db: IDBPDatabase<TerziDBSchema>,
+  tx: UpgradeTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: Migration[] = MIGRATIONS,
+): Promise<void> {
+  for (const step of migrations) {
+    if (step.version <= oldVersion || step.version > newVersion) continue
+    try {
+      await step.migrate(db, tx)
+    } catch (err) {
+      throw new MigrationError(step.version, err)
+    }
+  }
+}
+
+// ============================================================
+// Pre-migration backup
+// ============================================================
+
+export interface DatabaseBackup {
+  version: number
+  createdAt: string
+  stores: Record<string, unknown[]>
+}
+
+/**
+ * Snapshot every store as JSON before an upgrade touches it, so the
+ * data can still be recovered if a step loses or mangles something.
+ */
+export async function backupStores(tx: UpgradeTransaction, version: number): Promise<Blob> {
+  const backup: DatabaseBackup = { version, createdAt: new Date().toISOString(), stores: {} }
+  for (const name of Array.from(tx.objectStoreNames)) {
+    backup.stores[name] = await tx.objectStore(name).getAll()
+  }
+  return new Blob([JSON.stringify(backup)], { type: 'application/json' })
+}
@@ -0,0 +1,56 @@
+// ============================================================
+// Frame throttle — coalesce rapid updates (e.g. streamed chunks)
+// into at most one per animation frame
+// ============================================================
+
+export interface FrameThrottle<T> {
+  /** Queue a value; only the latest one per frame is delivered */
+  push: (value: T) => void
+  /** Deliver a queued value now */
+  flush: () => void
+  /** Drop a queued value */
+  cancel: () => void
+}
+
+type Schedule = (callback: () => void) => number
+type Unschedule = (handle: number) => void
+
+// Background tabs and test environments may lack requestAnimationFrame
+const defaultSchedule: Schedule = (callback) =>
+  typeof requestAnimationFrame === 'function'
+    ? requestAnimationFrame(callback)
+    : (setTimeout(callback, 16) as unknown as number)
+
+const defaultUnschedule: Unschedule = (handle) =>
+  typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame(handle) : clearTimeout(handle)
+
+export function createFrameThrottle<T>(
+  deliver: (value: T) => void,
+  schedule: Schedule = defaultSchedule,
+  unschedule: Unschedule = defaultUnschedule,
+): FrameThrottle<T> {
+  let pending: { value: T } | null = null
+  let handle: number | null = null
+
+  const flush = () => {
+    if (handle !== null) unschedule(handle)
+    handle = null
+    if (!pending) return
+    const { value } = pending
+    pending = null
+    deliver(value)
+  }
+
+  return {
+    push(value) {
+      pending = { value }
+      handle ??= schedule(flush)
+    },
+    flush,
+    cancel() {
+      if (handle !== null) unschedule(handle)
+      handle = null
+      pending = null
+    },
+  }
+}
@@ -0,0 +1,140 @@
+// ============================================================
+// Generation settings — parse and range-check the "Advanced
+// generation" form. Ranges follow WebLLM's own validation so a
+// bad value is caught in the form rather than mid-request.
+// ============================================================
+
+import type { GenerationSettings } from '../types'
+
+/** Raw text of each form field; an empty field means "model default" */
+export interface GenerationSettingsForm {
+  temperature: string
+  top_p: string
+  max_tokens: string
+  frequency_penalty: string
+  presence_penalty: string
+  repetition_penalty: string
+  seed: string
+  n: string
+  /** One stop sequence per line, with "\\n" for a newline */
+  stop: string
+  /** One "tokenId: bias" pair per line */
+  logit_bias: string
+}
+
+export type GenerationSettingsErrors = Partial<Record<keyof GenerationSettingsForm, string>>
+
+export interface ParsedGenerationSettings {
+  settings: GenerationSettings
+  errors: GenerationSettingsErrors
+}
+
+function escapeStop(stop: string): string {
+  return stop.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
+
+function unescapeStop(line: string): string {
+  return line.replace(/\\(\\|n)/g, (_, c: string) => (c === 'n' ? '\n' : '\\'))
+}
+
+/** Fill the form from saved settings */
+export function toGenerationSettingsForm(settings: GenerationSettings): GenerationSettingsForm {
+  const text = (value: number | undefined) => (value === undefined ? '' : String(value))
+  return {
+    temperature: text(settings.temperature),
+    top_p: text(settings.top_p),
+    max_tokens: text(settings.max_tokens),
+    frequency_penalty: text(settings.frequency_penalty),
+    presence_penalty: text(settings.presence_penalty),
+    repetition_penalty: text(settings.repetition_penalty),
+    seed: text(settings.seed),
+    n: text(settings.n),
+    stop: settings.stop?.map(escapeStop).join('\n') ?? '',
+    logit_bias: Object.entries(settings.logit_bias ?? {})
+      .map(([token, bias]) => `${token}: ${bias}`)
+      .join('\n'),
+  }
+}
+
+type NumericField = Exclude<keyof GenerationSettingsForm, 'stop' | 'logit_bias'>
+
+interface NumericRule {
+  min?: number
+  max?: number
+  /** Exclude `min` itself */
+  exclusiveMin?: boolean
+  integer?: boolean
+}
+
+const numericRules: Record<NumericField, NumericRule> = {
+  temperature: { min: 0, max: 2 },
+  top_p: { min: 0, max: 1, exclusiveMin: true },
+  max_tokens: { min: 1, integer: true },
+  frequency_penalty: { min: -2, max: 2 },
+  presence_penalty: { min: -2, max: 2 },
+  repetition_penalty: { min: 0, exclusiveMin: true },
+  seed: { integer: true },
+  // WebLLM cannot stream more than one choice
+  n: { min: 1, max: 1, integer: true },
+}
+
+function describeRange({ min, max, exclusiveMin }: NumericRule): string {
+  if (min !== undefined && min === max) return `Must be ${min}`
+  const lower = min === undefined ? '' : `${exclusiveMin ? 'greater than' : 'at least'} ${min}`
+  const upper = max === undefined ? '' : `at most ${max}`
+  return `Must be ${[lower, upper].filter(Boolean).join(' and ')}`
+}
+
+function checkNumber(value: number, rule: NumericRule): string | null {
+  if (!Number.isFinite(value)) return 'Must be a number'
+  if (rule.integer && !Number.isInteger(value)) return 'Must be a whole number'
+  const tooLow =
+    rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)
+  const tooHigh = rule.max !== undefined && value > rule.max
+  return tooLow || tooHigh ? describeRange(rule) : null
+}
+
+function parseLogitBias(text: string): Record<string, number> | string {
+  const bias: Record<string, number> = {}
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    const match = /^\s*(\d+)\s*[:=]\s*(\S+)\s*$/.exec(line)
+    if (!match) return `Expected "tokenId: bias", got "${line.trim()}"`
+    const value = Number(match[2])
+    if (!Number.isFinite(value) || value < -100 || value > 100) {
+      return `Bias for token ${match[1]} must be between -100 and 100`
+    }
+    bias[match[1]] = value
+  }
+  return bias
+}
+
+/**
+ * Turn the form into settings, leaving out empty fields. Any field
+ * with an error is reported in `errors` and left out of `settings`.
+ */
+export function parseGenerationSettings(form: GenerationSettingsForm): ParsedGenerationSettings {
+  const settings: GenerationSettings = {}
+  const errors: GenerationSettingsErrors = {}
+
+  for (const field of Object.keys(numericRules) as NumericField[]) {
+    const text = form[field].trim()
+    if (!text) continue
+    const value = Number(text)
+    const error = checkNumber(value, numericRules[field])
+    if (error) errors[field] = error
+    else settings[field] = value
+  }
+
+  const stop = form.stop
+    .split('\n')
+    .filter((s) => s.length > 0)
+    .map(unescapeStop)
+  if (stop.length) settings.stop = stop
+
+  const logitBias = parseLogitBias(form.logit_bias)
+  if (typeof logitBias === 'string') errors.logit_bias = logitBias
+  else if (Object.keys(logitBias).length) settings.logit_bias = logitBias
+
+  return { settings, errors }
+}
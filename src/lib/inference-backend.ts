@@ -0,0 +1,79 @@
+// ============================================================
+// InferenceBackend — common interface for everything that can
+// load a model and stream chat completions
+//
+// WorkerBridge (WebLLM in a Web Worker) is the production
+// backend; RemoteBackend talks to an OpenAI-compatible server;
+// ScriptedBackend is a deterministic stand-in for machines
+// without WebGPU.
+// ============================================================
+
+import type {
+  ChatMessage,
+  ConnectionStatus,
+  ErrorCode,
+  GenerateConfig,
+  LoadProgress,
+  ModelStatus,
+  TokenUsage,
+  ToolCall,
+  ToolSupport,
+} from '../types'
+
+export type InferenceBackendCallbacks = {
+  onStatusChange?: (status: ModelStatus) => void
+  /** `report` is only available from backends that load weights locally */
+  onProgress?: (progress: number, text: string, report?: LoadProgress) => void
+  onError?: (error: string, code: ErrorCode) => void
+  /** Only reported by backends that talk to a server */
+  onConnectionChange?: (status: ConnectionStatus) => void
+}
+
+export interface InferenceBackend {
+  /** Current model lifecycle status of this backend */
+  readonly status: ModelStatus
+
+  setCallbacks(cb: InferenceBackendCallbacks): void
+
+  /**
+   * Load a model. Resolves true once the backend is ready to chat.
+   */
+  init(model: string): Promise<boolean>
+
+  /**
+   * Stream a chat completion as content chunks. `onUsage` receives
+   * token counts and timings just before the stream closes;
+   * `onToolCalls` receives the tools the model asked to run.
+   */
+  chat(
+    messages: ChatMessage[],
+    config?: GenerateConfig,
+    onUsage?: (usage: TokenUsage) => void,
+    onToolCalls?: (calls: ToolCall[]) => void,
+  ): ReadableStream<string>
+
+  /** Whether `GenerateConfig.tools` can be used with a model */
+  toolSupport(model: string | null): ToolSupport
+
+  /**
+   * Cancel an in-progress init/switch. The pending load resolves false
+   * and the backend returns to 'idle' without reporting an error.
+   */
+  cancelLoad(): void
+
+  /**
+   * Replace the loaded model, aborting any in-flight generation first.
+   */
+  switchModel(model: string): Promise<boolean>
+
+  /**
+   * Abort any in-flight generation and release the loaded model.
+   */
+  unload(): Promise<void>
+
+  /** Abort all in-flight generations. */
+  abort(): void
+
+  /** Release all resources held by the backend. */
+  terminate(): void
+}
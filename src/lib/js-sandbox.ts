@@ -0,0 +1,106 @@
+// ============================================================
+// JS sandbox — run model-written JavaScript in a throwaway
+// worker for the run_javascript tool
+//
+// The worker is started by a hidden iframe sandboxed without
+// `allow-same-origin`, so it runs in an opaque origin with no
+// access to the page or its storage. The iframe's CSP (which the
+// worker inherits) blocks every connection and script load, so
+// the code cannot send anything out. The iframe, and with it the
+// worker, is removed on completion or timeout.
+// ============================================================
+
+export interface SandboxResult {
+  /** Lines written with console.log/info/warn/error */
+  logs: string[]
+  /** The code's return value, serialized */
+  result?: string
+  error?: string
+}
+
+const DEFAULT_TIMEOUT_MS = 3_000
+
+// No network, no loaded scripts; only inline code, eval for the
+// Function constructor, and the worker started from a Blob URL
+const SANDBOX_CSP =
+  "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:"
+
+// Runs inside the worker. Kept as source so it can be loaded
+// from a Blob URL without a separate bundle entry.
+const workerSource = `
+for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts',
+  'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker']) {
+  try { Object.defineProperty(self, name, { value: undefined, configurable: false }) } catch {}
+}
+
+const format = (value) => {
+  if (typeof value === 'string') return value
+  try { return JSON.stringify(value) ?? String(value) } catch { return String(value) }
+}
+
+self.onmessage = async (event) => {
+  const logs = []
+  const log = (...args) => logs.push(args.map(format).join(' '))
+  self.console = { log, info: log, warn: log, error: log, debug: log }
+  try {
+    const value = await new Function('"use strict";\\n' + event.data)()
+    self.postMessage({ logs, result: value === undefined ? undefined : format(value) })
+  } catch (err) {
+    self.postMessage({ logs, error: err instanceof Error ? err.name + ': ' + err.message : String(err) })
+  }
+}
+`
+
+// The iframe document: relays the code to a worker and the
+// outcome back to the page
+const hostSource = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">
+<script>
+const url = URL.createObjectURL(new Blob([${JSON.stringify(workerSource).replace(/</g, '\\u003c')}], { type: 'text/javascript' }))
+const worker = new Worker(url)
+worker.onmessage = (event) => parent.postMessage(event.data, '*')
+worker.onerror = (event) => {
+  event.preventDefault()
+  parent.postMessage({ logs: [], error: event.message || 'Script failed' }, '*')
+}
+onmessage = (event) => worker.postMessage(event.data)
+parent.postMessage('ready', '*')
+</script>`
+
+/**
+ * Execute `code` as the body of a function: `return` yields the
+ * result and top-level `await` is not available.
+ */
+export function runInSandbox(code: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<SandboxResult> {
+  if (typeof Worker === 'undefined' || typeof document === 'undefined') {
+    return Promise.resolve({ logs: [], error: 'JavaScript sandbox is not available in this environment' })
+  }
+
+  const frame = document.createElement('iframe')
+  frame.sandbox.add('allow-scripts')
+  frame.style.display = 'none'
+  frame.srcdoc = hostSource
+
+  return new Promise<SandboxResult>((resolve) => {
+    const finish = (result: SandboxResult) => {
+      clearTimeout(timer)
+      window.removeEventListener('message', onMessage)
+      frame.remove()
+      resolve(result)
+    }
+
+    const timer = setTimeout(
+      () => finish({ logs: [], error: `Timed out after ${timeoutMs}ms` }),
+      timeoutMs,
+    )
+    // Messages come from an opaque origin, so match the sender by window
+    const onMessage = (e: MessageEvent<SandboxResult | 'ready'>) => {
+      if (e.source !== frame.contentWindow) return
+      if (e.data === 'ready') frame.contentWindow?.postMessage(code, '*')
+      else finish(e.data)
+    }
+    window.addEventListener('message', onMessage)
+
+    document.body.appendChild(frame)
+  })
+}
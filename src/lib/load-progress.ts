@@ -0,0 +1,138 @@
+// ============================================================
+// Load progress — turn WebLLM's free-form init reports into
+// structured phases with byte counts, speed and ETA
+//
+// WebLLM only exposes `{ progress, timeElapsed, text }`; the
+// phase, shard counter and megabytes live in the text:
+//
+//   Start to fetch params
+//   Fetching param cache[3/24]: 120MB fetched. 12% completed, ...
+//   Loading model from cache[3/24]: 120MB loaded. 12% completed, ...
+//   Loading GPU shader modules[12/50]: 24% completed, ...
+//   Finish loading on WebGPU - ...
+// ============================================================
+
+import type { LoadPhase, LoadProgress } from '../types'
+
+const MB = 1024 * 1024
+
+/** Weight of the newest sample in the smoothed download speed */
+const SPEED_SMOOTHING = 0.3
+
+interface ParsedReport {
+  phase: LoadPhase
+  shardsDone?: number
+  shardsTotal?: number
+  megabytes?: number
+}
+
+/**
+ * Extract the phase and counters from a WebLLM progress text.
+ * Unrecognised text (e.g. tokenizer loading) is reported as
+ * 'preparing'.
+ */
+export function parseProgressText(text: string): ParsedReport {
+  if (text.startsWith('Start to fetch params')) return { phase: 'fetching-params' }
+
+  const shardMatch = text.match(
+    /^(Fetching param cache|Loading model from cache)\[(\d+)\/(\d+)\]: (\d+)MB/,
+  )
+  if (shardMatch) {
+    return {
+      phase: shardMatch[1] === 'Fetching param cache' ? 'downloading' : 'loading-from-cache',
+      shardsDone: Number(shardMatch[2]),
+      shardsTotal: Number(shardMatch[3]),
+      megabytes: Number(shardMatch[4]),
+    }
+  }
+
+  const shaderMatch = text.match(/^Loading GPU shader modules\[(\d+)\/(\d+)\]/)
+  if (shaderMatch) {
+    return {
+      phase: 'compiling-shaders',
+      shardsDone: Number(shaderMatch[1]),
+      shardsTotal: Number(shaderMatch[2]),
+    }
+  }
+
+  if (text.startsWith('Finish loading')) return { phase: 'finished' }
+
+  return { phase: 'preparing' }
+}
+
+/**
+ * Stateful converter for one model load. Feed it every raw report;
+ * it tracks phase start times and download throughput so each
+ * structured report carries a speed and an ETA for its phase.
+ */
+export class LoadProgressTracker {
+  private phase: LoadPhase | null = null
+  private phaseStartedAt = 0
+  private lastBytes = 0
+  private lastBytesAt = 0
+  private bytesPerSec: number | undefined
+  private startedAt: number
+  private now: () => number
+
+  /** @param now Clock in milliseconds; tests pass a fake one */
+  constructor(now: () => number = () => performance.now()) {
+    this.now = now
+    this.startedAt = now()
+  }
+
+  update(progress: number, text: string): LoadProgress {
+    const t = this.now()
+    const parsed = parseProgressText(text)
+
+    if (parsed.phase !== this.phase) {
+      // Shards start downloading when params are requested, so the
+      // first throughput sample is measured from that point
+      const downloadStarted = this.phase === 'fetching-params' && parsed.phase === 'downloading'
+      this.phase = parsed.phase
+      if (!downloadStarted) {
+        this.phaseStartedAt = t
+        this.lastBytesAt = t
+      }
+      this.lastBytes = 0
+      this.bytesPerSec = undefined
+    }
+
+    const report: LoadProgress = {
+      phase: parsed.phase,
+      progress,
+      elapsedMs: t - this.startedAt,
+      shardsDone: parsed.shardsDone,
+      shardsTotal: parsed.shardsTotal,
+    }
+
+    // Only the loaded size (rounded up to a megabyte) is reported;
+    // the total follows from the fraction reported alongside it
+    if (parsed.megabytes != null && progress > 0) {
+      report.totalBytes = Math.round((parsed.megabytes * MB) / progress)
+      report.loadedBytes = Math.round(report.totalBytes * progress)
+    }
+
+    if (parsed.phase === 'downloading' && report.loadedBytes != null) {
+      const dt = (t - this.lastBytesAt) / 1000
+      const delta = report.loadedBytes - this.lastBytes
+      if (dt > 0 && delta > 0) {
+        const sample = delta / dt
+        this.bytesPerSec =
+          this.bytesPerSec == null
+            ? sample
+            : SPEED_SMOOTHING * sample + (1 - SPEED_SMOOTHING) * this.bytesPerSec
+        this.lastBytes = report.loadedBytes
+        this.lastBytesAt = t
+      }
+      report.bytesPerSec = this.bytesPerSec
+      if (this.bytesPerSec && report.totalBytes != null) {
+        report.etaMs = ((report.totalBytes - report.loadedBytes) / this.bytesPerSec) * 1000
+      }
+    } else if (progress > 0 && progress < 1 && t > this.phaseStartedAt) {
+      // Cache reads and shader compiles progress roughly linearly
+      report.etaMs = ((t - this.phaseStartedAt) * (1 - progress)) / progress
+    }
+
+    return report
+  }
+}
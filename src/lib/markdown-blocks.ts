@@ -0,0 +1,69 @@
+// ============================================================
+// Markdown blocks — split streamed markdown into top-level blocks
+// so finished blocks can be rendered once and only the trailing
+// block is re-parsed as tokens arrive
+// ============================================================
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+const LIST_ITEM = /^([-*+]|\d+[.)])\s/
+
+/** The fence still open after `line`, given the one open before it */
+function trackFence(open: string | null, line: string): string | null {
+  const marker = FENCE.exec(line)?.[1]
+  if (!marker) return open
+  if (!open) return marker
+  // A closing fence uses the same character, is at least as long
+  // and has no info string
+  const closes =
+    marker[0] === open[0] && marker.length >= open.length && !line.trim().slice(marker.length)
+  return closes ? null : open
+}
+
+/**
+ * Split markdown at blank lines that end a top-level block. Blank
+ * lines inside code fences, before indented continuations and between
+ * list items do not split, so each block parses the same on its own.
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const lines = markdown.split('\n')
+  const blocks: string[] = []
+  let current: string[] = []
+  let fence: string | null = null
+
+  lines.forEach((line, i) => {
+    fence = trackFence(fence, line)
+
+    const next = lines[i + 1]
+    const endsBlock =
+      !fence &&
+      line.trim() === '' &&
+      current.length > 0 &&
+      next !== undefined &&
+      next.trim() !== '' &&
+      !/^\s/.test(next) &&
+      !(LIST_ITEM.test(next) && current.some((l) => LIST_ITEM.test(l)))
+
+    current.push(line)
+    if (endsBlock) {
+      blocks.push(current.join('\n'))
+      current = []
+    }
+  })
+
+  if (current.length > 0) blocks.push(current.join('\n'))
+  return blocks
+}
+
+/**
+ * Close a code fence left open by a partial reply, dropping a closing
+ * fence that has only partly arrived (e.g. a trailing "``").
+ */
+export function closeOpenFence(block: string): string {
+  const lines = block.split('\n')
+  const fence = lines.reduce<string | null>(trackFence, null)
+  if (!fence) return block
+
+  const last = lines[lines.length - 1].trim()
+  if (lines.length > 1 && last && fence.startsWith(last)) lines.pop()
+  return `${lines.join('\n')}\n${fence}`
+}
@@ -0,0 +1,119 @@
+// ============================================================
+// Message tree — editing a message forks the conversation, so
+// its messages form a tree and one root-to-leaf path is shown
+// ============================================================
+
+import type { Message } from '../types'
+
+export interface MessageTree {
+  /** Every message, oldest first */
+  messages: Message[]
+  byId: Map<string, Message>
+  parents: Map<string, string | null>
+  /** Replies to each message, oldest first; `null` holds the first messages */
+  children: Map<string | null, Message[]>
+}
+
+/** Where a message sits among the alternatives at a fork, 0-based */
+export interface BranchPosition {
+  index: number
+  count: number
+}
+
+export function buildTree(messages: Message[]): MessageTree {
+  const sorted = [...messages].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  const byId = new Map(sorted.map((m) => [m.id, m]))
+  const parents = new Map<string, string | null>()
+  const children = new Map<string | null, Message[]>()
+
+  sorted.forEach((message, i) => {
+    // No parentId: saved before branching existed, so the history
+    // was linear. A deleted parent makes the message a root.
+    const declared = message.parentId === undefined ? (sorted[i - 1]?.id ?? null) : message.parentId
+    const parent = declared !== null && byId.has(declared) ? declared : null
+    parents.set(message.id, parent)
+    children.set(parent, [...(children.get(parent) ?? []), message])
+  })
+
+  return { messages: sorted, byId, parents, children }
+}
+
+/** The messages from the root down to `id` */
+export function pathTo(tree: MessageTree, id: string): Message[] {
+  const path: Message[] = []
+  for (let current: string | null = id; current !== null; current = tree.parents.get(current) ?? null) {
+    const message = tree.byId.get(current)
+    if (!message) break
+    path.push(message)
+  }
+  return path.reverse()
+}
+
+/** The end of the most recent branch below `id` */
+export function latestLeaf(tree: MessageTree, id: string): string {
+  let current = id
+  for (let replies = tree.children.get(current); replies?.length; replies = tree.children.get(current)) {
+    current = replies[replies.length - 1].id
+  }
+  return current
+}
+
+/**
+ * The branch ending at `leafId`, or the newest message's branch when
+ * `leafId` is unknown
+ */
+export function activePath(tree: MessageTree, leafId?: string): Message[] {
+  const end = leafId && tree.byId.has(leafId) ? leafId : tree.messages[tree.messages.length - 1]?.id
+  return end ? pathTo(tree, end) : []
+}
+
+/** Positions of the path's messages that have alternatives */
+export function branchPositions(tree: MessageTree, path: Message[]): Map<string, BranchPosition> {
+  const positions = new Map<string, BranchPosition>()
+  for (const message of path) {
+    const siblings = tree.children.get(tree.parents.get(message.id) ?? null) ?? []
+    if (siblings.length > 1) {
+      positions.set(message.id, {
+        index: siblings.findIndex((s) => s.id === message.id),
+        count: siblings.length,
+      })
+    }
+  }
+  return positions
+}
+
+/**
+ * The leaf to show after moving `offset` alternatives away from
+ * `id` at its fork, or undefined when there is none that way.
+ */
+export function siblingLeaf(tree: MessageTree, id: string, offset: number): string | undefined {
+  const siblings = tree.children.get(tree.parents.get(id) ?? null) ?? []
+  const index = siblings.findIndex((s) => s.id === id)
+  const target = index < 0 ? undefined : siblings[index + offset]
+  return target && latestLeaf(tree, target.id)
+}
+
+/** `id` and every reply below it, on all branches */
+export function subtree(tree: MessageTree, id: string): Message[] {
+  const root = tree.byId.get(id)
+  if (!root) return []
+  const found: Message[] = []
+  const pending = [root]
+  for (let message = pending.pop(); message; message = pending.pop()) {
+    found.push(message)
+    pending.push(...(tree.children.get(message.id) ?? []))
+  }
+  return found
+}
+
+/**
+ * The leaf to show once `id` and its replies are gone: the nearest
+ * other version at its fork, else the message before it.
+ */
+export function leafWithout(tree: MessageTree, id: string): string | undefined {
+  const parent = tree.parents.get(id) ?? null
+  const siblings = tree.children.get(parent) ?? []
+  const index = siblings.findIndex((s) => s.id === id)
+  const neighbour = siblings[index - 1] ?? siblings[index + 1]
+  return neighbour ? latestLeaf(tree, neighbour.id) : (parent ?? undefined)
+}
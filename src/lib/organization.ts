@@ -0,0 +1,79 @@
+// ============================================================
+// Conversation organization — nested folders, sidebar filters
+// and the order conversations are listed in
+// ============================================================
+
+import type { Conversation, ConversationFilter, Folder } from '../types'
+
+/** `id` and every folder nested in it, at any depth */
+export function folderWithDescendants(folders: Folder[], id: string): Set<string> {
+  const found = new Set([id])
+  // Children may be listed before their parents, so sweep until stable
+  for (let grew = true; grew; ) {
+    grew = false
+    for (const folder of folders) {
+      if (folder.parentId !== null && found.has(folder.parentId) && !found.has(folder.id)) {
+        found.add(folder.id)
+        grew = true
+      }
+    }
+  }
+  return found
+}
+
+/** Whether `folderId` can move into `parentId` without ending up inside itself */
+export function canMoveFolder(folders: Folder[], folderId: string, parentId: string | null): boolean {
+  return parentId === null || !folderWithDescendants(folders, folderId).has(parentId)
+}
+
+/**
+ * Folders in display order — each followed by its subfolders, by
+ * name — with their nesting depth. A folder whose parent is gone
+ * is shown at the top level.
+ */
+export function flattenFolders(folders: Folder[]): { folder: Folder; depth: number }[] {
+  const ids = new Set(folders.map((f) => f.id))
+  const byName = [...folders].sort((a, b) => a.name.localeCompare(b.name))
+  const childrenOf = (parentId: string | null) =>
+    byName.filter((f) => (f.parentId !== null && ids.has(f.parentId) ? f.parentId : null) === parentId)
+
+  const flat: { folder: Folder; depth: number }[] = []
+  const visit = (parentId: string | null, depth: number) => {
+    for (const folder of childrenOf(parentId)) {
+      flat.push({ folder, depth })
+      visit(folder.id, depth + 1)
+    }
+  }
+  visit(null, 0)
+  return flat
+}
+
+/** The conversations a sidebar filter shows */
+export function filterConversations(
+  conversations: Conversation[],
+  filter: ConversationFilter,
+  folders: Folder[],
+): Conversation[] {
+  if (filter.kind === 'archived') return conversations.filter((c) => c.archivedAt)
+
+  const active = conversations.filter((c) => !c.archivedAt)
+  switch (filter.kind) {
+    case 'all':
+      return active
+    case 'folder': {
+      const inFolder = folderWithDescendants(folders, filter.folderId)
+      return active.filter((c) => c.folderId !== undefined && inFolder.has(c.folderId))
+    }
+    case 'tag':
+      return active.filter((c) => c.tagIds?.includes(filter.tagId))
+  }
+}
+
+/** Pinned first, most recently pinned on top; then most recently updated */
+export function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort(
+    (a, b) =>
+      (b.pinnedAt?.getTime() ?? 0) - (a.pinnedAt?.getTime() ?? 0) ||
+      b.updatedAt.getTime() - a.updatedAt.getTime(),
+  )
+}
@@ -0,0 +1,31 @@
+// ============================================================
+// Generation presets — built-in system prompt + sampling
+// combinations, seeded into IndexedDB by the v2 migration
+// ============================================================
+
+import type { GenerationPreset } from '../types'
+
+export const BUILTIN_PRESETS: GenerationPreset[] = [
+  {
+    id: 'builtin-precise',
+    name: 'Precise',
+    builtIn: true,
+    systemPrompt: 'Answer accurately and concisely. If you are not sure, say so instead of guessing.',
+    config: { temperature: 0.2, top_p: 0.9 },
+  },
+  {
+    id: 'builtin-creative',
+    name: 'Creative',
+    builtIn: true,
+    systemPrompt: 'Be imaginative and expressive. Offer original ideas and vivid language.',
+    config: { temperature: 1.1, top_p: 0.95, presence_penalty: 0.6 },
+  },
+  {
+    id: 'builtin-code',
+    name: 'Code',
+    builtIn: true,
+    systemPrompt:
+      'You are an expert programmer. Reply with correct, idiomatic code in fenced code blocks and keep explanations brief.',
+    config: { temperature: 0.2, repetition_penalty: 1.05 },
+  },
+]
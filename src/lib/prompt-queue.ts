@@ -0,0 +1,46 @@
+// ============================================================
+// Prompt queue — follow-up prompts typed while a reply is still
+// generating, sent in order once it finishes
+// ============================================================
+
+export interface QueuedPrompt {
+  id: string
+  conversationId: string
+  content: string
+}
+
+/** Prompts waiting in one conversation, in send order */
+export function queuedFor(queue: QueuedPrompt[], conversationId: string | null): QueuedPrompt[] {
+  return queue.filter((p) => p.conversationId === conversationId)
+}
+
+/** Take the conversation's next prompt off the queue */
+export function dequeue(
+  queue: QueuedPrompt[],
+  conversationId: string,
+): { next: QueuedPrompt | undefined; rest: QueuedPrompt[] } {
+  const next = queue.find((p) => p.conversationId === conversationId)
+  return { next, rest: next ? queue.filter((p) => p !== next) : queue }
+}
+
+export function removeQueued(queue: QueuedPrompt[], id: string): QueuedPrompt[] {
+  return queue.filter((p) => p.id !== id)
+}
+
+/**
+ * Move a prompt one place earlier (-1) or later (1) among the prompts
+ * of its own conversation.
+ */
+export function moveQueued(queue: QueuedPrompt[], id: string, offset: -1 | 1): QueuedPrompt[] {
+  const index = queue.findIndex((p) => p.id === id)
+  if (index < 0) return queue
+
+  const peers = queue.flatMap((p, i) => (p.conversationId === queue[index].conversationId ? [i] : []))
+  const target = peers[peers.indexOf(index) + offset]
+  if (target === undefined) return queue
+
+  const next = [...queue]
+  next[index] = queue[target]
+  next[target] = queue[index]
+  return next
+}
@@ -0,0 +1,318 @@
+// ============================================================
+// RemoteBackend — inference against an OpenAI-compatible server
+//
+// Streams `/v1/chat/completions` over Server-Sent Events, so
+// TerziLLM can use a self-hosted llama.cpp or vLLM server.
+// ============================================================
+
+import type {
+  ChatMessage,
+  ConnectionStatus,
+  GenerateConfig,
+  ModelStatus,
+  RemoteConfig,
+  ResponseFormat,
+  TokenUsage,
+  ToolCall,
+  ToolSupport,
+} from '../types'
+import type { InferenceBackend, InferenceBackendCallbacks } from './inference-backend'
+import { generateId } from './utils'
+import { ContextOverflowError, isContextOverflowMessage } from './context-window'
+
+/** One fragment of a streamed tool call; fragments share an index */
+interface ToolCallDelta {
+  index: number
+  id?: string
+  function?: { name?: string; arguments?: string }
+}
+
+/** Shape of one streamed `chat.completion.chunk` we rely on */
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null; tool_calls?: ToolCallDelta[] } }[]
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  } | null
+}
+
+/**
+ * Normalize a user-entered server URL to the API root,
+ * e.g. "http://host:8080/v1/" → "http://host:8080/v1".
+ */
+export function apiRoot(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '')
+  return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`
+}
+
+/**
+ * Yield the `data:` payloads of a Server-Sent Events body,
+ * stopping at the OpenAI `[DONE]` sentinel.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by blank lines; keep the trailing partial event
+      const events = buffer.split(/\r?\n\r?\n/)
+      buffer = events.pop() ?? ''
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n')
+        if (!data) continue
+        if (data === '[DONE]') return
+        yield data
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Translate a response format into OpenAI request fields. Schemas
+ * use OpenAI's `json_schema` form; grammars use the top-level
+ * `grammar` field that llama.cpp's server accepts.
+ */
+export function toRequestFormat(format: ResponseFormat | undefined): Record<string, unknown> {
+  switch (format?.type) {
+    case 'json_object':
+      return format.schema
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema: JSON.parse(format.schema) },
+            },
+          }
+        : { response_format: { type: 'json_object' } }
+    case 'grammar':
+      return { grammar: format.grammar }
+    default:
+      return {}
+  }
+}
+
+/**
+ * Fold streamed tool-call fragments into complete calls. The first
+ * fragment of a call carries its ID and name; later ones append
+ * pieces of the JSON arguments.
+ */
+export function mergeToolCallDeltas(calls: ToolCall[], deltas: ToolCallDelta[]) {
+  for (const delta of deltas) {
+    const call = (calls[delta.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    })
+    if (delta.id) call.id = delta.id
+    if (delta.function?.name) call.function.name += delta.function.name
+    if (delta.function?.arguments) call.function.arguments += delta.function.arguments
+  }
+}
+
+export class RemoteBackend implements InferenceBackend {
+  status: ModelStatus = 'idle'
+  private callbacks: InferenceBackendCallbacks = {}
+  private getConfig: () => RemoteConfig
+  private activeChats = new Set<AbortController>()
+  private loadController: AbortController | null = null
+
+  /**
+   * @param getConfig Reads the current server settings; called on
+   *   every request so edits in settings apply immediately.
+   */
+  constructor(getConfig: () => RemoteConfig) {
+    this.getConfig = getConfig
+  }
+
+  private setStatus(status: ModelStatus) {
+    this.status = status
+    this.callbacks.onStatusChange?.(status)
+  }
+
+  private setConnection(status: ConnectionStatus) {
+    this.callbacks.onConnectionChange?.(status)
+  }
+
+  private headers(): HeadersInit {
+    const { apiKey } = this.getConfig()
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    }
+  }
+
+  setCallbacks(cb: InferenceBackendCallbacks) {
+    this.callbacks = cb
+  }
+
+  /**
+   * Check that the server is reachable by listing its models.
+   */
+  async init(model: string): Promise<boolean> {
+    const { baseUrl } = this.getConfig()
+    const loadController = new AbortController()
+    this.loadController = loadController
+    this.setStatus('loading')
+    this.setConnection('connecting')
+    this.callbacks.onProgress?.(0, `Connecting to ${baseUrl}...`)
+
+    try {
+      if (!baseUrl.trim()) throw new Error('No server URL configured')
+
+      const res = await fetch(`${apiRoot(baseUrl)}/models`, {
+        headers: this.headers(),
+        signal: loadController.signal,
+      })
+      if (!res.ok) throw new Error(`Server responded ${res.status} ${res.statusText}`)
+
+      this.callbacks.onProgress?.(1, `Connected (${model})`)
+      this.setConnection('connected')
+      this.setStatus('ready')
+      return true
+    } catch (err) {
+      this.setConnection('disconnected')
+      if (loadController.signal.aborted) {
+        this.setStatus('idle')
+        return false
+      }
+
+      const message = err instanceof Error ? err.message : String(err)
+      this.callbacks.onError?.(message, 'NETWORK_ERROR')
+      this.setStatus('error')
+      return false
+    } finally {
+      if (this.loadController === loadController) this.loadController = null
+    }
+  }
+
+  cancelLoad() {
+    this.loadController?.abort()
+  }
+
+  /**
+   * The server owns its models; switching just re-checks the connection.
+   */
+  async switchModel(model: string): Promise<boolean> {
+    this.abort()
+    return this.init(model)
+  }
+
+  async unload(): Promise<void> {
+    this.abort()
+    this.setConnection('disconnected')
+    this.setStatus('idle')
+  }
+
+  chat(
+    messages: ChatMessage[],
+    config?: GenerateConfig,
+    onUsage?: (usage: TokenUsage) => void,
+    onToolCalls?: (calls: ToolCall[]) => void,
+  ): ReadableStream<string> {
+    const abortController = new AbortController()
+    const { baseUrl, model } = this.getConfig()
+    const { response_format, ...sampling } = config ?? {}
+    let cancelled = false
+
+    return new ReadableStream<string>({
+      start: async (controller) => {
+        this.activeChats.add(abortController)
+        const startedAt = performance.now()
+        let firstTokenMs: number | undefined
+        const toolCalls: ToolCall[] = []
+
+        try {
+          const res = await fetch(`${apiRoot(baseUrl)}/chat/completions`, {
+            method: 'POST',
+            headers: this.headers(),
+            signal: abortController.signal,
+            body: JSON.stringify({
+              model,
+              messages,
+              stream: true,
+              stream_options: { include_usage: true },
+              ...sampling,
+              ...toRequestFormat(response_format),
+            }),
+          })
+          if (!res.ok || !res.body) {
+            // Servers explain rejected prompts in the body, e.g. "This
+            // model's maximum context length is 8192 tokens"
+            const detail = res.ok ? '' : await res.text().catch(() => '')
+            if (isContextOverflowMessage(detail)) throw new ContextOverflowError(detail)
+            throw new Error(`Server responded ${res.status} ${res.statusText}`)
+          }
+
+          for await (const data of readSSEData(res.body)) {
+            const chunk = JSON.parse(data) as CompletionChunk
+
+            const delta = chunk.choices?.[0]?.delta
+            if (delta?.content) {
+              firstTokenMs ??= performance.now() - startedAt
+              controller.enqueue(delta.content)
+            }
+            if (delta?.tool_calls) mergeToolCallDeltas(toolCalls, delta.tool_calls)
+
+            if (chunk.usage) {
+              onUsage?.({
+                ...chunk.usage,
+                duration_ms: performance.now() - startedAt,
+                time_to_first_token_ms: firstTokenMs,
+              })
+            }
+          }
+
+          const calls = toolCalls.filter(Boolean).map((call) => ({ ...call, id: call.id || generateId() }))
+          if (calls.length) onToolCalls?.(calls)
+          controller.close()
+        } catch (err) {
+          if (abortController.signal.aborted) {
+            // abort() ends the stream normally; a cancelled stream is already closed
+            if (!cancelled) controller.close()
+            return
+          }
+          // fetch and body reads fail with a TypeError when the network
+          // does; a server that answered with an error is still reachable
+          if (err instanceof TypeError) this.setConnection('disconnected')
+          controller.error(err instanceof Error ? err : new Error(String(err)))
+        } finally {
+          this.activeChats.delete(abortController)
+        }
+      },
+      cancel: () => {
+        cancelled = true
+        abortController.abort()
+      },
+    })
+  }
+
+  /** OpenAI-compatible servers let the model choose when to call tools */
+  toolSupport(): ToolSupport {
+    return 'auto'
+  }
+
+  abort() {
+    for (const abortController of this.activeChats) {
+      abortController.abort()
+    }
+  }
+
+  terminate() {
+    this.abort()
+    this.status = 'idle'
+    this.setConnection('disconnected')
+  }
+}
@@ -0,0 +1,207 @@
+// ============================================================
+// ScriptedBackend — deterministic offline inference backend
+//
+// Needs no GPU and no model download. Replies come from a fixed
+// script (cycled in order) or, by default, echo the last user
+// message (as a JSON object when a JSON response format is
+// requested). A "/tool_name {args}" message calls that tool when
+// it is offered, and a tool result is echoed back. Used for
+// development, unit tests and E2E runs on
+// machines without WebGPU.
+// ============================================================
+
+import type {
+  ChatMessage,
+  GenerateConfig,
+  ModelStatus,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+  ToolSupport,
+} from '../types'
+import type { InferenceBackend, InferenceBackendCallbacks } from './inference-backend'
+import { generateId } from './utils'
+
+export interface ScriptedBackendOptions {
+  /** Replies returned in order, cycling. Defaults to echoing the user. */
+  responses?: string[]
+  /** Delay between streamed chunks, in milliseconds */
+  chunkDelayMs?: number
+}
+
+/** Reply used when echoing the last user message */
+export function echoReply(messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find((m) => m.role === 'user')
+  return `Echo: ${lastUser?.content ?? ''}`
+}
+
+/** Echo reply wrapped in JSON, for conversations with a JSON response format */
+export function echoJsonReply(messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find((m) => m.role === 'user')
+  return JSON.stringify({ echo: lastUser?.content ?? '' })
+}
+
+/**
+ * Tool call for a "/tool_name {json args}" user message, or null
+ * when the last message is not such a command for an offered tool.
+ */
+export function scriptedToolCall(
+  messages: ChatMessage[],
+  tools: ToolDefinition[] | undefined,
+): ToolCall | null {
+  const last = messages[messages.length - 1]
+  const match = last?.role === 'user' ? last.content.match(/^\/(\w+)\s*([\s\S]*)$/) : null
+  if (!match || !tools?.some((t) => t.function.name === match[1])) return null
+
+  return {
+    id: generateId(),
+    type: 'function',
+    function: { name: match[1], arguments: match[2].trim() || '{}' },
+  }
+}
+
+/** Reply after a tool ran: repeat its result */
+function toolResultReply(messages: ChatMessage[]): string {
+  return `Tool result: ${messages[messages.length - 1].content}`
+}
+
+/** Split text into word-sized chunks, keeping whitespace attached */
+function toChunks(text: string): string[] {
+  return text.match(/\s*\S+/g) ?? []
+}
+
+/** Rough token estimate: one token per whitespace-separated word */
+function countTokens(text: string): number {
+  return toChunks(text).length
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export class ScriptedBackend implements InferenceBackend {
+  status: ModelStatus = 'idle'
+  private callbacks: InferenceBackendCallbacks = {}
+  private responses: string[] | null
+  private chunkDelayMs: number
+  private turn = 0
+  private loadCancelled = false
+  private activeChats = new Set<{ aborted: boolean; cancelled: boolean }>()
+
+  constructor(options: ScriptedBackendOptions = {}) {
+    this.responses = options.responses?.length ? options.responses : null
+    this.chunkDelayMs = options.chunkDelayMs ?? 0
+  }
+
+  private setStatus(status: ModelStatus) {
+    this.status = status
+    this.callbacks.onStatusChange?.(status)
+  }
+
+  setCallbacks(cb: InferenceBackendCallbacks) {
+    this.callbacks = cb
+  }
+
+  async init(model: string): Promise<boolean> {
+    this.loadCancelled = false
+    this.setStatus('loading')
+    this.callbacks.onProgress?.(0.5, `Preparing scripted model ${model}...`)
+    await delay(0)
+    if (this.loadCancelled) {
+      this.setStatus('idle')
+      return false
+    }
+    this.callbacks.onProgress?.(1, 'Ready')
+    this.setStatus('ready')
+    return true
+  }
+
+  cancelLoad() {
+    if (this.status === 'loading') this.loadCancelled = true
+  }
+
+  async switchModel(model: string): Promise<boolean> {
+    this.abort()
+    return this.init(model)
+  }
+
+  async unload(): Promise<void> {
+    this.abort()
+    this.setStatus('idle')
+  }
+
+  chat(
+    messages: ChatMessage[],
+    config?: GenerateConfig,
+    onUsage?: (usage: TokenUsage) => void,
+    onToolCalls?: (calls: ToolCall[]) => void,
+  ): ReadableStream<string> {
+    const toolCall = scriptedToolCall(messages, config?.tools)
+    const reply = toolCall
+      ? ''
+      : this.responses
+        ? this.responses[this.turn++ % this.responses.length]
+        : messages[messages.length - 1]?.role === 'tool'
+          ? toolResultReply(messages)
+          : config?.response_format?.type === 'json_object'
+            ? echoJsonReply(messages)
+            : echoReply(messages)
+    const chunks = toChunks(reply)
+    const request = { aborted: false, cancelled: false }
+    const startedAt = performance.now()
+
+    return new ReadableStream<string>({
+      start: async (controller) => {
+        if (this.status !== 'ready') {
+          controller.error(new Error('Engine not initialized. Load a model first.'))
+          return
+        }
+
+        this.activeChats.add(request)
+        for (const chunk of chunks) {
+          await delay(this.chunkDelayMs)
+          if (request.aborted) break
+          controller.enqueue(chunk)
+        }
+        this.activeChats.delete(request)
+        if (request.cancelled) return
+        if (request.aborted) {
+          // Like the worker, an aborted generation ends without usage
+          controller.close()
+          return
+        }
+
+        if (toolCall) onToolCalls?.([toolCall])
+        const promptTokens = messages.reduce((n, m) => n + countTokens(m.content), 0)
+        onUsage?.({
+          prompt_tokens: promptTokens,
+          completion_tokens: chunks.length,
+          total_tokens: promptTokens + chunks.length,
+          duration_ms: performance.now() - startedAt,
+        })
+        controller.close()
+      },
+      cancel: () => {
+        request.aborted = true
+        request.cancelled = true
+        this.activeChats.delete(request)
+      },
+    })
+  }
+
+  toolSupport(): ToolSupport {
+    return 'auto'
+  }
+
+  abort() {
+    for (const request of this.activeChats) {
+      request.aborted = true
+    }
+  }
+
+  terminate() {
+    this.abort()
+    this.activeChats.clear()
+    this.status = 'idle'
+  }
+}
@@ -0,0 +1,116 @@
+// ============================================================
+// Full-text search — tokenizing, ranking and snippets for the
+// inverted index over message content
+// ============================================================
+
+import type { Message, SearchPosting } from '../types'
+
+// Single letters and digits match too much to be worth indexing
+const MIN_TERM_LENGTH = 2
+const WORD = /[\p{L}\p{N}]+/gu
+
+/** Lower-cased words of `text`, in order, repeats included */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD) ?? []).filter((t) => t.length >= MIN_TERM_LENGTH)
+}
+
+/** Distinct search terms of a query */
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query))]
+}
+
+/** Only what a person typed or read is searchable */
+export function isSearchable(message: Message): boolean {
+  return (message.role === 'user' || message.role === 'assistant') && message.content !== ''
+}
+
+/** Index entries for a message, one per distinct term */
+export function postingsFor(message: Message): SearchPosting[] {
+  const counts = new Map<string, number>()
+  for (const term of tokenize(message.content)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1)
+  }
+  return [...counts].map(([term, count]) => ({
+    term,
+    messageId: message.id,
+    conversationId: message.conversationId,
+    count,
+  }))
+}
+
+/**
+ * Score messages that match every query term. `matches[i]` holds the
+ * postings found for the i-th term — prefix matches, so one message
+ * may have several. Each term adds tf-idf: rarer terms and repeated
+ * occurrences count for more.
+ */
+export function rankMatches(
+  matches: SearchPosting[][],
+  totalMessages: number,
+): { messageId: string; score: number }[] {
+  const weights = matches.map((postings) => {
+    const counts = new Map<string, number>()
+    for (const p of postings) counts.set(p.messageId, (counts.get(p.messageId) ?? 0) + p.count)
+
+    const idf = Math.log(1 + totalMessages / Math.max(counts.size, 1))
+    return new Map([...counts].map(([id, count]) => [id, (1 + Math.log(count)) * idf]))
+  })
+  if (weights.length === 0) return []
+
+  const [first, ...rest] = weights
+  return [...first]
+    .filter(([id]) => rest.every((w) => w.has(id)))
+    .map(([messageId, score]) => ({
+      messageId,
+      score: rest.reduce((sum, w) => sum + w.get(messageId)!, score),
+    }))
+    .sort((a, b) => b.score - a.score)
+}
+
+// ============================================================
+// Snippets
+// ============================================================
+
+export interface SnippetSegment {
+  text: string
+  match: boolean
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Words starting with any of the terms */
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp)
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})[\\p{L}\\p{N}]*`, 'giu')
+}
+
+/**
+ * A window of `content` around the first match, split into plain and
+ * matching segments for highlighting.
+ */
+export function snippetSegments(content: string, terms: string[], maxLength = 160): SnippetSegment[] {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const pattern = termPattern(terms)
+  const first = pattern ? text.search(pattern) : -1
+
+  let start = 0
+  if (text.length > maxLength && first > maxLength / 3) {
+    start = Math.min(first - Math.floor(maxLength / 3), text.length - maxLength)
+  }
+  const end = Math.min(start + maxLength, text.length)
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+
+  if (!pattern) return [{ text: excerpt, match: false }]
+  const segments: SnippetSegment[] = []
+  let last = 0
+  for (const hit of excerpt.matchAll(pattern)) {
+    if (hit.index > last) segments.push({ text: excerpt.slice(last, hit.index), match: false })
+    segments.push({ text: hit[0], match: true })
+    last = hit.index + hit[0].length
+  }
+  if (last < excerpt.length) segments.push({ text: excerpt.slice(last), match: false })
+  return segments
+}
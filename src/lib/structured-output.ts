@@ -0,0 +1,165 @@
+// ============================================================
+// Structured output — parse and validate JSON replies generated
+// under a `json_object` response format
+//
+// Grammar-guided decoding should always produce valid output,
+// but a reply can still be cut short (max_tokens, abort) and a
+// remote server may ignore the constraint, so every reply is
+// checked before it is rendered as data.
+//
+// The validator covers the JSON Schema subset WebLLM's grammar
+// compiler understands: type, properties, required,
+// additionalProperties, items, enum, const, anyOf and the
+// basic length/range keywords.
+// ============================================================
+
+import type { ResponseFormat, StructuredOutputCheck } from '../types'
+
+export type JsonSchema = {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  enum?: unknown[]
+  const?: unknown
+  anyOf?: JsonSchema[]
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+}
+
+/** Parse a schema string; throws with a readable message when invalid */
+export function parseSchema(text: string): JsonSchema {
+  let schema: unknown
+  try {
+    schema = JSON.parse(text)
+  } catch (err) {
+    throw new Error(`Schema is not valid JSON: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new Error('Schema must be a JSON object')
+  }
+  return schema as JsonSchema
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+/**
+ * Validate a parsed JSON value against a schema.
+ * Returns an empty array when the value conforms.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some((option) => validateJson(value, option, path).length === 0)
+    if (!matches) return [`${path}: does not match any allowed schema`]
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`]
+    }
+  }
+
+  const errors: string[] = []
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`)
+  }
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength != null && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`)
+    }
+    if (schema.maxLength != null && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum != null && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`)
+    }
+    if (schema.maximum != null && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`)
+    }
+    if (schema.maxItems != null && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`)
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)))
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}: missing required property "${key}"`)
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key]
+      if (propertySchema) {
+        errors.push(...validateJson(item, propertySchema, `${path}.${key}`))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`)
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJson(item, schema.additionalProperties, `${path}.${key}`))
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Check a finished reply against the conversation's response format.
+ * Returns undefined for formats that do not produce JSON.
+ */
+export function checkStructuredOutput(
+  content: string,
+  format: ResponseFormat | undefined,
+): StructuredOutputCheck | undefined {
+  if (format?.type !== 'json_object') return undefined
+
+  let value: unknown
+  try {
+    value = JSON.parse(content)
+  } catch (err) {
+    return { valid: false, errors: [`$: ${err instanceof Error ? err.message : 'invalid JSON'}`] }
+  }
+
+  if (!format.schema) return { valid: true, errors: [] }
+
+  let schema: JsonSchema
+  try {
+    schema = parseSchema(format.schema)
+  } catch (err) {
+    return { valid: false, errors: [err instanceof Error ? err.message : String(err)] }
+  }
+
+  const errors = validateJson(value, schema)
+  return { valid: errors.length === 0, errors }
+}
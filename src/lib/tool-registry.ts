@@ -0,0 +1,79 @@
+// ============================================================
+// ToolRegistry — tools the assistant can call during a chat
+//
+// Each tool pairs an OpenAI-style definition (what the model
+// sees) with a local implementation. The chat loop offers the
+// enabled tools' definitions, runs the calls the model makes and
+// feeds each result back as a 'tool' message.
+// ============================================================
+
+import type { ToolCall, ToolDefinition } from '../types'
+
+export interface Tool {
+  definition: ToolDefinition
+  /** Short label shown in settings */
+  label: string
+  /** Run the tool; the returned text is what the model sees */
+  execute(args: Record<string, unknown>): Promise<string>
+}
+
+export interface ToolResult {
+  content: string
+  isError: boolean
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>()
+
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) this.register(tool)
+  }
+
+  register(tool: Tool) {
+    this.tools.set(tool.definition.function.name, tool)
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name)
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()]
+  }
+
+  /** Definitions of the named tools, skipping names that are not registered */
+  definitions(names: string[]): ToolDefinition[] {
+    return names.flatMap((name) => {
+      const tool = this.tools.get(name)
+      return tool ? [tool.definition] : []
+    })
+  }
+
+  /**
+   * Run a call from the model. Failures are returned as error
+   * results rather than thrown, so the model can see what went
+   * wrong and recover.
+   */
+  async execute(call: ToolCall): Promise<ToolResult> {
+    const tool = this.tools.get(call.function.name)
+    if (!tool) {
+      return { content: `Error: unknown tool "${call.function.name}"`, isError: true }
+    }
+
+    let args: unknown
+    try {
+      args = JSON.parse(call.function.arguments || '{}')
+    } catch {
+      return { content: 'Error: arguments are not valid JSON', isError: true }
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return { content: 'Error: arguments must be a JSON object', isError: true }
+    }
+
+    try {
+      return { content: await tool.execute(args as Record<string, unknown>), isError: false }
+    } catch (err) {
+      return { content: `Error: ${err instanceof Error ? err.message : String(err)}`, isError: true }
+    }
+  }
+}
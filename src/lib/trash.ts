@@ -0,0 +1,22 @@
+// ============================================================
+// Trash items — naming and dating what sits in the trash
+// ============================================================
+
+import type { TrashItem } from '../types'
+import { truncate } from './utils'
+
+/** ID of the trashed conversation or message */
+export function trashItemId(item: TrashItem): string {
+  return item.kind === 'conversation' ? item.conversation.id : item.message.id
+}
+
+export function trashedAt(item: TrashItem): Date {
+  return (item.kind === 'conversation' ? item.conversation.deletedAt : item.message.deletedAt)!
+}
+
+/** What a trashed item is called in lists and notices */
+export function trashItemTitle(item: TrashItem): string {
+  if (item.kind === 'conversation') return item.conversation.title
+  const replies = item.count > 1 ? ` (+${item.count - 1} after it)` : ''
+  return `“${truncate(item.message.content || 'Tool call', 60)}”${replies}`
+}
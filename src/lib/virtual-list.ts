@@ -0,0 +1,100 @@
+// ============================================================
+// Virtual list — which rows of a long list to render, given
+// their measured (or estimated) heights and the scroll position
+// ============================================================
+
+export interface VisibleRange {
+  /** First row to render */
+  start: number
+  /** One past the last row to render */
+  end: number
+  /** Height of the rows above `start`, left as empty space */
+  before: number
+  /** Height of the rows from `end` on */
+  after: number
+}
+
+/** Each row's distance from the top of the list */
+export function rowOffsets(heights: number[]): number[] {
+  const offsets: number[] = []
+  let top = 0
+  for (const height of heights) {
+    offsets.push(top)
+    top += height
+  }
+  return offsets
+}
+
+/**
+ * The rows that overlap the viewport, plus `overscan` pixels of rows
+ * either side so scrolling doesn't reveal space before they render
+ */
+export function visibleRange(
+  heights: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number,
+): VisibleRange {
+  const from = scrollTop - overscan
+  const to = scrollTop + viewportHeight + overscan
+
+  let start = 0
+  let before = 0
+  while (start < heights.length && before + heights[start] <= from) {
+    before += heights[start]
+    start++
+  }
+
+  let end = start
+  let bottom = before
+  while (end < heights.length && bottom < to) {
+    bottom += heights[end]
+    end++
+  }
+
+  let after = 0
+  for (let i = end; i < heights.length; i++) after += heights[i]
+  return { start, end, before, after }
+}
+
+// ============================================================
+// Remembered layouts — row heights and scroll position of the
+// lists shown recently, so going back to one lays out and
+// scrolls without measuring every row again
+// ============================================================
+
+/** A row and its top relative to the top of the viewport */
+export interface ScrollAnchor {
+  id: string
+  offset: number
+}
+
+export interface ListLayout {
+  /** Measured heights by row id */
+  rowHeights: Map<string, number>
+  /** Where the list was scrolled to when it was last shown */
+  scroll?: { atBottom: boolean; anchor: ScrollAnchor | null }
+}
+
+/** How many lists are remembered; the least recently shown go first */
+export const MAX_REMEMBERED_LAYOUTS = 20
+
+// Least recently used first
+const layouts = new Map<string, ListLayout>()
+
+/** The layout remembered for list `key`, now the most recently used */
+export function rememberedLayout(key: string): ListLayout {
+  const layout = layouts.get(key) ?? { rowHeights: new Map() }
+  layouts.delete(key)
+  layouts.set(key, layout)
+  for (const oldest of layouts.keys()) {
+    if (layouts.size <= MAX_REMEMBERED_LAYOUTS) break
+    layouts.delete(oldest)
+  }
+  return layout
+}
+
+/** Drop what is remembered about list `key`, e.g. once it is deleted */
+export function forgetLayout(key: string): void {
+  layouts.delete(key)
+}
@@ -3,45 +3,192 @@
 //
 // Provides a ReadableStream-based API that is compatible with
 // the Vercel AI SDK's custom fetch handler.
+//
+// Each request is tagged with a requestId that the worker echoes
+// back; a single message listener routes replies to the promise
+// or stream that owns that ID.
+//
+// The bridge also watches worker health: an uncaught worker
+// error, a `fatal` message (GPU device lost) or a missed
+// heartbeat fails every pending request with WORKER_CRASHED,
+// then respawns the worker and reloads the last model.
 // ============================================================
 
-import type {
-  WorkerMessageToWorker,
-  WorkerMessageFromWorker,
-  ChatMessage,
-  GenerateConfig,
-  ModelStatus,
+import {
+  AVAILABLE_MODELS,
+  type WorkerMessageToWorker,
+  type WorkerMessageFromWorker,
+  type ChatMessage,
+  type GenerateConfig,
+  type ModelStatus,
+  type TokenUsage,
+  type ToolCall,
+  type ToolSupport,
 } from '../types'
+import type { InferenceBackend, InferenceBackendCallbacks } from './inference-backend'
+import { generateId } from './utils'
+import { ContextOverflowError } from './context-window'
+
+type ReplyHandler = (msg: Exclude<WorkerMessageFromWorker, { type: 'fatal' }>) => void
 
-export type WorkerBridgeCallback = {
-  onStatusChange?: (status: ModelStatus) => void
-  onProgress?: (progress: number, text: string) => void
-  onError?: (error: string, code: string) => void
+interface PendingRequest {
+  handle: ReplyHandler
+  /** Settle the request when the worker dies before replying */
+  fail: (error: string) => void
 }
 
-export class WorkerBridge {
+export interface WorkerBridgeOptions {
+  /** How often to ping the worker while requests are pending */
+  heartbeatIntervalMs?: number
+  /** Silence after which the worker is considered hung */
+  heartbeatTimeoutMs?: number
+  /** Consecutive automatic respawns before giving up */
+  maxRestarts?: number
+}
+
+/**
+ * Error a chat stream fails with when the worker dies mid-generation.
+ * The interrupted user message can be resent once the model reloads.
+ */
+export class WorkerCrashedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkerCrashedError'
+  }
+}
+
+function createLLMWorker(): Worker {
+  return new Worker(
+    new URL('../worker/llm-worker.ts', import.meta.url),
+    { type: 'module' },
+  )
+}
+
+export class WorkerBridge implements InferenceBackend {
+  status: ModelStatus = 'idle'
   private worker: Worker | null = null
-  private callbacks: WorkerBridgeCallback = {}
+  private callbacks: InferenceBackendCallbacks = {}
+  private createWorker: () => Worker
+  private pending = new Map<string, PendingRequest>()
+  private activeChats = new Set<string>()
+
+  private heartbeatIntervalMs: number
+  private heartbeatTimeoutMs: number
+  private maxRestarts: number
+  private heartbeat: ReturnType<typeof setInterval> | null = null
+  private lastSeen = 0
+  private lastModel: string | null = null
+  private loadingRequestId: string | null = null
+  private restarts = 0
 
-  constructor() {
-    // Worker will be created lazily on first init
+  /**
+   * @param createWorker Worker factory. The worker is created lazily
+   *   on first use; tests pass a factory returning a mock.
+   */
+  constructor(createWorker: () => Worker = createLLMWorker, options: WorkerBridgeOptions = {}) {
+    this.createWorker = createWorker
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 5_000
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 30_000
+    this.maxRestarts = options.maxRestarts ?? 3
   }
 
   private ensureWorker(): Worker {
     if (!this.worker) {
-      this.worker = new Worker(
-        new URL('../worker/llm-worker.ts', import.meta.url),
-        { type: 'module' },
-      )
+      this.worker = this.createWorker()
+      this.worker.addEventListener('message', this.handleMessage)
+      this.worker.addEventListener('error', this.handleWorkerError)
+      this.worker.addEventListener('messageerror', this.handleWorkerError)
+      this.lastSeen = Date.now()
     }
     return this.worker
   }
 
+  private detachWorker() {
+    this.worker?.removeEventListener('message', this.handleMessage)
+    this.worker?.removeEventListener('error', this.handleWorkerError)
+    this.worker?.removeEventListener('messageerror', this.handleWorkerError)
+  }
+
+  private handleMessage = (e: MessageEvent<WorkerMessageFromWorker>) => {
+    const msg = e.data
+    this.lastSeen = Date.now()
+
+    if (msg.type === 'fatal') {
+      this.handleCrash(msg.error)
+      return
+    }
+    // Replies for requests we no longer track (e.g. a cancelled stream) are dropped
+    this.pending.get(msg.requestId)?.handle(msg)
+  }
+
+  private handleWorkerError = (e: Event) => {
+    const detail = e instanceof ErrorEvent && e.message ? `: ${e.message}` : ''
+    this.handleCrash(`The inference worker crashed${detail}`)
+  }
+
+  /**
+   * Tear down a dead worker, fail everything in flight and respawn.
+   */
+  private handleCrash(reason: string) {
+    this.stopHeartbeat()
+    this.detachWorker()
+    this.worker?.terminate()
+    this.worker = null
+
+    const failed = [...this.pending.values()]
+    this.pending.clear()
+    this.activeChats.clear()
+    for (const request of failed) request.fail(reason)
+
+    this.callbacks.onError?.(reason, 'WORKER_CRASHED')
+    this.setStatus('error')
+
+    if (this.lastModel && this.restarts < this.maxRestarts) {
+      this.restarts++
+      void this.init(this.lastModel)
+    }
+  }
+
+  private track(requestId: string, request: PendingRequest) {
+    this.pending.set(requestId, request)
+    this.startHeartbeat()
+  }
+
+  private untrack(requestId: string) {
+    this.pending.delete(requestId)
+    this.activeChats.delete(requestId)
+    if (this.pending.size === 0) this.stopHeartbeat()
+  }
+
+  private startHeartbeat() {
+    if (this.heartbeat) return
+    this.lastSeen = Date.now()
+    this.heartbeat = setInterval(() => {
+      if (Date.now() - this.lastSeen > this.heartbeatTimeoutMs) {
+        this.handleCrash('The inference worker stopped responding')
+        return
+      }
+      this.post({ type: 'ping', requestId: generateId() })
+    }, this.heartbeatIntervalMs)
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = null
+    }
+  }
+
   private post(msg: WorkerMessageToWorker) {
     this.ensureWorker().postMessage(msg)
   }
 
-  setCallbacks(cb: WorkerBridgeCallback) {
+  private setStatus(status: ModelStatus) {
+    this.status = status
+    this.callbacks.onStatusChange?.(status)
+  }
+
+  setCallbacks(cb: InferenceBackendCallbacks) {
     this.callbacks = cb
   }
 
@@ -50,79 +197,186 @@ export class WorkerBridge {
    * Returns a promise that resolves when loading is complete.
    */
   async init(model: string): Promise<boolean> {
-    const worker = this.ensureWorker()
-    this.callbacks.onStatusChange?.('loading')
+    return this.load('init', model)
+  }
+
+  /**
+   * Replace the loaded model. The worker aborts in-flight
+   * generations (their streams close normally) before reloading.
+   */
+  async switchModel(model: string): Promise<boolean> {
+    return this.load('switch', model)
+  }
+
+  private load(type: 'init' | 'switch', model: string): Promise<boolean> {
+    const requestId = generateId()
+    this.lastModel = model
+    this.loadingRequestId = requestId
+    this.setStatus('loading')
 
     return new Promise<boolean>((resolve) => {
-      const handler = (e: MessageEvent<WorkerMessageFromWorker>) => {
-        const msg = e.data
-        switch (msg.type) {
-          case 'init-progress':
-            this.callbacks.onProgress?.(msg.progress, msg.text)
-            break
-          case 'init-complete':
-            worker.removeEventListener('message', handler)
-            this.callbacks.onStatusChange?.(msg.success ? 'ready' : 'error')
-            resolve(msg.success)
-            break
-          case 'error':
-            this.callbacks.onError?.(msg.error, msg.code)
-            break
-        }
-      }
+      this.track(requestId, {
+        handle: (msg) => {
+          switch (msg.type) {
+            case 'init-progress':
+              this.callbacks.onProgress?.(msg.progress, msg.text, msg.report)
+              break
+            case 'init-complete':
+              this.untrack(requestId)
+              if (this.loadingRequestId === requestId) this.loadingRequestId = null
+              if (msg.cancelled) {
+                // Nothing is loaded now, so crash recovery has nothing to reload
+                this.lastModel = null
+                this.setStatus('idle')
+              } else {
+                this.setStatus(msg.success ? 'ready' : 'error')
+              }
+              resolve(msg.success)
+              break
+            case 'error':
+              this.callbacks.onError?.(msg.error, msg.code)
+              break
+          }
+        },
+        fail: () => {
+          if (this.loadingRequestId === requestId) this.loadingRequestId = null
+          resolve(false)
+        },
+      })
 
-      worker.addEventListener('message', handler)
-      this.post({ type: 'init', model })
+      this.post({ type, requestId, model })
     })
   }
 
   /**
-   * Send a chat request and get back a ReadableStream of content chunks.
-   * This is compatible with the Vercel AI SDK custom fetch pattern.
+   * Interrupt the model download/compile in progress. Shards already
+   * downloaded stay cached, so a later load resumes from them.
    */
-  chat(messages: ChatMessage[], config?: GenerateConfig): ReadableStream<string> {
-    const worker = this.ensureWorker()
+  cancelLoad() {
+    if (this.loadingRequestId) {
+      this.post({ type: 'abort', requestId: this.loadingRequestId })
+    }
+  }
 
-    return new ReadableStream<string>({
-      start: (controller) => {
-        const handler = (e: MessageEvent<WorkerMessageFromWorker>) => {
-          const msg = e.data
+  /**
+   * Abort in-flight generations and free the model's GPU memory.
+   * The worker itself stays alive for the next load.
+   */
+  async unload(): Promise<void> {
+    // Nothing was ever loaded
+    if (!this.worker) {
+      this.setStatus('idle')
+      return
+    }
+
+    const requestId = generateId()
+    // An unloaded model must not be reloaded by crash recovery
+    this.lastModel = null
+    this.setStatus('unloading')
+
+    return new Promise<void>((resolve) => {
+      this.track(requestId, {
+        handle: (msg) => {
           switch (msg.type) {
-            case 'chunk':
-              controller.enqueue(msg.content)
-              break
-            case 'done':
-              worker.removeEventListener('message', handler)
-              controller.close()
+            case 'unload-complete':
+              this.untrack(requestId)
+              this.setStatus('idle')
+              resolve()
               break
             case 'error':
-              worker.removeEventListener('message', handler)
-              controller.error(new Error(msg.error))
+              this.callbacks.onError?.(msg.error, msg.code)
               break
           }
-        }
+        },
+        fail: () => resolve(),
+      })
 
-        worker.addEventListener('message', handler)
-        this.post({ type: 'chat', messages, config })
+      this.post({ type: 'unload', requestId })
+    })
+  }
+
+  /**
+   * Send a chat request and get back a ReadableStream of content chunks.
+   * This is compatible with the Vercel AI SDK custom fetch pattern.
+   *
+   * `onUsage` receives token counts and timings just before the stream
+   * closes, when the worker reports them.
+   */
+  chat(
+    messages: ChatMessage[],
+    config?: GenerateConfig,
+    onUsage?: (usage: TokenUsage) => void,
+    onToolCalls?: (calls: ToolCall[]) => void,
+  ): ReadableStream<string> {
+    const requestId = generateId()
+
+    return new ReadableStream<string>({
+      start: (controller) => {
+        this.track(requestId, {
+          handle: (msg) => {
+            switch (msg.type) {
+              case 'chunk':
+                controller.enqueue(msg.content)
+                break
+              case 'done':
+                this.untrack(requestId)
+                // A completed generation means the worker is healthy again
+                this.restarts = 0
+                if (msg.usage) onUsage?.(msg.usage)
+                if (msg.toolCalls?.length) onToolCalls?.(msg.toolCalls)
+                controller.close()
+                break
+              case 'error':
+                this.untrack(requestId)
+                controller.error(
+                  msg.code === 'CONTEXT_OVERFLOW'
+                    ? new ContextOverflowError(msg.error)
+                    : new Error(msg.error),
+                )
+                break
+            }
+          },
+          fail: (error) => controller.error(new WorkerCrashedError(error)),
+        })
+
+        this.activeChats.add(requestId)
+        this.post({ type: 'chat', requestId, messages, config })
       },
       cancel: () => {
-        this.post({ type: 'abort' })
+        this.untrack(requestId)
+        this.post({ type: 'abort', requestId })
       },
     })
   }
 
   /**
-   * Abort the current generation.
+   * Only WebLLM's function-calling models accept tools, and they
+   * answer every request that offers tools with tool calls.
+   */
+  toolSupport(model: string | null): ToolSupport {
+    return AVAILABLE_MODELS.find((m) => m.id === model)?.supportsTools ? 'forced' : 'none'
+  }
+
+  /**
+   * Abort all in-flight generations.
    */
   abort() {
-    this.post({ type: 'abort' })
+    for (const requestId of this.activeChats) {
+      this.post({ type: 'abort', requestId })
+    }
   }
 
   /**
    * Terminate the worker entirely.
    */
   terminate() {
+    this.stopHeartbeat()
+    this.detachWorker()
     this.worker?.terminate()
     this.worker = null
+    this.status = 'idle'
+    this.loadingRequestId = null
+    this.pending.clear()
+    this.activeChats.clear()
   }
 }
@@ -1,6 +1,21 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { useAppStore } from '../app-store'
-import { resetDB, getSetting, getConversation, getMessages, addMessage } from '../../lib/database'
+import {
+  resetDB,
+  getSetting,
+  getConversation,
+  getMessages,
+  addMessage,
+  trashConversation,
+  deleteConversation,
+  listConversations,
+  purgeTrash,
+  listFolders,
+  deleteFolder,
+  listTags,
+  deleteTag,
+  setActiveLeaf,
+} from '../../lib/database'
 import type { Message } from '../../types'
 
 // Reset store and DB before each test
@@ -12,10 +27,23 @@ beforeEach(() => {
     modelStatus: 'idle',
     loadProgress: 0,
     loadProgressText: '',
+    loadReport: null,
+    partialDownloads: {},
     errorMessage: null,
     errorCode: null,
+    generationSettings: {},
+    presets: [],
+    contextSettings: { strategy: 'sliding-window', keepLastN: 20 },
     currentConversationId: null,
     conversations: [],
+    highlightedMessageId: null,
+    folders: [],
+    tags: [],
+    conversationFilter: { kind: 'all' },
+    messagesVersion: 0,
+    trash: [],
+    recentlyDeleted: null,
+    trashRetentionDays: 30,
     sidebarOpen: true,
     settingsOpen: false,
   })
@@ -35,6 +63,18 @@ describe('AppStore', () => {
       expect(persisted).toBe('test-model')
     })
 
+    it('merges remote config updates and persists them', async () => {
+      const store = useAppStore.getState()
+      store.setRemoteConfig({ baseUrl: 'http://llm.lan:8080', apiKey: '', model: '' })
+      useAppStore.getState().setRemoteConfig({ model: 'qwen2.5-7b' })
+
+      await new Promise((r) => setTimeout(r, 50))
+
+      const expected = { baseUrl: 'http://llm.lan:8080', apiKey: '', model: 'qwen2.5-7b' }
+      expect(useAppStore.getState().remoteConfig).toEqual(expected)
+      expect(await getSetting('remoteConfig')).toEqual(expected)
+    })
+
     it('tracks model status', () => {
       const store = useAppStore.getState()
       store.setModelStatus('loading')
@@ -53,6 +93,30 @@ describe('AppStore', () => {
       expect(state.loadProgressText).toBe('Downloading 50%...')
     })
 
+    it('resets load progress when a new load starts', () => {
+      const store = useAppStore.getState()
+      store.setLoadProgress(1, 'Done', { phase: 'finished', progress: 1, elapsedMs: 500 })
+
+      store.setModelStatus('loading')
+
+      const state = useAppStore.getState()
+      expect(state.loadProgress).toBe(0)
+      expect(state.loadReport).toBeNull()
+    })
+
+    it('persists and clears partial downloads', async () => {
+      const download = { shardsDone: 3, shardsTotal: 24, updatedAt: new Date() }
+      await useAppStore.getState().setPartialDownload('test-model', download)
+
+      expect(useAppStore.getState().partialDownloads).toEqual({ 'test-model': download })
+      expect(await getSetting('partialDownloads')).toEqual({ 'test-model': download })
+
+      await useAppStore.getState().setPartialDownload('test-model', null)
+
+      expect(useAppStore.getState().partialDownloads).toEqual({})
+      expect(await getSetting('partialDownloads')).toEqual({})
+    })
+
     it('sets and clears errors', () => {
       const store = useAppStore.getState()
       store.setError('Something went wrong', 'GENERATION_ERROR')
@@ -67,6 +131,53 @@ describe('AppStore', () => {
       expect(state.errorMessage).toBeNull()
       expect(state.errorCode).toBeNull()
     })
+
+    it('keeps the model ready after a context overflow', () => {
+      useAppStore.setState({ modelStatus: 'ready' })
+      useAppStore.getState().setError('Prompt too long', 'CONTEXT_OVERFLOW')
+      expect(useAppStore.getState().modelStatus).toBe('ready')
+    })
+  })
+
+  describe('Context window', () => {
+    it('merges and persists context settings', async () => {
+      useAppStore.getState().setContextSettings({ strategy: 'keep-last-n' })
+      useAppStore.getState().setContextSettings({ keepLastN: 6 })
+
+      await new Promise((r) => setTimeout(r, 50))
+
+      const expected = { strategy: 'keep-last-n', keepLastN: 6 }
+      expect(useAppStore.getState().contextSettings).toEqual(expected)
+      expect(await getSetting('contextSettings')).toEqual(expected)
+    })
+  })
+
+  describe('Sampling', () => {
+    it('persists generation settings and restores them on hydrate', async () => {
+      const settings = { seed: 42, stop: ['###'], logit_bias: { '13': -100 } }
+      useAppStore.getState().setGenerationSettings(settings)
+
+      await new Promise((r) => setTimeout(r, 50))
+
+      expect(await getSetting('generationSettings')).toEqual(settings)
+      useAppStore.setState({ generationSettings: {} })
+      await useAppStore.getState().hydrate()
+      expect(useAppStore.getState().generationSettings).toEqual(settings)
+    })
+
+    it('loads built-in presets and saves custom ones', async () => {
+      await useAppStore.getState().hydrate()
+      const builtIn = useAppStore.getState().presets.length
+      expect(builtIn).toBeGreaterThan(0)
+
+      const preset = await useAppStore
+        .getState()
+        .savePreset('Terse', { systemPrompt: 'One sentence.', config: { max_tokens: 64 } })
+      expect(useAppStore.getState().presets).toHaveLength(builtIn + 1)
+
+      await useAppStore.getState().deletePreset(preset.id)
+      expect(useAppStore.getState().presets).toHaveLength(builtIn)
+    })
   })
 
   describe('Conversations', () => {
@@ -87,6 +198,50 @@ describe('AppStore', () => {
       expect(dbConv!.title).toBe('Test Chat')
     })
 
+    it('opens a search result and clears the highlight on navigation', async () => {
+      const store = useAppStore.getState()
+      await store.createConversation('c1', 'First')
+      await store.createConversation('c2', 'Second')
+
+      await useAppStore.getState().openSearchResult('c1', 'm1')
+      expect(useAppStore.getState()).toMatchObject({
+        currentConversationId: 'c1',
+        highlightedMessageId: 'm1',
+      })
+
+      useAppStore.getState().setCurrentConversation('c2')
+      expect(useAppStore.getState().highlightedMessageId).toBeNull()
+    })
+
+    it('opens a search result on the branch it belongs to', async () => {
+      await useAppStore.getState().createConversation('hit-c1', 'Branched')
+      const message = (id: string, parentId: string | null, offset: number): Message => ({
+        id,
+        conversationId: 'hit-c1',
+        role: parentId === null ? 'user' : 'assistant',
+        content: id,
+        createdAt: new Date(Date.now() + offset),
+        parentId,
+      })
+      // hit-u1 ─ hit-a1, and its edit hit-u2 ─ hit-a2 being shown
+      await addMessage(message('hit-u1', null, 0))
+      await addMessage(message('hit-a1', 'hit-u1', 1))
+      await addMessage(message('hit-u2', null, 2))
+      await addMessage(message('hit-a2', 'hit-u2', 3))
+      await setActiveLeaf('hit-c1', 'hit-a2')
+
+      await useAppStore.getState().openSearchResult('hit-c1', 'hit-u1')
+      expect((await getConversation('hit-c1'))!.activeLeafId).toBe('hit-a1')
+      expect(useAppStore.getState().highlightedMessageId).toBe('hit-u1')
+
+      // A hit on the branch being shown keeps it as it is
+      await setActiveLeaf('hit-c1', 'hit-u2')
+      await useAppStore.getState().openSearchResult('hit-c1', 'hit-u2')
+      expect((await getConversation('hit-c1'))!.activeLeafId).toBe('hit-u2')
+
+      await deleteConversation('hit-c1')
+    })
+
     it('loads conversations from IndexedDB', async () => {
       const store = useAppStore.getState()
       // Create conversations directly in DB
@@ -113,27 +268,34 @@ describe('AppStore', () => {
       expect(state.conversations[0].title).toBe('New Title')
     })
 
-    it('deletes a conversation and its messages', async () => {
+    it('attaches and clears a response format', async () => {
       const store = useAppStore.getState()
-      await store.createConversation('c1', 'To Delete')
+      await store.createConversation('c1')
+      const format = { type: 'json_object' as const, schema: '{"type":"object"}' }
 
-      const msg: Message = {
-        id: 'm1',
-        conversationId: 'c1',
-        role: 'user',
-        content: 'Hello',
-        createdAt: new Date(),
-      }
-      await addMessage(msg)
+      await useAppStore.getState().setConversationResponseFormat('c1', format)
 
-      await useAppStore.getState().deleteConversation('c1')
+      expect(useAppStore.getState().conversations[0].responseFormat).toEqual(format)
+      expect((await getConversation('c1'))?.responseFormat).toEqual(format)
 
-      const state = useAppStore.getState()
-      expect(state.conversations).toHaveLength(0)
-      expect(state.currentConversationId).toBeNull()
+      await useAppStore.getState().setConversationResponseFormat('c1', null)
+
+      expect(useAppStore.getState().conversations[0].responseFormat).toBeUndefined()
+      expect((await getConversation('c1'))?.responseFormat).toBeUndefined()
+    })
+
+    it('updates per-conversation settings', async () => {
+      await useAppStore.getState().createConversation('c1')
 
-      const msgs = await getMessages('c1')
-      expect(msgs).toHaveLength(0)
+      await useAppStore.getState().updateConversationSettings('c1', {
+        modelId: 'test-model',
+        systemPrompt: 'Be brief.',
+      })
+      await useAppStore.getState().updateConversationSettings('c1', { systemPrompt: undefined })
+
+      expect(useAppStore.getState().conversations[0]).toMatchObject({ modelId: 'test-model' })
+      expect(useAppStore.getState().conversations[0].systemPrompt).toBeUndefined()
+      expect(await getConversation('c1')).toMatchObject({ modelId: 'test-model' })
     })
 
     it('switches current conversation when active one is deleted', async () => {
@@ -144,12 +306,160 @@ describe('AppStore', () => {
       // c2 should be current
       expect(useAppStore.getState().currentConversationId).toBe('c2')
 
-      await useAppStore.getState().deleteConversation('c2')
+      await useAppStore.getState().trashConversation('c2')
 
       expect(useAppStore.getState().currentConversationId).toBe('c1')
     })
   })
 
+  describe('Trash', () => {
+    // The database outlives each test
+    afterEach(async () => {
+      for (const c of await listConversations()) {
+        if (c.id.startsWith('trash-')) await deleteConversation(c.id)
+      }
+      await purgeTrash()
+    })
+
+    it('moves a conversation to the trash and undoes it', async () => {
+      await useAppStore.getState().createConversation('trash-c1', 'To Delete')
+      await addMessage({
+        id: 'trash-m1',
+        conversationId: 'trash-c1',
+        role: 'user',
+        content: 'Hello',
+        createdAt: new Date(),
+      })
+
+      await useAppStore.getState().trashConversation('trash-c1')
+
+      let state = useAppStore.getState()
+      expect(state.conversations.some((c) => c.id === 'trash-c1')).toBe(false)
+      expect(state.currentConversationId).not.toBe('trash-c1')
+      expect(state.recentlyDeleted).toMatchObject({ kind: 'conversation', conversation: { id: 'trash-c1' } })
+      expect(state.trash.some((i) => i.kind === 'conversation' && i.conversation.id === 'trash-c1')).toBe(
+        true,
+      )
+
+      await state.restoreFromTrash(state.recentlyDeleted!)
+
+      state = useAppStore.getState()
+      expect(state.recentlyDeleted).toBeNull()
+      expect(state.conversations.some((c) => c.id === 'trash-c1')).toBe(true)
+      expect((await getMessages('trash-c1')).map((m) => m.id)).toEqual(['trash-m1'])
+    })
+
+    it('deletes a message and brings it back', async () => {
+      await useAppStore.getState().createConversation('trash-c2', 'Chat')
+      const msg: Message = {
+        id: 'trash-m2',
+        conversationId: 'trash-c2',
+        role: 'user',
+        content: 'Oops',
+        createdAt: new Date(),
+        parentId: null,
+      }
+      await addMessage(msg)
+
+      await useAppStore.getState().trashMessage('trash-m2')
+      expect(useAppStore.getState().messagesVersion).toBe(1)
+      expect(useAppStore.getState().recentlyDeleted).toMatchObject({
+        kind: 'message',
+        conversationTitle: 'Chat',
+        count: 1,
+      })
+      expect(await getMessages('trash-c2')).toEqual([])
+
+      await useAppStore.getState().restoreFromTrash(useAppStore.getState().recentlyDeleted!)
+      expect(useAppStore.getState().messagesVersion).toBe(2)
+      expect((await getMessages('trash-c2')).map((m) => m.id)).toEqual(['trash-m2'])
+    })
+
+    it('purges items for good', async () => {
+      await useAppStore.getState().createConversation('trash-c3', 'Gone')
+      await useAppStore.getState().trashConversation('trash-c3')
+
+      await useAppStore.getState().purgeFromTrash(useAppStore.getState().recentlyDeleted!)
+
+      expect(useAppStore.getState().recentlyDeleted).toBeNull()
+      expect(await getConversation('trash-c3')).toBeUndefined()
+    })
+
+    it('purges expired items on hydrate', async () => {
+      useAppStore.getState().setTrashRetentionDays(7)
+      await new Promise((r) => setTimeout(r, 50))
+      await useAppStore.getState().createConversation('trash-old', 'Old')
+      await useAppStore.getState().createConversation('trash-new', 'New')
+      await trashConversation('trash-old', new Date(Date.now() - 8 * 24 * 60 * 60 * 1000))
+      await trashConversation('trash-new', new Date(Date.now() - 6 * 24 * 60 * 60 * 1000))
+
+      await useAppStore.getState().hydrate()
+
+      expect(useAppStore.getState().trashRetentionDays).toBe(7)
+      expect(await getConversation('trash-old')).toBeUndefined()
+      expect(await getConversation('trash-new')).toMatchObject({ title: 'New' })
+    })
+  })
+
+  describe('Organization', () => {
+    afterEach(async () => {
+      for (const c of await listConversations()) {
+        if (c.id.startsWith('org-')) await deleteConversation(c.id)
+      }
+      for (const f of await listFolders()) await deleteFolder(f.id)
+      for (const t of await listTags()) await deleteTag(t.id)
+    })
+
+    it('pins and archives a conversation', async () => {
+      const store = useAppStore.getState()
+      await store.createConversation('org-c1', 'Keep handy')
+      await store.organizeConversation('org-c1', { pinnedAt: new Date(), archivedAt: new Date() })
+
+      const conv = useAppStore.getState().conversations.find((c) => c.id === 'org-c1')!
+      expect(conv.pinnedAt).toBeInstanceOf(Date)
+      expect((await getConversation('org-c1'))!.archivedAt).toBeInstanceOf(Date)
+    })
+
+    it('will not move a folder into its own subfolder', async () => {
+      const store = useAppStore.getState()
+      const parent = await store.createFolder('Work')
+      const child = await store.createFolder('Clients', parent.id)
+
+      await useAppStore.getState().moveFolder(parent.id, child.id)
+      expect(useAppStore.getState().folders.find((f) => f.id === parent.id)!.parentId).toBeNull()
+      expect((await listFolders()).find((f) => f.id === parent.id)!.parentId).toBeNull()
+    })
+
+    it('moves filed conversations up and leaves the filter when a folder is deleted', async () => {
+      const store = useAppStore.getState()
+      await store.createConversation('org-c2', 'Filed')
+      const parent = await store.createFolder('Work')
+      const child = await useAppStore.getState().createFolder('Clients', parent.id)
+      await useAppStore.getState().organizeConversation('org-c2', { folderId: child.id })
+      useAppStore.getState().setConversationFilter({ kind: 'folder', folderId: child.id })
+
+      await useAppStore.getState().deleteFolder(child.id)
+      const state = useAppStore.getState()
+      expect(state.folders.map((f) => f.id)).toEqual([parent.id])
+      expect(state.conversations.find((c) => c.id === 'org-c2')!.folderId).toBe(parent.id)
+      expect(state.conversationFilter).toEqual({ kind: 'folder', folderId: parent.id })
+    })
+
+    it('untags conversations when a tag is deleted', async () => {
+      const store = useAppStore.getState()
+      await store.createConversation('org-c3', 'Tagged')
+      const tag = await store.createTag('Urgent', 'red')
+      await useAppStore.getState().organizeConversation('org-c3', { tagIds: [tag.id] })
+      useAppStore.getState().setConversationFilter({ kind: 'tag', tagId: tag.id })
+
+      await useAppStore.getState().deleteTag(tag.id)
+      const state = useAppStore.getState()
+      expect(state.tags).toEqual([])
+      expect(state.conversations.find((c) => c.id === 'org-c3')!.tagIds).toEqual([])
+      expect(state.conversationFilter).toEqual({ kind: 'all' })
+    })
+  })
+
   describe('UI state', () => {
     it('toggles sidebar', () => {
       expect(useAppStore.getState().sidebarOpen).toBe(true)
@@ -6,10 +6,32 @@ import { create } from 'zustand'
 import type {
   AppState,
   Conversation,
+  ConversationFilter,
+  ConversationOrganization,
+  ConversationSettings,
+  ConnectionStatus,
+  ContextSettings,
+  ContextSummary,
   ErrorCode,
+  Folder,
+  GenerationPreset,
+  GenerationSettings,
+  InferenceMode,
+  LoadProgress,
   ModelStatus,
+  PartialDownload,
+  RemoteConfig,
+  ResponseFormat,
+  Tag,
+  TagColor,
+  TrashItem,
 } from '../types'
 import * as db from '../lib/database'
+import { forgetLayout } from '../lib/virtual-list'
+import type { ConversationBundle } from '../lib/conversation-export'
+import { generateId } from '../lib/utils'
+import { trashItemId } from '../lib/trash'
+import { canMoveFolder } from '../lib/organization'
 
 // ============================================================
 // Actions interface
@@ -17,18 +39,71 @@ import * as db from '../lib/database'
 
 export interface AppActions {
   // Model lifecycle
+  setInferenceMode: (mode: InferenceMode) => void
+  setRemoteConfig: (config: Partial<RemoteConfig>) => void
+  setConnectionStatus: (status: ConnectionStatus) => void
   setModelId: (modelId: string | null) => void
   setModelStatus: (status: ModelStatus) => void
-  setLoadProgress: (progress: number, text: string) => void
+  setLoadProgress: (progress: number, text: string, report?: LoadProgress | null) => void
+  setPartialDownload: (modelId: string, download: PartialDownload | null) => Promise<void>
   setError: (message: string | null, code?: ErrorCode | null) => void
   clearError: () => void
 
+  // Tools
+  setToolEnabled: (name: string, enabled: boolean) => void
+
+  // Sampling
+  setGenerationSettings: (settings: GenerationSettings) => void
+  savePreset: (
+    name: string,
+    preset: Pick<GenerationPreset, 'systemPrompt' | 'config'>,
+  ) => Promise<GenerationPreset>
+  deletePreset: (id: string) => Promise<void>
+
+  // Context window
+  setContextSettings: (settings: Partial<ContextSettings>) => void
+
   // Conversations
   loadConversations: () => Promise<void>
   createConversation: (id: string, title?: string) => Promise<Conversation>
+  /** Add conversations from an export file; resolves to those added */
+  importConversations: (bundles: ConversationBundle[]) => Promise<Conversation[]>
   setCurrentConversation: (id: string | null) => void
+  /** Open a conversation on the branch of one of its messages, scrolled to it */
+  openSearchResult: (conversationId: string, messageId: string) => Promise<void>
+  clearHighlightedMessage: () => void
   updateConversationTitle: (id: string, title: string) => Promise<void>
-  deleteConversation: (id: string) => Promise<void>
+  /** Pass null to go back to free-form text replies */
+  setConversationResponseFormat: (id: string, format: ResponseFormat | null) => Promise<void>
+  /** Only the given keys change; pass a key as undefined to clear it */
+  updateConversationSettings: (id: string, settings: ConversationSettings) => Promise<void>
+  setContextSummary: (id: string, summary: ContextSummary | null) => Promise<void>
+
+  // Organization — pinning, archiving, folders and tags
+  /** Only the given keys change; pass a key as undefined to clear it */
+  organizeConversation: (id: string, changes: ConversationOrganization) => Promise<void>
+  createFolder: (name: string, parentId?: string | null) => Promise<Folder>
+  renameFolder: (id: string, name: string) => Promise<void>
+  /** Ignored when it would put a folder inside itself */
+  moveFolder: (id: string, parentId: string | null) => Promise<void>
+  /** Its subfolders and conversations move up to its parent */
+  deleteFolder: (id: string) => Promise<void>
+  createTag: (name: string, color: TagColor) => Promise<Tag>
+  updateTag: (id: string, changes: Partial<Pick<Tag, 'name' | 'color'>>) => Promise<void>
+  deleteTag: (id: string) => Promise<void>
+  setConversationFilter: (filter: ConversationFilter) => void
+
+  // Trash — deleting moves things here; they can be restored until purged
+  trashConversation: (id: string) => Promise<void>
+  /** Deletes the message and every reply below it */
+  trashMessage: (messageId: string) => Promise<void>
+  loadTrash: () => Promise<void>
+  restoreFromTrash: (item: TrashItem) => Promise<void>
+  /** Permanently delete one item */
+  purgeFromTrash: (item: TrashItem) => Promise<void>
+  emptyTrash: () => Promise<void>
+  dismissRecentlyDeleted: () => void
+  setTrashRetentionDays: (days: number) => void
 
   // UI
   toggleSidebar: () => void
@@ -44,16 +119,41 @@ export interface AppActions {
 // Initial state
 // ============================================================
 
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The undo offer goes once its item is restored or purged
+function withoutUndoFor(state: AppState, item: TrashItem): Partial<AppState> {
+  const offered = state.recentlyDeleted
+  return offered && trashItemId(offered) === trashItemId(item) ? { recentlyDeleted: null } : {}
+}
+
 const initialState: AppState = {
   inferenceMode: 'local',
+  remoteConfig: { baseUrl: '', apiKey: '', model: '' },
+  connectionStatus: 'disconnected',
   modelId: null,
   modelStatus: 'idle',
   loadProgress: 0,
   loadProgressText: '',
+  loadReport: null,
+  partialDownloads: {},
   errorMessage: null,
   errorCode: null,
+  enabledTools: [],
+  generationSettings: {},
+  presets: [],
+  contextSettings: { strategy: 'sliding-window', keepLastN: 20 },
   currentConversationId: null,
   conversations: [],
+  highlightedMessageId: null,
+  folders: [],
+  tags: [],
+  conversationFilter: { kind: 'all' },
+  messagesVersion: 0,
+  trash: [],
+  recentlyDeleted: null,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
   sidebarOpen: true,
   settingsOpen: false,
 }
@@ -69,21 +169,93 @@ export const useAppStore = create<AppStore>((set, get) => ({
 
   // --- Model lifecycle ---
 
+  setInferenceMode: (inferenceMode) => {
+    set({ inferenceMode })
+    get().persistSettings()
+  },
+
+  setRemoteConfig: (config) => {
+    set((state) => ({ remoteConfig: { ...state.remoteConfig, ...config } }))
+    get().persistSettings()
+  },
+
+  setConnectionStatus: (connectionStatus) => set({ connectionStatus }),
+
   setModelId: (modelId) => {
     set({ modelId })
     get().persistSettings()
   },
 
-  setModelStatus: (modelStatus) => set({ modelStatus }),
+  setModelStatus: (modelStatus) =>
+    // A new load must not show the previous load's progress
+    set(
+      modelStatus === 'loading'
+        ? { modelStatus, loadProgress: 0, loadProgressText: '', loadReport: null }
+        : { modelStatus },
+    ),
+
+  setLoadProgress: (loadProgress, loadProgressText, loadReport = null) =>
+    set({ loadProgress, loadProgressText, loadReport }),
 
-  setLoadProgress: (loadProgress, loadProgressText) =>
-    set({ loadProgress, loadProgressText }),
+  setPartialDownload: async (modelId, download) => {
+    const partialDownloads = { ...get().partialDownloads }
+    if (download) {
+      partialDownloads[modelId] = download
+    } else {
+      delete partialDownloads[modelId]
+    }
+    set({ partialDownloads })
+    await db.setSetting('partialDownloads', partialDownloads)
+  },
 
   setError: (errorMessage, errorCode = null) =>
-    set({ errorMessage, errorCode, modelStatus: errorMessage ? 'error' : get().modelStatus }),
+    set({
+      errorMessage,
+      errorCode,
+      // A prompt that does not fit leaves the loaded model usable
+      modelStatus:
+        errorMessage && errorCode !== 'CONTEXT_OVERFLOW' ? 'error' : get().modelStatus,
+    }),
 
   clearError: () => set({ errorMessage: null, errorCode: null }),
 
+  // --- Tools ---
+
+  setToolEnabled: (name, enabled) => {
+    set((state) => ({
+      enabledTools: enabled
+        ? [...new Set([...state.enabledTools, name])]
+        : state.enabledTools.filter((n) => n !== name),
+    }))
+    get().persistSettings()
+  },
+
+  // --- Sampling ---
+
+  setGenerationSettings: (generationSettings) => {
+    set({ generationSettings })
+    get().persistSettings()
+  },
+
+  savePreset: async (name, { systemPrompt, config }) => {
+    const preset: GenerationPreset = { id: generateId(), name, systemPrompt, config }
+    await db.savePreset(preset)
+    set({ presets: await db.listPresets() })
+    return preset
+  },
+
+  deletePreset: async (id) => {
+    await db.deletePreset(id)
+    set((state) => ({ presets: state.presets.filter((p) => p.id !== id) }))
+  },
+
+  // --- Context window ---
+
+  setContextSettings: (settings) => {
+    set((state) => ({ contextSettings: { ...state.contextSettings, ...settings } }))
+    get().persistSettings()
+  },
+
   // --- Conversations ---
 
   loadConversations: async () => {
@@ -100,11 +272,30 @@ export const useAppStore = create<AppStore>((set, get) => ({
     return conversation
   },
 
+  importConversations: async (bundles) => {
+    const imported = await db.importConversations(bundles)
+    await get().loadConversations()
+    return imported
+  },
+
   setCurrentConversation: (id) => {
-    set({ currentConversationId: id })
+    set({ currentConversationId: id, highlightedMessageId: null })
     get().persistSettings()
   },
 
+  openSearchResult: async (conversationId, messageId) => {
+    await db.showBranchThrough(conversationId, messageId)
+    // Reload in case the conversation is already open on another branch
+    set((state) => ({
+      currentConversationId: conversationId,
+      highlightedMessageId: messageId,
+      messagesVersion: state.messagesVersion + 1,
+    }))
+    get().persistSettings()
+  },
+
+  clearHighlightedMessage: () => set({ highlightedMessageId: null }),
+
   updateConversationTitle: async (id, title) => {
     await db.updateConversation(id, { title })
     set((state) => ({
@@ -114,16 +305,195 @@ export const useAppStore = create<AppStore>((set, get) => ({
     }))
   },
 
-  deleteConversation: async (id) => {
-    await db.deleteConversation(id)
+  setConversationResponseFormat: async (id, format) => {
+    const responseFormat = format ?? undefined
+    await db.updateConversation(id, { responseFormat })
+    set((state) => ({
+      conversations: state.conversations.map((c) =>
+        c.id === id ? { ...c, responseFormat, updatedAt: new Date() } : c,
+      ),
+    }))
+  },
+
+  updateConversationSettings: async (id, settings) => {
+    await db.updateConversation(id, settings)
+    set((state) => ({
+      conversations: state.conversations.map((c) =>
+        c.id === id ? { ...c, ...settings, updatedAt: new Date() } : c,
+      ),
+    }))
+  },
+
+  setContextSummary: async (id, summary) => {
+    const contextSummary = summary ?? undefined
+    await db.updateConversation(id, { contextSummary })
+    set((state) => ({
+      conversations: state.conversations.map((c) => (c.id === id ? { ...c, contextSummary } : c)),
+    }))
+  },
+
+  // --- Organization ---
+
+  organizeConversation: async (id, changes) => {
+    await db.organizeConversation(id, changes)
+    set((state) => ({
+      conversations: state.conversations.map((c) => (c.id === id ? { ...c, ...changes } : c)),
+    }))
+  },
+
+  createFolder: async (name, parentId = null) => {
+    const folder: Folder = { id: generateId(), name, parentId, createdAt: new Date() }
+    await db.saveFolder(folder)
+    set((state) => ({ folders: [...state.folders, folder] }))
+    return folder
+  },
+
+  renameFolder: async (id, name) => {
+    const folder = get().folders.find((f) => f.id === id)
+    if (!folder) return
+    await db.saveFolder({ ...folder, name })
+    set((state) => ({ folders: state.folders.map((f) => (f.id === id ? { ...f, name } : f)) }))
+  },
+
+  moveFolder: async (id, parentId) => {
+    const folder = get().folders.find((f) => f.id === id)
+    if (!folder || !canMoveFolder(get().folders, id, parentId)) return
+    await db.saveFolder({ ...folder, parentId })
+    set((state) => ({ folders: state.folders.map((f) => (f.id === id ? { ...f, parentId } : f)) }))
+  },
+
+  deleteFolder: async (id) => {
+    const folder = get().folders.find((f) => f.id === id)
+    if (!folder) return
+    await db.deleteFolder(id)
+    const { parentId } = folder
+    set((state) => ({
+      folders: state.folders
+        .filter((f) => f.id !== id)
+        .map((f) => (f.parentId === id ? { ...f, parentId } : f)),
+      conversations: state.conversations.map((c) =>
+        c.folderId === id ? { ...c, folderId: parentId ?? undefined } : c,
+      ),
+      conversationFilter:
+        state.conversationFilter.kind === 'folder' && state.conversationFilter.folderId === id
+          ? parentId
+            ? { kind: 'folder', folderId: parentId }
+            : { kind: 'all' }
+          : state.conversationFilter,
+    }))
+  },
+
+  createTag: async (name, color) => {
+    const tag: Tag = { id: generateId(), name, color }
+    await db.saveTag(tag)
+    set({ tags: await db.listTags() })
+    return tag
+  },
+
+  updateTag: async (id, changes) => {
+    const tag = get().tags.find((t) => t.id === id)
+    if (!tag) return
+    await db.saveTag({ ...tag, ...changes })
+    set({ tags: await db.listTags() })
+  },
+
+  deleteTag: async (id) => {
+    await db.deleteTag(id)
+    set((state) => ({
+      tags: state.tags.filter((t) => t.id !== id),
+      conversations: state.conversations.map((c) =>
+        c.tagIds?.includes(id) ? { ...c, tagIds: c.tagIds.filter((t) => t !== id) } : c,
+      ),
+      conversationFilter:
+        state.conversationFilter.kind === 'tag' && state.conversationFilter.tagId === id
+          ? { kind: 'all' }
+          : state.conversationFilter,
+    }))
+  },
+
+  setConversationFilter: (conversationFilter) => set({ conversationFilter }),
+
+  // --- Trash ---
+
+  trashConversation: async (id) => {
+    const conversation = get().conversations.find((c) => c.id === id)
+    const deletedAt = new Date()
+    await db.trashConversation(id, deletedAt)
+    forgetLayout(id)
     set((state) => {
       const conversations = state.conversations.filter((c) => c.id !== id)
       const currentConversationId =
         state.currentConversationId === id
           ? conversations[0]?.id ?? null
           : state.currentConversationId
-      return { conversations, currentConversationId }
+      return {
+        conversations,
+        currentConversationId,
+        recentlyDeleted: conversation
+          ? { kind: 'conversation', conversation: { ...conversation, deletedAt } }
+          : null,
+      }
     })
+    get().persistSettings()
+    await get().loadTrash()
+  },
+
+  trashMessage: async (messageId) => {
+    const [message, ...replies] = await db.trashMessage(messageId)
+    if (!message) return
+    const title = get().conversations.find((c) => c.id === message.conversationId)?.title
+    set((state) => ({
+      messagesVersion: state.messagesVersion + 1,
+      recentlyDeleted: {
+        kind: 'message',
+        message,
+        conversationTitle: title ?? 'Untitled',
+        count: replies.length + 1,
+      },
+    }))
+    await get().loadTrash()
+  },
+
+  loadTrash: async () => {
+    set({ trash: await db.listTrash() })
+  },
+
+  restoreFromTrash: async (item) => {
+    if (item.kind === 'conversation') {
+      await db.restoreConversation(item.conversation.id)
+      await get().loadConversations()
+    } else {
+      await db.restoreMessage(item.message.id)
+      set((state) => ({ messagesVersion: state.messagesVersion + 1 }))
+    }
+    set((state) => withoutUndoFor(state, item))
+    await get().loadTrash()
+  },
+
+  purgeFromTrash: async (item) => {
+    if (item.kind === 'conversation') {
+      await db.deleteConversation(item.conversation.id)
+      forgetLayout(item.conversation.id)
+    } else {
+      await db.purgeMessage(item.message.id)
+    }
+    set((state) => withoutUndoFor(state, item))
+    await get().loadTrash()
+  },
+
+  emptyTrash: async () => {
+    await db.purgeTrash()
+    for (const item of get().trash) {
+      if (item.kind === 'conversation') forgetLayout(item.conversation.id)
+    }
+    set({ trash: [], recentlyDeleted: null })
+  },
+
+  dismissRecentlyDeleted: () => set({ recentlyDeleted: null }),
+
+  setTrashRetentionDays: (trashRetentionDays) => {
+    set({ trashRetentionDays })
+    get().persistSettings()
   },
 
   // --- UI ---
@@ -135,24 +505,77 @@ export const useAppStore = create<AppStore>((set, get) => ({
   // --- Persistence ---
 
   hydrate: async () => {
-    const [modelId, currentConversationId, conversations] = await Promise.all([
+    // Purge what outlived the retention period before listing anything
+    const trashRetentionDays =
+      (await db.getSetting<number>('trashRetentionDays')) ?? DEFAULT_TRASH_RETENTION_DAYS
+    const trash = await db.purgeTrash(new Date(Date.now() - trashRetentionDays * DAY_MS))
+
+    const [
+      inferenceMode,
+      remoteConfig,
+      modelId,
+      currentConversationId,
+      partialDownloads,
+      enabledTools,
+      generationSettings,
+      presets,
+      contextSettings,
+      conversations,
+      folders,
+      tags,
+    ] = await Promise.all([
+      db.getSetting<InferenceMode>('inferenceMode'),
+      db.getSetting<RemoteConfig>('remoteConfig'),
       db.getSetting<string>('modelId'),
       db.getSetting<string>('currentConversationId'),
+      db.getSetting<Record<string, PartialDownload>>('partialDownloads'),
+      db.getSetting<string[]>('enabledTools'),
+      db.getSetting<GenerationSettings>('generationSettings'),
+      db.listPresets(),
+      db.getSetting<ContextSettings>('contextSettings'),
       db.listConversations(),
+      db.listFolders(),
+      db.listTags(),
     ])
 
     set({
+      inferenceMode: inferenceMode ?? 'local',
+      remoteConfig: remoteConfig ?? initialState.remoteConfig,
       modelId: modelId ?? null,
       currentConversationId: currentConversationId ?? null,
+      partialDownloads: partialDownloads ?? {},
+      enabledTools: enabledTools ?? [],
+      generationSettings: generationSettings ?? {},
+      presets,
+      contextSettings: { ...initialState.contextSettings, ...contextSettings },
       conversations,
+      folders,
+      tags,
+      trash,
+      trashRetentionDays,
     })
   },
 
   persistSettings: async () => {
-    const { modelId, currentConversationId } = get()
+    const {
+      inferenceMode,
+      remoteConfig,
+      modelId,
+      currentConversationId,
+      enabledTools,
+      generationSettings,
+      contextSettings,
+      trashRetentionDays,
+    } = get()
     await Promise.all([
+      db.setSetting('inferenceMode', inferenceMode),
+      db.setSetting('remoteConfig', remoteConfig),
       db.setSetting('modelId', modelId),
       db.setSetting('currentConversationId', currentConversationId),
+      db.setSetting('enabledTools', enabledTools),
+      db.setSetting('generationSettings', generationSettings),
+      db.setSetting('contextSettings', contextSettings),
+      db.setSetting('trashRetentionDays', trashRetentionDays),
     ])
   },
 }))
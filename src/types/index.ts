@@ -9,15 +9,116 @@ export interface Conversation {
   title: string
   createdAt: Date
   updatedAt: Date
+  /** Output constraint applied to every reply in this conversation */
+  responseFormat?: ResponseFormat
+  /** Model the conversation last ran on; loaded when switching to it */
+  modelId?: string
+  /** Inference mode `modelId` belongs to; it is ignored under other modes */
+  modelMode?: InferenceMode
+  systemPrompt?: string
+  /** Sampling overrides applied on top of the global generation settings */
+  generationConfig?: GenerationSettings
+  /** Summary of the turns trimmed from the context, through `throughMessageId` */
+  contextSummary?: ContextSummary
+  /** Last message of the branch being shown; the newest message when unset */
+  activeLeafId?: string
+  /** Moved to the trash at this time; purged after the retention period */
+  deletedAt?: Date
+  /** Pinned conversations are listed first, most recently pinned on top */
+  pinnedAt?: Date
+  /** Archived conversations only show under "Archived" */
+  archivedAt?: Date
+  /** Folder the conversation is filed in; top level when unset */
+  folderId?: string
+  tagIds?: string[]
+}
+
+/** Where a conversation is filed and how it is marked */
+export type ConversationOrganization = Pick<
+  Conversation,
+  'pinnedAt' | 'archivedAt' | 'folderId' | 'tagIds'
+>
+
+export interface Folder {
+  id: string
+  name: string
+  /** Folder this one is nested in; null at the top level */
+  parentId: string | null
+  createdAt: Date
+}
+
+export type TagColor = 'slate' | 'red' | 'amber' | 'emerald' | 'sky' | 'violet' | 'pink'
+
+export interface Tag {
+  id: string
+  name: string
+  color: TagColor
+}
+
+export interface ContextSummary {
+  throughMessageId: string
+  content: string
+}
+
+/** Conversation settings that can be edited together or applied from a preset */
+export type ConversationSettings = Pick<
+  Conversation,
+  'modelId' | 'modelMode' | 'systemPrompt' | 'generationConfig'
+>
+
+/** A named system prompt + sampling combination that can be applied to a conversation */
+export interface GenerationPreset {
+  id: string
+  name: string
+  systemPrompt?: string
+  config: GenerationSettings
+  /** Shipped with the app; cannot be deleted */
+  builtIn?: boolean
 }
 
 export interface Message {
   id: string
   conversationId: string
-  role: 'user' | 'assistant' | 'system'
+  role: 'user' | 'assistant' | 'system' | 'tool'
   content: string
   createdAt: Date
+  /**
+   * The message this one follows; null starts the conversation.
+   * Editing a message adds a sibling, so a conversation is a tree.
+   * Messages saved before branching have none and follow the
+   * message created just before them.
+   */
+  parentId?: string | null
+  /**
+   * Moved to the trash at this time. The replies below a deleted
+   * message share its timestamp and are restored with it.
+   */
+  deletedAt?: Date
   metadata?: MessageMetadata
+  /** Tools the assistant asked to run in this turn */
+  toolCalls?: ToolCall[]
+  /** For 'tool' messages: the call this is the result of */
+  toolCallId?: string
+}
+
+/** A trashed conversation, or a trashed message with the replies below it */
+export type TrashItem =
+  | { kind: 'conversation'; conversation: Conversation }
+  | { kind: 'message'; message: Message; conversationTitle: string; count: number }
+
+/** One search term of one message in the full-text index */
+export interface SearchPosting {
+  term: string
+  messageId: string
+  conversationId: string
+  /** Times the term occurs in the message */
+  count: number
+}
+
+/** A message matching a full-text search, best match first */
+export interface SearchHit {
+  message: Message
+  score: number
 }
 
 export interface MessageMetadata {
@@ -26,39 +127,179 @@ export interface MessageMetadata {
   promptTokens?: number
   completionTokens?: number
   durationMs?: number
+  timeToFirstTokenMs?: number
+  prefillTokensPerSec?: number
+  decodeTokensPerSec?: number
+  /** Validation result for replies generated under a JSON response format */
+  structuredOutput?: StructuredOutputCheck
+  /** For 'tool' messages: the tool failed and `content` is the error */
+  toolError?: boolean
+}
+
+export interface StructuredOutputCheck {
+  valid: boolean
+  /** Parse or schema errors, as `$.path: problem` strings */
+  errors: string[]
 }
 
 // --- Worker message protocol ---
+//
+// Every request carries a `requestId` that the worker echoes back on
+// each reply, so concurrent requests never consume each other's events.
+// `abort` names the chat or model load it cancels; a cancelled load
+// completes with `cancelled: true`. A chat offered tools may end
+// with `toolCalls` on `done`. `switch` and `unload` abort any
+// in-flight generation first. `init-progress` pairs WebLLM's raw text
+// with a structured LoadProgress report. `fatal` is the only
+// worker-wide message: the engine is unusable (e.g. GPU device lost).
 
 export type WorkerMessageToWorker =
-  | { type: 'init'; model: string }
-  | { type: 'chat'; messages: ChatMessage[]; config?: GenerateConfig }
-  | { type: 'abort' }
+  | { type: 'init'; requestId: string; model: string }
+  | { type: 'switch'; requestId: string; model: string }
+  | { type: 'unload'; requestId: string }
+  | { type: 'chat'; requestId: string; messages: ChatMessage[]; config?: GenerateConfig }
+  | { type: 'abort'; requestId: string }
+  | { type: 'ping'; requestId: string }
 
 export type WorkerMessageFromWorker =
-  | { type: 'init-progress'; progress: number; text: string }
-  | { type: 'init-complete'; success: boolean }
-  | { type: 'chunk'; content: string }
-  | { type: 'done'; usage?: TokenUsage }
-  | { type: 'error'; error: string; code: ErrorCode }
+  | { type: 'init-progress'; requestId: string; progress: number; text: string; report: LoadProgress }
+  | { type: 'init-complete'; requestId: string; success: boolean; cancelled?: boolean }
+  | { type: 'unload-complete'; requestId: string }
+  | { type: 'chunk'; requestId: string; content: string }
+  | { type: 'done'; requestId: string; usage?: TokenUsage; toolCalls?: ToolCall[] }
+  | { type: 'error'; requestId: string; error: string; code: ErrorCode }
+  | { type: 'pong'; requestId: string }
+  | { type: 'fatal'; error: string }
+
+/**
+ * Model load phases, in order. 'downloading' fetches shards into the
+ * Cache API; 'loading-from-cache' copies them onto the GPU (the only
+ * weight phase when the model is already cached).
+ */
+export type LoadPhase =
+  | 'preparing'
+  | 'fetching-params'
+  | 'downloading'
+  | 'loading-from-cache'
+  | 'compiling-shaders'
+  | 'finished'
+
+export interface LoadProgress {
+  phase: LoadPhase
+  /** 0–1 within the current phase */
+  progress: number
+  /** Time since the load started */
+  elapsedMs: number
+  /** Weight shards (or shader modules while compiling) completed */
+  shardsDone?: number
+  shardsTotal?: number
+  loadedBytes?: number
+  totalBytes?: number
+  /** Smoothed download speed, only while downloading */
+  bytesPerSec?: number
+  /** Estimated time left in the current phase */
+  etaMs?: number
+}
+
+/** Download state kept across page loads for a model that never finished */
+export interface PartialDownload {
+  shardsDone: number
+  shardsTotal: number
+  loadedBytes?: number
+  totalBytes?: number
+  updatedAt: Date
+}
 
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system'
+  role: 'user' | 'assistant' | 'system' | 'tool'
   content: string
+  tool_calls?: ToolCall[]
+  tool_call_id?: string
+}
+
+/** OpenAI-style function tool offered to the model */
+export interface ToolDefinition {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    /** JSON Schema of the arguments object */
+    parameters: Record<string, unknown>
+  }
+}
+
+export interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    /** JSON-encoded arguments object */
+    arguments: string
+  }
 }
 
+/**
+ * How a backend handles `GenerateConfig.tools`. With 'forced'
+ * (WebLLM's function-calling models) every reply offered tools is
+ * a tool call, so tools are withheld to get the final answer.
+ */
+export type ToolSupport = 'none' | 'forced' | 'auto'
+
 export interface GenerateConfig {
   temperature?: number
   top_p?: number
   max_tokens?: number
   frequency_penalty?: number
   presence_penalty?: number
+  /** Multiplies down the logits of tokens already generated; must be > 0 */
+  repetition_penalty?: number
+  /** Generation stops before any of these strings */
+  stop?: string[]
+  /** Fixed seed for reproducible sampling */
+  seed?: number
+  /** Bias (-100 to 100) added to the logits of token IDs */
+  logit_bias?: Record<string, number>
+  /** Number of choices; streaming replies only support 1 */
+  n?: number
+  response_format?: ResponseFormat
+  tools?: ToolDefinition[]
 }
 
+/**
+ * How history is trimmed when a conversation outgrows the context
+ * window: drop the oldest turns, keep only the last N messages, or
+ * replace the oldest turns with a model-written summary.
+ */
+export type ContextStrategy = 'sliding-window' | 'keep-last-n' | 'summarize'
+
+export interface ContextSettings {
+  strategy: ContextStrategy
+  /** Messages kept by 'keep-last-n' */
+  keepLastN: number
+}
+
+/** User-chosen sampling parameters applied to every request */
+export type GenerationSettings = Omit<GenerateConfig, 'response_format' | 'tools'>
+
+/**
+ * Constrain generation (WebLLM's grammar-guided decoding). `schema`
+ * is a JSON Schema serialized as a string; without one, any JSON
+ * object is allowed. `grammar` is EBNF.
+ */
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object'; schema?: string }
+  | { type: 'grammar'; grammar: string }
+
 export interface TokenUsage {
   prompt_tokens: number
   completion_tokens: number
   total_tokens: number
+  /** Wall-clock time from request to final token */
+  duration_ms?: number
+  time_to_first_token_ms?: number
+  prefill_tokens_per_s?: number
+  decode_tokens_per_s?: number
 }
 
 export type ErrorCode =
@@ -67,6 +308,8 @@ export type ErrorCode =
   | 'OUT_OF_MEMORY'
   | 'GENERATION_ERROR'
   | 'NETWORK_ERROR'
+  | 'WORKER_CRASHED'
+  | 'CONTEXT_OVERFLOW'
   | 'UNKNOWN'
 
 // --- Model definitions ---
@@ -79,6 +322,10 @@ export interface ModelInfo {
   tier: ModelTier
   sizeLabel: string
   description: string
+  /** Context window in tokens (prompt + reply) */
+  contextWindow: number
+  /** WebLLM only implements function calling for a few models */
+  supportsTools?: boolean
 }
 
 export const AVAILABLE_MODELS: ModelInfo[] = [
@@ -87,6 +334,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Llama 3.2 1B',
     tier: 'mobile',
     sizeLabel: '~700MB',
+    contextWindow: 4096,
     description: 'Fast, lightweight responses',
   },
   {
@@ -94,6 +342,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Llama 3.2 3B',
     tier: 'light',
     sizeLabel: '~1.8GB',
+    contextWindow: 4096,
     description: 'Balanced quality and speed',
   },
   {
@@ -101,6 +350,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Phi 3.5 Mini',
     tier: 'medium',
     sizeLabel: '~2.1GB',
+    contextWindow: 4096,
     description: 'Strong reasoning ability',
   },
   {
@@ -108,35 +358,94 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Qwen 2.5 7B',
     tier: 'heavy',
     sizeLabel: '~4.5GB',
+    contextWindow: 4096,
     description: 'High quality (requires good GPU)',
   },
+  {
+    id: 'Hermes-3-Llama-3.1-8B-q4f16_1-MLC',
+    name: 'Hermes 3 8B',
+    tier: 'heavy',
+    sizeLabel: '~4.9GB',
+    contextWindow: 4096,
+    description: 'Supports tool calling (requires good GPU)',
+    supportsTools: true,
+  },
 ]
 
 // --- App store ---
 
-export type ModelStatus = 'idle' | 'loading' | 'ready' | 'error'
-export type InferenceMode = 'local' | 'remote'
+export type ModelStatus = 'idle' | 'loading' | 'ready' | 'unloading' | 'error'
+/** 'scripted' is the deterministic offline backend (no GPU required) */
+export type InferenceMode = 'local' | 'remote' | 'scripted'
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected'
 
+/** OpenAI-compatible server used in remote mode (llama.cpp, vLLM, ...) */
+export interface RemoteConfig {
+  baseUrl: string
+  apiKey: string
+  model: string
+}
+
 export interface AppState {
   // Inference
   inferenceMode: InferenceMode
+  remoteConfig: RemoteConfig
+  connectionStatus: ConnectionStatus
   modelId: string | null
   modelStatus: ModelStatus
   loadProgress: number
   loadProgressText: string
+  /** Structured report for the load in progress, when the backend provides one */
+  loadReport: LoadProgress | null
+  /** Unfinished model downloads, keyed by model ID */
+  partialDownloads: Record<string, PartialDownload>
   errorMessage: string | null
   errorCode: ErrorCode | null
 
+  // Tools the assistant may call, by name
+  enabledTools: string[]
+
+  // Sampling parameters; unset fields use the model's defaults
+  generationSettings: GenerationSettings
+  presets: GenerationPreset[]
+  contextSettings: ContextSettings
+
   // Conversations
   currentConversationId: string | null
   conversations: Conversation[]
+  /** Message opened from a search result, scrolled to and highlighted */
+  highlightedMessageId: string | null
+  /** Bumped when the open conversation's messages change outside the chat */
+  messagesVersion: number
+
+  // Organization
+  folders: Folder[]
+  tags: Tag[]
+  /** Which conversations the sidebar lists */
+  conversationFilter: ConversationFilter
+
+  // Trash
+  trash: TrashItem[]
+  /** Just deleted, offered for undo */
+  recentlyDeleted: TrashItem | null
+  /** Days trashed items are kept before being purged for good */
+  trashRetentionDays: number
 
   // UI
   sidebarOpen: boolean
   settingsOpen: boolean
 }
 
+/**
+ * Sidebar selection. Archived conversations only show under
+ * 'archived'; a folder includes the folders nested in it.
+ */
+export type ConversationFilter =
+  | { kind: 'all' }
+  | { kind: 'folder'; folderId: string }
+  | { kind: 'tag'; tagId: string }
+  | { kind: 'archived' }
+
 // --- Cached model info ---
 
 export interface CachedModelInfo {
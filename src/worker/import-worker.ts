@@ -0,0 +1,26 @@
+// ============================================================
+// Import Web Worker — parses chat archives off the main thread
+// so large exports don't freeze the UI
+// ============================================================
+
+import { parseArchive } from '../lib/chat-archives'
+import type { ImportWorkerRequest, ImportWorkerResponse } from '../lib/archive-import'
+
+function post(msg: ImportWorkerResponse) {
+  self.postMessage(msg)
+}
+
+self.addEventListener('message', async (event: MessageEvent<ImportWorkerRequest>) => {
+  const { requestId, file, options } = event.data
+  try {
+    const result = parseArchive(await file.text(), options)
+    post({ type: 'result', requestId, result })
+  } catch (err) {
+    post({
+      type: 'error',
+      requestId,
+      error: err instanceof Error ? err.message : String(err),
+      problems: (err as { problems?: string[] }).problems ?? [],
+    })
+  }
+})
@@ -2,44 +2,87 @@
 // LLM Web Worker — runs WebLLM engine in a background thread
 // ============================================================
 
+import type { ChatCompletionMessageParam, CompletionUsage } from '@mlc-ai/web-llm'
 import type {
   WorkerMessageToWorker,
   WorkerMessageFromWorker,
   ChatMessage,
   GenerateConfig,
+  TokenUsage,
+  ToolCall,
 } from '../types'
+import { LoadProgressTracker } from '../lib/load-progress'
+import { generateId } from '../lib/utils'
+import { isContextOverflowMessage } from '../lib/context-window'
 
 let engine: import('@mlc-ai/web-llm').MLCEngine | null = null
-let abortController: AbortController | null = null
+// Abort controllers for in-flight chat requests, keyed by requestId
+const abortControllers = new Map<string, AbortController>()
+// Running handleChat calls, so unload/switch can wait for them to settle
+const chatTasks = new Set<Promise<void>>()
+// The init/switch request currently loading, so `abort` can cancel it
+let loadingRequestId: string | null = null
+let loadCancelled = false
 
 // Post a typed message back to main thread
 function post(msg: WorkerMessageFromWorker) {
   self.postMessage(msg)
 }
 
-async function handleInit(model: string) {
+// WebGPU reports a lost device (driver reset, GPU process crash, tab
+// backgrounded on mobile) through error messages; the engine cannot
+// recover in-place, so the main thread must respawn the worker.
+function isDeviceLost(message: string): boolean {
+  return /device (was |is |has been )?lost|DEVICE_LOST/i.test(message)
+}
+
+async function handleInit(requestId: string, model: string) {
+  loadingRequestId = requestId
+  loadCancelled = false
+
   try {
     const { MLCEngine } = await import('@mlc-ai/web-llm')
 
-    engine = new MLCEngine()
+    // Reuse the engine so a reload releases the previous model's GPU memory
+    engine ??= new MLCEngine()
 
+    const tracker = new LoadProgressTracker()
     engine.setInitProgressCallback((report) => {
       post({
         type: 'init-progress',
+        requestId,
         progress: report.progress,
         text: report.text,
+        report: tracker.update(report.progress, report.text),
       })
     })
 
-    await engine.reload(model)
+    if (!loadCancelled) {
+      await engine.reload(model)
+    }
+
+    // Cancellation may land just as the reload finishes; the cancel
+    // handler has unloaded the engine either way
+    if (loadCancelled) {
+      post({ type: 'init-complete', requestId, success: false, cancelled: true })
+      return
+    }
 
-    post({ type: 'init-complete', success: true })
+    post({ type: 'init-complete', requestId, success: true })
   } catch (err) {
+    if (loadCancelled) {
+      post({ type: 'init-complete', requestId, success: false, cancelled: true })
+      return
+    }
+
     const message = err instanceof Error ? err.message : String(err)
 
-    let code: WorkerMessageFromWorker & { type: 'error' } extends { code: infer C }
-      ? C
-      : never = 'UNKNOWN'
+    if (isDeviceLost(message)) {
+      post({ type: 'fatal', error: message })
+      return
+    }
+
+    let code: Extract<WorkerMessageFromWorker, { type: 'error' }>['code'] = 'UNKNOWN'
 
     if (message.includes('WebGPU') || message.includes('navigator.gpu')) {
       code = 'WEBGPU_NOT_SUPPORTED'
@@ -49,95 +92,234 @@ async function handleInit(model: string) {
       code = 'MODEL_LOAD_FAILED'
     }
 
-    post({ type: 'error', error: message, code })
-    post({ type: 'init-complete', success: false })
+    post({ type: 'error', requestId, error: message, code })
+    post({ type: 'init-complete', requestId, success: false })
+  } finally {
+    if (loadingRequestId === requestId) loadingRequestId = null
+  }
+}
+
+// Convert WebLLM's usage report into our protocol's TokenUsage,
+// preferring the engine's own timings over our wall-clock measurements
+function toTokenUsage(
+  usage: CompletionUsage,
+  elapsedMs: number,
+  firstTokenMs: number | null,
+): TokenUsage {
+  const extra = usage.extra
+  return {
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens,
+    duration_ms: extra?.e2e_latency_s != null ? extra.e2e_latency_s * 1000 : elapsedMs,
+    time_to_first_token_ms:
+      extra?.time_to_first_token_s != null
+        ? extra.time_to_first_token_s * 1000
+        : firstTokenMs ?? undefined,
+    prefill_tokens_per_s: extra?.prefill_tokens_per_s,
+    decode_tokens_per_s: extra?.decode_tokens_per_s,
   }
 }
 
-async function handleChat(messages: ChatMessage[], config?: GenerateConfig) {
+function toEngineMessage(m: ChatMessage): ChatCompletionMessageParam {
+  switch (m.role) {
+    case 'tool':
+      return { role: 'tool', content: m.content, tool_call_id: m.tool_call_id ?? '' }
+    case 'assistant':
+      return m.tool_calls?.length
+        ? { role: 'assistant', content: m.content, tool_calls: m.tool_calls }
+        : { role: 'assistant', content: m.content }
+    default:
+      return { role: m.role, content: m.content }
+  }
+}
+
+async function handleChat(
+  requestId: string,
+  messages: ChatMessage[],
+  config?: GenerateConfig,
+) {
   if (!engine) {
     post({
       type: 'error',
+      requestId,
       error: 'Engine not initialized. Load a model first.',
       code: 'GENERATION_ERROR',
     })
     return
   }
 
-  abortController = new AbortController()
+  const abortController = new AbortController()
+  abortControllers.set(requestId, abortController)
+
+  const startedAt = performance.now()
+  let firstTokenMs: number | null = null
+  let usage: TokenUsage | undefined
+  let toolCalls: ToolCall[] | undefined
+  // In function-calling mode WebLLM streams the raw tool-call JSON as
+  // content; the parsed calls arrive on the final chunk instead
+  const streamContent = !config?.tools?.length
 
   try {
     const completion = await engine.chat.completions.create(
       {
-        messages: messages.map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
+        messages: messages.map(toEngineMessage),
         stream: true,
+        stream_options: { include_usage: true },
         temperature: config?.temperature,
         top_p: config?.top_p,
         max_tokens: config?.max_tokens,
         frequency_penalty: config?.frequency_penalty,
         presence_penalty: config?.presence_penalty,
+        repetition_penalty: config?.repetition_penalty,
+        stop: config?.stop,
+        seed: config?.seed,
+        logit_bias: config?.logit_bias,
+        n: config?.n,
+        response_format: config?.response_format,
+        tools: config?.tools,
       },
     )
 
     for await (const chunk of completion) {
       if (abortController.signal.aborted) break
 
-      const delta = chunk.choices[0]?.delta?.content
-      if (delta) {
-        post({ type: 'chunk', content: delta })
+      const delta = chunk.choices[0]?.delta
+      if (delta?.content) {
+        firstTokenMs ??= performance.now() - startedAt
+        if (streamContent) post({ type: 'chunk', requestId, content: delta.content })
+      }
+
+      // WebLLM numbers calls per reply; give them IDs that stay unique
+      // across the conversation
+      if (delta?.tool_calls?.length) {
+        toolCalls = delta.tool_calls.map((call) => ({
+          id: call.id ?? generateId(),
+          type: 'function',
+          function: {
+            name: call.function?.name ?? '',
+            arguments: call.function?.arguments ?? '{}',
+          },
+        }))
+      }
+
+      // With include_usage, the final chunk carries the usage report
+      if (chunk.usage) {
+        usage = toTokenUsage(chunk.usage, performance.now() - startedAt, firstTokenMs)
       }
     }
 
-    const usage = await engine.runtimeStatsText()
-    post({
-      type: 'done',
-      usage: {
-        prompt_tokens: 0,
-        completion_tokens: 0,
-        total_tokens: 0,
-      },
-    })
+    post({ type: 'done', requestId, usage, toolCalls })
   } catch (err) {
     if (abortController.signal.aborted) {
-      post({ type: 'done' })
+      post({ type: 'done', requestId })
       return
     }
 
     const message = err instanceof Error ? err.message : String(err)
-    let code: 'OUT_OF_MEMORY' | 'GENERATION_ERROR' = 'GENERATION_ERROR'
-    if (message.includes('memory') || message.includes('OOM')) {
+    if (isDeviceLost(message)) {
+      post({ type: 'fatal', error: message })
+      return
+    }
+
+    let code: 'OUT_OF_MEMORY' | 'CONTEXT_OVERFLOW' | 'GENERATION_ERROR' = 'GENERATION_ERROR'
+    if (isContextOverflowMessage(message)) {
+      code = 'CONTEXT_OVERFLOW'
+    } else if (message.includes('memory') || message.includes('OOM')) {
       code = 'OUT_OF_MEMORY'
     }
-    post({ type: 'error', error: message, code })
+    post({ type: 'error', requestId, error: message, code })
   } finally {
-    abortController = null
+    abortControllers.delete(requestId)
+  }
+}
+
+function handleAbort(requestId: string) {
+  if (requestId === loadingRequestId) {
+    cancelLoad()
+    return
   }
+
+  const abortController = abortControllers.get(requestId)
+  if (!abortController) return
+  abortController.abort()
+  engine?.interruptGenerate()
+}
+
+// Interrupt the current download/compile. Unloading aborts WebLLM's
+// reload; shards fetched so far stay in the Cache API for next time.
+function cancelLoad() {
+  loadCancelled = true
+  engine?.unload().catch(() => {
+    // The reload rejects with the abort reason; nothing else to clean up
+  })
 }
 
-function handleAbort() {
-  if (abortController) {
+// Abort every in-flight generation and wait until each has posted `done`
+async function abortAllChats() {
+  for (const abortController of abortControllers.values()) {
     abortController.abort()
   }
+  if (abortControllers.size > 0) {
+    await engine?.interruptGenerate()
+  }
+  await Promise.allSettled(chatTasks)
+}
+
+async function handleSwitch(requestId: string, model: string) {
+  await abortAllChats()
+  await handleInit(requestId, model)
+}
+
+async function handleUnload(requestId: string) {
+  await abortAllChats()
+  try {
+    await engine?.unload()
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    post({ type: 'error', requestId, error: message, code: 'UNKNOWN' })
+  } finally {
+    engine = null
+    post({ type: 'unload-complete', requestId })
+  }
 }
 
 // ============================================================
 // Message listener
 // ============================================================
 
+// Device loss can also surface outside a request (e.g. from WebLLM's
+// internal promises), so watch for it globally
+self.addEventListener('unhandledrejection', (e: PromiseRejectionEvent) => {
+  const message = e.reason instanceof Error ? e.reason.message : String(e.reason)
+  if (isDeviceLost(message)) {
+    post({ type: 'fatal', error: message })
+  }
+})
+
 self.onmessage = (e: MessageEvent<WorkerMessageToWorker>) => {
   const msg = e.data
   switch (msg.type) {
     case 'init':
-      handleInit(msg.model)
+      handleInit(msg.requestId, msg.model)
+      break
+    case 'chat': {
+      const task = handleChat(msg.requestId, msg.messages, msg.config)
+      chatTasks.add(task)
+      task.finally(() => chatTasks.delete(task))
       break
-    case 'chat':
-      handleChat(msg.messages, msg.config)
+    }
+    case 'switch':
+      handleSwitch(msg.requestId, msg.model)
+      break
+    case 'unload':
+      handleUnload(msg.requestId)
       break
     case 'abort':
-      handleAbort()
+      handleAbort(msg.requestId)
+      break
+    case 'ping':
+      post({ type: 'pong', requestId: msg.requestId })
       break
   }
 }